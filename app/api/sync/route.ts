@@ -0,0 +1,51 @@
+/* app/api/sync/route.ts
+ * 複数端末の同期（任意機能）
+ * - GET  ?since=<cursor>：cursor より後に書かれた日 / 辞書
+ * - POST：baseRevision 付きで日 / 辞書を書く（古ければ conflict として現在の内容を返す）
+ * - ACHIEVE_SYNC_TOKEN が未設定なら 404（同期を使わない構成では何もしない）
+ */
+
+import { parseSyncPushRequest } from "@/lib/sync/protocol";
+import {
+  isAuthorizedSyncRequest,
+  isSyncServerEnabled,
+  pullSyncChanges,
+  pushSyncChanges,
+} from "@/lib/sync/server-store";
+
+export const dynamic = "force-dynamic";
+
+function guard(request: Request): Response | null {
+  if (!isSyncServerEnabled()) return Response.json({ error: "sync is disabled" }, { status: 404 });
+  if (!isAuthorizedSyncRequest(request)) return Response.json({ error: "unauthorized" }, { status: 401 });
+  return null;
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const denied = guard(request);
+  if (denied) return denied;
+
+  const since = Number(new URL(request.url).searchParams.get("since") ?? "0");
+  if (!Number.isInteger(since) || since < 0) {
+    return Response.json({ error: "invalid cursor" }, { status: 400 });
+  }
+
+  return Response.json(await pullSyncChanges(since));
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const denied = guard(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = (await request.json()) as unknown;
+  } catch {
+    return Response.json({ error: "invalid json" }, { status: 400 });
+  }
+
+  const req = parseSyncPushRequest(body);
+  if (!req) return Response.json({ error: "invalid request" }, { status: 400 });
+
+  return Response.json(await pushSyncChanges(req));
+}
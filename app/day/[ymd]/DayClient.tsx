@@ -0,0 +1,91 @@
+/* app/day/[ymd]/DayClient.tsx */
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { addDaysToYmd, formatYmd } from "@/lib/date";
+import { watchDay } from "@/lib/day-boundary";
+import DayEditor from "@/components/today/DayEditor";
+
+type DayClientProps = {
+  ymd: string; // page.tsx で暦の上の日付か確かめ済み
+};
+
+const NAV_LINK_CLASS =
+  "rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-1 text-xs text-zinc-200 hover:bg-zinc-900";
+const NAV_DISABLED_CLASS = "rounded-xl border border-zinc-900 px-3 py-1 text-xs text-zinc-600";
+
+/**
+ * 任意の日の記録（書き忘れた日の追記用）
+ * - 前の日 / 次の日へ移動できる（今日より先へは進めない）
+ * - 未来の日は開かない（今日が来てから記録する）
+ */
+export default function DayClient(props: DayClientProps) {
+  const { ymd } = props;
+
+  const [today, setToday] = useState<string>(() => formatYmd());
+
+  // 開いている間に日付が変わったら「次の日」を進められるようにする
+  useEffect(() => {
+    return watchDay(today, setToday);
+  }, [today]);
+
+  const prev = addDaysToYmd(ymd, -1);
+  const next = addDaysToYmd(ymd, 1);
+
+  const nav = (
+    <nav className="flex items-center gap-2" aria-label="日付の移動">
+      <Link href={`/day/${prev}`} className={NAV_LINK_CLASS}>
+        ← 前の日
+      </Link>
+      {next <= today ? (
+        <Link href={`/day/${next}`} className={NAV_LINK_CLASS}>
+          次の日 →
+        </Link>
+      ) : (
+        <span className={NAV_DISABLED_CLASS} aria-disabled="true">
+          次の日 →
+        </span>
+      )}
+      <Link href={`/history?d=${ymd}`} className={NAV_LINK_CLASS}>
+        History
+      </Link>
+    </nav>
+  );
+
+  if (ymd > today) {
+    return (
+      <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+        <section className="space-y-6">
+          <header className="space-y-2">
+            <p className="text-sm text-zinc-400">{ymd}</p>
+            <h1 className="text-2xl font-semibold tracking-tight">まだ来ていない日です</h1>
+          </header>
+
+          <div className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4 text-sm text-zinc-300">
+            <p>未来の日には記録できません（今日は {today}）。</p>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <Link
+                href="/today"
+                className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900"
+              >
+                今日を開く
+              </Link>
+              <Link
+                href="/history"
+                className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+              >
+                History へ
+              </Link>
+            </div>
+          </div>
+        </section>
+      </main>
+    );
+  }
+
+  const yesterday = addDaysToYmd(today, -1);
+  const title = ymd === today ? "今日できたこと" : ymd === yesterday ? "昨日できたこと" : "この日できたこと";
+
+  return <DayEditor key={ymd} ymd={ymd} title={title} nav={nav} />;
+}
@@ -0,0 +1,51 @@
+/* app/day/[ymd]/DayClientOnly.tsx */
+"use client";
+
+import dynamic from "next/dynamic";
+import type { ComponentType } from "react";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
+
+type Props = { ymd: string };
+
+type DayModule = {
+  default?: ComponentType<Props>;
+  DayClient?: ComponentType<Props>;
+};
+
+const DayClient = dynamic<Props>(
+  async () => {
+    await prepareClient();
+    const mod = (await import("./DayClient")) as unknown as DayModule;
+    const Comp = mod.default ?? mod.DayClient;
+
+    if (!Comp) {
+      // export が想定外だった場合の保険（画面を壊さない）
+      return function Missing() {
+        return (
+          <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+            <p className="text-sm text-zinc-400">DayClient export not found.</p>
+          </main>
+        );
+      };
+    }
+
+    return Comp;
+  },
+  {
+    ssr: false,
+    loading: () => (
+      <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+        <p className="text-sm text-zinc-400">Loading...</p>
+      </main>
+    ),
+  },
+);
+
+export default function DayClientOnly(props: Props) {
+  return (
+    <UnlockGate>
+      <DayClient ymd={props.ymd} />
+    </UnlockGate>
+  );
+}
@@ -0,0 +1,21 @@
+/* app/day/[ymd]/page.tsx */
+import { notFound } from "next/navigation";
+import { addDaysToYmd } from "@/lib/date";
+import { isYmdString } from "@/lib/storage";
+import DayClientOnly from "./DayClientOnly";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type DayPageProps = {
+  params: Promise<{ ymd: string }>;
+};
+
+export default async function DayPage(props: DayPageProps) {
+  const { ymd } = await props.params;
+
+  // 形だけでなく暦の上にある日か（2026-02-30 などは 404）
+  if (!isYmdString(ymd) || addDaysToYmd(ymd, 0) !== ymd) notFound();
+
+  return <DayClientOnly ymd={ymd} />;
+}
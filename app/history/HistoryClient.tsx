@@ -1,7 +1,8 @@
 /* app/history/HistoryClient.tsx */
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import {
   canonicalizeTag,
@@ -10,17 +11,33 @@ import {
   normalizeAliasKey,
   type TagAliases,
 } from "@/lib/diary";
+import { formatDateTime } from "@/lib/date";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { type RevisionTarget } from "@/lib/revisions";
+import {
+  getSearchIndexSnapshot,
+  subscribeSearchIndex,
+  syncSearchIndex,
+  type SearchIndexReader,
+  type SearchMode,
+} from "@/lib/search/store";
 import { type AchieveItem, type DayEntry } from "@/lib/storage";
 import { useDaysData } from "@/lib/useDaysData";
 import { useTagAliases } from "@/lib/useTagAliases";
+import DayList from "@/components/history/DayList";
+import ExportPanel from "@/components/history/ExportPanel";
+import RevisionPanel from "@/components/history/RevisionPanel";
+import { moodLabel } from "@/components/today/MoodPicker";
 
-type SearchMode = "text" | "tag";
+// 詳細の項目は多い日でも最初はこの件数まで描画（「さらに表示」で増やす）
+const ITEM_PAGE_SIZE = 50;
 
-function buildUrl(pathname: string, q: string, mode: SearchMode): string {
+function buildUrl(pathname: string, q: string, mode: SearchMode, d: string | null): string {
   const params = new URLSearchParams();
   const tq = q.trim();
   if (tq) params.set("q", tq);
   if (mode === "tag") params.set("mode", "tag");
+  if (d) params.set("d", d);
   const qs = params.toString();
   return qs ? `${pathname}?${qs}` : pathname;
 }
@@ -32,6 +49,10 @@ function tagQueryCanonical(raw: string, aliases: TagAliases): string {
   return canon.toLowerCase();
 }
 
+function getServerSearchIndex(): SearchIndexReader | null {
+  return null;
+}
+
 function itemMatchesText(it: AchieveItem, q: string): boolean {
   return includesQuery(it.text, q);
 }
@@ -48,6 +69,8 @@ export default function HistoryClient() {
 
   const mode: SearchMode = searchParams.get("mode") === "tag" ? "tag" : "text";
   const q = searchParams.get("q") ?? "";
+  // 選択中の日（再読み込み・共有しても同じ日を開けるよう URL に持つ）
+  const selectedYmd = searchParams.get("d");
 
   const { aliases, requestRefresh: requestAliasesRefresh } = useTagAliases({
     enabled: true,
@@ -75,22 +98,38 @@ export default function HistoryClient() {
 
   const tagQ = useMemo(() => tagQueryCanonical(q, aliases), [q, aliases]);
 
+  // 検索インデックス：entries / aliases が変わったら変わった日だけ突き合わせる
+  const searchIndex = useSyncExternalStore(subscribeSearchIndex, getSearchIndexSnapshot, getServerSearchIndex);
+
+  useEffect(() => {
+    if (!entries) return;
+    syncSearchIndex(entries, aliases);
+  }, [entries, aliases]);
+
+  // 索引で引けた結果（ymd → 項目 id）。突き合わせ前などは null で、全件走査にする
+  const searchHits = useMemo(() => {
+    const tq = q.trim();
+    if (!tq || !searchIndex) return null;
+    if (mode === "tag") return tagQ ? searchIndex.search(listEntries, aliases, tagQ, "tag") : null;
+    return searchIndex.search(listEntries, aliases, tq, "text");
+  }, [searchIndex, listEntries, aliases, q, mode, tagQ]);
+
   const filteredEntries = useMemo(() => {
     const tq = q.trim();
     if (!tq) return listEntries;
 
     if (mode === "tag") {
       if (!tagQ) return listEntries;
+      if (searchHits) return listEntries.filter((e) => searchHits.has(e.ymd));
       return listEntries.filter((e) => e.day.items.some((it) => itemMatchesTag(it, tagQ, aliases)));
     }
 
+    if (searchHits) return listEntries.filter((e) => searchHits.has(e.ymd) || includesQuery(e.ymd, tq));
     return listEntries.filter((e) => {
       if (includesQuery(e.ymd, tq)) return true;
       return e.day.items.some((it) => itemMatchesText(it, tq));
     });
-  }, [listEntries, q, mode, tagQ, aliases]);
-
-  const [selectedYmd, setSelectedYmd] = useState<string | null>(null);
+  }, [listEntries, q, mode, tagQ, aliases, searchHits]);
 
   const effectiveSelectedYmd = useMemo(() => {
     const list = q.trim() ? filteredEntries : listEntries;
@@ -104,31 +143,71 @@ export default function HistoryClient() {
     return listEntries.find((e) => e.ymd === effectiveSelectedYmd) ?? null;
   }, [listEntries, effectiveSelectedYmd]);
 
-  const visibleItems = useMemo(() => {
-    if (!selected) return [];
+  // 履歴パネル（開いている対象）
+  const [revisionOpen, setRevisionOpen] = useState<{ ymd: string; target: RevisionTarget } | null>(null);
+  const revision = revisionOpen && selected && revisionOpen.ymd === selected.ymd ? revisionOpen : null;
+
+  function revisionKey(target: RevisionTarget): string {
+    return target.kind === "memo" ? "memo" : `item:${target.itemId}`;
+  }
+
+  function toggleRevision(ymd: string, target: RevisionTarget) {
+    const isOpen = revision && revisionKey(revision.target) === revisionKey(target);
+    setRevisionOpen(isOpen ? null : { ymd, target });
+  }
+
+  function onRevisionRestored() {
+    setRevisionOpen(null);
+    requestDaysRefresh({ force: true });
+  }
+
+  // 検索中の項目の絞り込み（詳細表示と CSV 書き出しで共用。検索していなければ null）
+  const itemFilter = useMemo(() => {
     const tq = q.trim();
-    if (!tq) return selected.day.items;
+    if (!tq) return null;
 
     if (mode === "tag") {
-      if (!tagQ) return selected.day.items;
-      return selected.day.items.filter((it) => itemMatchesTag(it, tagQ, aliases));
+      if (!tagQ) return null;
+      if (searchHits) return (it: AchieveItem, ymd: string) => searchHits.get(ymd)?.has(it.id) ?? false;
+      return (it: AchieveItem) => itemMatchesTag(it, tagQ, aliases);
     }
 
-    return selected.day.items.filter((it) => itemMatchesText(it, tq));
-  }, [selected, q, mode, tagQ, aliases]);
+    if (searchHits) return (it: AchieveItem, ymd: string) => searchHits.get(ymd)?.has(it.id) ?? false;
+    return (it: AchieveItem) => itemMatchesText(it, tq);
+  }, [q, mode, tagQ, aliases, searchHits]);
+
+  const matchedItems = useMemo(() => {
+    if (!selected) return [];
+    if (!itemFilter) return selected.day.items;
+    return selected.day.items.filter((it) => itemFilter(it, selected.ymd));
+  }, [selected, itemFilter]);
+
+  // 詳細の描画件数（日を切り替えたら戻す）
+  const [itemLimit, setItemLimit] = useState<{ ymd: string; limit: number } | null>(null);
+  const visibleLimit =
+    itemLimit && selected && itemLimit.ymd === selected.ymd ? itemLimit.limit : ITEM_PAGE_SIZE;
+  const visibleItems = useMemo(() => matchedItems.slice(0, visibleLimit), [matchedItems, visibleLimit]);
 
   function setQueryToUrl(next: string) {
-    router.replace(buildUrl(pathname, next, mode));
+    router.replace(buildUrl(pathname, next, mode, selectedYmd));
   }
 
   function setModeToUrl(nextMode: SearchMode) {
-    router.replace(buildUrl(pathname, q, nextMode));
+    router.replace(buildUrl(pathname, q, nextMode, selectedYmd));
   }
 
+  const selectDay = useCallback(
+    (ymd: string) => {
+      router.replace(buildUrl(pathname, q, mode, ymd), { scroll: false });
+    },
+    [router, pathname, q, mode],
+  );
+
   const [showSuggest, setShowSuggest] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
 
-  // A: 候補UIが開いてる時だけ候補の全件集計を走らせる
-  const tagSuggestions = useMemo(() => {
+  // A: 候補UIが開いてる時だけ候補の全件集計を走らせる（入力のたびには数え直さない）
+  const tagCandidates = useMemo(() => {
     if (mode !== "tag") return [];
     if (!showSuggest) return [];
     if (listEntries.length === 0) return [];
@@ -150,7 +229,6 @@ export default function HistoryClient() {
       inv.set(canon, arr);
     }
 
-    const input = normalizeAliasKey(q);
     const items = Array.from(count.entries()).map(([tag, c]) => ({
       tag,
       count: c,
@@ -162,13 +240,18 @@ export default function HistoryClient() {
       return a.tag.localeCompare(b.tag);
     });
 
-    const filtered = items.filter((x) => {
+    return items;
+  }, [listEntries, aliases, mode, showSuggest]);
+
+  const tagSuggestions = useMemo(() => {
+    const input = normalizeAliasKey(q);
+    const filtered = tagCandidates.filter((x) => {
       if (!input) return true;
       return x.matchKeys.some((k) => k.includes(input));
     });
 
     return filtered.slice(0, 8);
-  }, [listEntries, aliases, q, mode, showSuggest]);
+  }, [tagCandidates, q]);
 
   const totalDaysText = useMemo(() => {
     if (isLoading) return "読み込み中…";
@@ -181,21 +264,43 @@ export default function HistoryClient() {
       <header className="mb-6 flex items-start justify-between gap-3">
         <div>
           <h1 className="text-2xl font-semibold tracking-tight">履歴</h1>
-          <p className="mt-1 text-sm text-zinc-400">localStorage から読み取り、検索・詳細表示します。</p>
+          <p className="mt-1 text-sm text-zinc-400">このブラウザに保存した記録を検索・詳細表示します。</p>
         </div>
 
-        <button
-          type="button"
-          onClick={() => {
-            requestRefresh();
-            requestAliasesRefresh({ force: true, immediate: true });
-          }}
-          className="shrink-0 whitespace-nowrap rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-900"
-        >
-          更新
-        </button>
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            onClick={() => setShowExport((v) => !v)}
+            disabled={isLoading}
+            className="whitespace-nowrap rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-900 disabled:opacity-60"
+          >
+            書き出し
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              requestRefresh();
+              requestAliasesRefresh({ force: true, immediate: true });
+            }}
+            className="whitespace-nowrap rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-900"
+          >
+            更新
+          </button>
+        </div>
       </header>
 
+      {showExport ? (
+        <div className="mb-4">
+          <ExportPanel
+            entries={listEntries}
+            searchEntries={q.trim() ? filteredEntries : null}
+            itemFilter={itemFilter}
+            aliases={aliases}
+            onClose={() => setShowExport(false)}
+          />
+        </div>
+      ) : null}
+
       <div className="grid gap-4 md:grid-cols-2">
         <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
           <div className="flex items-end justify-between gap-3">
@@ -302,32 +407,7 @@ export default function HistoryClient() {
                 : "まだ履歴がありません。/today で追加してみましょう。"}
             </div>
           ) : (
-            <ul className="mt-4 space-y-2">
-              {filteredEntries.map((e) => {
-                const total = e.day.items.length;
-                const active = e.ymd === effectiveSelectedYmd;
-
-                return (
-                  <li key={e.ymd}>
-                    <button
-                      type="button"
-                      onClick={() => setSelectedYmd(e.ymd)}
-                      className={
-                        "w-full rounded-xl border px-3 py-2 text-left transition " +
-                        (active
-                          ? "border-zinc-600 bg-zinc-950/60"
-                          : "border-zinc-800 bg-zinc-950/40 hover:bg-zinc-900")
-                      }
-                    >
-                      <div className="flex items-center justify-between gap-2">
-                        <p className="font-medium text-zinc-100">{e.ymd}</p>
-                        <p className="text-xs text-zinc-400">{total}件</p>
-                      </div>
-                    </button>
-                  </li>
-                );
-              })}
-            </ul>
+            <DayList entries={filteredEntries} selectedYmd={effectiveSelectedYmd} onSelect={selectDay} />
           )}
         </section>
 
@@ -341,17 +421,25 @@ export default function HistoryClient() {
           ) : (
             <div className="mt-4 space-y-3">
               <div className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
-                <p className="text-sm font-semibold text-zinc-100">{selected.ymd}</p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-zinc-100">{selected.ymd}</p>
+                  <Link
+                    href={`/day/${selected.ymd}`}
+                    className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-200 hover:bg-zinc-900"
+                  >
+                    この日を編集
+                  </Link>
+                </div>
                 <p className="mt-1 text-xs text-zinc-400">
                   合計 {selected.day.items.length} 件
-                  {q.trim() ? ` / ヒット ${visibleItems.length} 件` : ""}
+                  {q.trim() ? ` / ヒット ${matchedItems.length} 件` : ""}
                 </p>
               </div>
 
               <div className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
                 <h3 className="text-xs font-semibold text-zinc-200">できたこと</h3>
 
-                {visibleItems.length === 0 ? (
+                {matchedItems.length === 0 ? (
                   <div className="mt-3 rounded-xl border border-dashed border-zinc-800 p-4 text-center text-sm text-zinc-400">
                     {q.trim() ? "この日に一致する項目がありません。" : "項目がありません。"}
                   </div>
@@ -360,25 +448,101 @@ export default function HistoryClient() {
                     {visibleItems.map((it) => (
                       <li
                         key={it.id}
-                        className="rounded-lg border border-zinc-800 bg-zinc-950 px-3 py-2"
+                        className={
+                          "rounded-lg border px-3 py-2 " +
+                          (it.id === selected.day.pinnedId
+                            ? "border-amber-300/40 bg-amber-300/5"
+                            : "border-zinc-800 bg-zinc-950")
+                        }
                       >
+                        {it.id === selected.day.pinnedId ? (
+                          <p className="mb-1 text-xs font-semibold text-amber-300">★ 今日のベスト</p>
+                        ) : null}
                         <p className="whitespace-pre-wrap break-words text-zinc-100">{it.text}</p>
-                        <p className="mt-1 text-xs text-zinc-500">
-                          {new Date(it.createdAt).toLocaleString("ja-JP", {
-                            timeZone: "Asia/Tokyo",
-                            hour: "2-digit",
-                            minute: "2-digit",
-                          })}
-                        </p>
+                        <div className="mt-1 flex items-center justify-between gap-2">
+                          <p className="text-xs text-zinc-500">
+                            {formatDateTime(new Date(it.createdAt), {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                          </p>
+                          <button
+                            type="button"
+                            onClick={() => toggleRevision(selected.ymd, { kind: "item", itemId: it.id })}
+                            className="rounded-lg px-2 py-0.5 text-xs text-zinc-500 hover:bg-zinc-900 hover:text-zinc-200"
+                          >
+                            履歴
+                          </button>
+                        </div>
+
+                        {revision?.target.kind === "item" && revision.target.itemId === it.id ? (
+                          <div className="mt-2">
+                            <RevisionPanel
+                              key={`${selected.ymd}:${it.id}`}
+                              ymd={selected.ymd}
+                              target={revision.target}
+                              currentText={it.text}
+                              onClose={() => setRevisionOpen(null)}
+                              onRestored={onRevisionRestored}
+                            />
+                          </div>
+                        ) : null}
                       </li>
                     ))}
                   </ul>
                 )}
 
+                {matchedItems.length > visibleItems.length ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setItemLimit({ ymd: selected.ymd, limit: visibleItems.length + ITEM_PAGE_SIZE })
+                    }
+                    className="mt-2 w-full rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+                  >
+                    さらに表示（残り {matchedItems.length - visibleItems.length} 件）
+                  </button>
+                ) : null}
+
                 <p className="mt-3 text-xs text-zinc-500">
                   ※改行表示：<span className="font-semibold">whitespace-pre-wrap</span> を使用
                 </p>
               </div>
+
+              <div className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-xs font-semibold text-zinc-200">
+                    ひとこと
+                    {selected.day.mood ? <span className="ml-2 font-normal text-zinc-400">{moodLabel(selected.day.mood)}</span> : null}
+                  </h3>
+                  <button
+                    type="button"
+                    onClick={() => toggleRevision(selected.ymd, { kind: "memo" })}
+                    className="rounded-lg px-2 py-0.5 text-xs text-zinc-500 hover:bg-zinc-900 hover:text-zinc-200"
+                  >
+                    履歴
+                  </button>
+                </div>
+
+                {selected.day.memo ? (
+                  <p className="mt-2 whitespace-pre-wrap break-words text-sm text-zinc-100">{selected.day.memo}</p>
+                ) : (
+                  <p className="mt-2 text-sm text-zinc-500">（なし）</p>
+                )}
+
+                {revision?.target.kind === "memo" ? (
+                  <div className="mt-2">
+                    <RevisionPanel
+                      key={`${selected.ymd}:memo`}
+                      ymd={selected.ymd}
+                      target={revision.target}
+                      currentText={selected.day.memo}
+                      onClose={() => setRevisionOpen(null)}
+                      onRestored={onRevisionRestored}
+                    />
+                  </div>
+                ) : null}
+              </div>
             </div>
           )}
         </section>
@@ -2,9 +2,21 @@
 "use client";
 
 import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
 
-const HistoryClient = dynamic(() => import("./HistoryClient"), { ssr: false });
+const HistoryClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./HistoryClient");
+  },
+  { ssr: false },
+);
 
 export default function HistoryClientOnly() {
-  return <HistoryClient />;
+  return (
+    <UnlockGate>
+      <HistoryClient />
+    </UnlockGate>
+  );
 }
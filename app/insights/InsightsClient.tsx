@@ -1,53 +1,16 @@
 /* app/insights/InsightsClient.tsx */
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { runIdle, type CancelFn } from "@/lib/client-scheduler";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import type { CancelFn } from "@/lib/client-scheduler";
+import { formatYmd } from "@/lib/date";
+import { computeHabitStats, formatHabitWeekdays, getHabits, getServerHabits, subscribeHabits } from "@/lib/habits";
+import { EMPTY_INSIGHTS, type Insights } from "@/lib/insights";
 import { useDaysData } from "@/lib/useDaysData";
-import type { DayEntry } from "@/lib/storage";
+import { requestInsights } from "@/lib/workers/client";
 import TagAliasesEditor from "@/components/insights/TagAliasesEditor";
 
-type Insights = {
-  totalDays: number;
-  totalItems: number;
-  avgItemsPerDay: number;
-  topWords: Array<{ word: string; count: number }>;
-};
-
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[\u3000\s]+/g, " ")
-    .split(/[^a-z0-9\u3040-\u30ff\u4e00-\u9fff]+/g)
-    .map((s) => s.trim())
-    .filter((s) => s.length >= 2);
-}
-
-function computeInsights(entries: DayEntry[]): Insights {
-  const totalDays = entries.length;
-  let totalItems = 0;
-
-  const wordCount = new Map<string, number>();
-
-  for (const e of entries) {
-    totalItems += e.day.items.length;
-    for (const it of e.day.items) {
-      for (const w of tokenize(it.text)) {
-        wordCount.set(w, (wordCount.get(w) ?? 0) + 1);
-      }
-    }
-  }
-
-  const avgItemsPerDay = totalDays === 0 ? 0 : totalItems / totalDays;
-
-  const topWords = Array.from(wordCount.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 10)
-    .map(([word, count]) => ({ word, count }));
-
-  return { totalDays, totalItems, avgItemsPerDay, topWords };
-}
-
 export default function InsightsClient() {
   const { entries, isLoading, refreshNow } = useDaysData({
     enabled: true,
@@ -57,12 +20,7 @@ export default function InsightsClient() {
     throttleMs: 500,
   });
 
-  const [insights, setInsights] = useState<Insights>({
-    totalDays: 0,
-    totalItems: 0,
-    avgItemsPerDay: 0,
-    topWords: [],
-  });
+  const [insights, setInsights] = useState<Insights>(EMPTY_INSIGHTS);
 
   const computeJobCancelRef = useRef<CancelFn | null>(null);
 
@@ -70,9 +28,10 @@ export default function InsightsClient() {
     if (!entries) return;
 
     if (computeJobCancelRef.current) computeJobCancelRef.current();
-    computeJobCancelRef.current = runIdle(() => {
+    // 全日の走査は worker で（使えなければ idle でメインスレッド）
+    computeJobCancelRef.current = requestInsights(entries, (next) => {
       computeJobCancelRef.current = null;
-      setInsights(computeInsights(entries));
+      setInsights(next);
     });
 
     return () => {
@@ -87,6 +46,14 @@ export default function InsightsClient() {
     return insights.totalDays !== entries.length;
   }, [isLoading, entries, insights.totalDays]);
 
+  // 習慣の達成率・連続記録（チェックした日は集計済みの habitDays から）
+  const habits = useSyncExternalStore(subscribeHabits, getHabits, getServerHabits);
+  const [today] = useState<string>(() => formatYmd());
+  const habitStats = useMemo(
+    () => habits.map((h) => ({ habit: h, stats: computeHabitStats(h, insights.habitDays[h.id] ?? [], today) })),
+    [habits, insights.habitDays, today],
+  );
+
   return (
     <section className="space-y-4">
       <header className="flex items-center justify-between">
@@ -139,6 +106,67 @@ export default function InsightsClient() {
         )}
       </div>
 
+      {habits.length > 0 ? (
+        <div className="rounded-md border p-3">
+          <div className="text-sm font-medium">習慣</div>
+          {isComputing ? (
+            <p className="mt-2 text-sm opacity-80">集計中です…</p>
+          ) : (
+            <table className="mt-2 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs opacity-80">
+                  <th className="pb-1 font-normal">名前</th>
+                  <th className="pb-1 text-right font-normal">達成率</th>
+                  <th className="pb-1 text-right font-normal">連続</th>
+                  <th className="pb-1 text-right font-normal">最長</th>
+                </tr>
+              </thead>
+              <tbody>
+                {habitStats.map(({ habit, stats }) => (
+                  <tr key={habit.id} className="border-t">
+                    <td className="py-1">
+                      <span className="break-words">{habit.name}</span>
+                      <span className="ml-2 text-xs opacity-60">{formatHabitWeekdays(habit)}</span>
+                    </td>
+                    <td className="py-1 text-right">
+                      {stats.dueDays === 0 ? "—" : `${Math.round(stats.rate * 100)}%`}
+                      <span className="ml-1 text-xs opacity-60">
+                        （{stats.doneDays}/{stats.dueDays}）
+                      </span>
+                    </td>
+                    <td className="py-1 text-right">{stats.currentStreak}回</td>
+                    <td className="py-1 text-right">{stats.longestStreak}回</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : null}
+
+      <div className="rounded-md border p-3">
+        <div className="flex items-baseline justify-between">
+          <div className="text-sm font-medium">最近の「今日のベスト」</div>
+          {isComputing ? null : <div className="text-xs opacity-80">{insights.bestDays}日で選択</div>}
+        </div>
+        {isComputing ? (
+          <p className="mt-2 text-sm opacity-80">集計中です…</p>
+        ) : insights.recentBests.length === 0 ? (
+          <p className="mt-2 text-sm opacity-80">まだありません。Today の ★ で、その日いちばんの「できた」を選べます。</p>
+        ) : (
+          <ul className="mt-2 space-y-1">
+            {insights.recentBests.map((x) => (
+              <li key={x.ymd} className="flex items-baseline gap-3 border-b pb-1">
+                <Link href={`/history?d=${x.ymd}`} className="shrink-0 text-xs opacity-80 hover:underline">
+                  {x.ymd}
+                </Link>
+                <span className="min-w-0 break-words text-sm">★ {x.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* ✅ 辞書編集：保存後に notifyTagAliasesMutated() を呼ぶことで同一タブ即反映 */}
       <TagAliasesEditor />
     </section>
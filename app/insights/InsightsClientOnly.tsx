@@ -2,9 +2,21 @@
 "use client";
 
 import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
 
-const InsightsClient = dynamic(() => import("./InsightsClient"), { ssr: false });
+const InsightsClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./InsightsClient");
+  },
+  { ssr: false },
+);
 
 export default function InsightsClientOnly() {
-  return <InsightsClient />;
+  return (
+    <UnlockGate>
+      <InsightsClient />
+    </UnlockGate>
+  );
 }
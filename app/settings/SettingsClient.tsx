@@ -0,0 +1,69 @@
+/* app/settings/SettingsClient.tsx */
+"use client";
+
+import Link from "next/link";
+import BackupPanel from "@/components/settings/BackupPanel";
+import DateSettingsPanel from "@/components/settings/DateSettingsPanel";
+import JournalImportPanel from "@/components/settings/JournalImportPanel";
+import StorageBackendPanel from "@/components/settings/StorageBackendPanel";
+import EncryptionPanel from "@/components/settings/EncryptionPanel";
+import HabitsPanel from "@/components/settings/HabitsPanel";
+import StorageUsagePanel from "@/components/settings/StorageUsagePanel";
+import SyncPanel from "@/components/settings/SyncPanel";
+import TemplatesPanel from "@/components/settings/TemplatesPanel";
+
+export default function SettingsClient() {
+  return (
+    <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+      <header className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">設定</h1>
+        <p className="mt-1 text-sm text-zinc-400">データの書き出し・取り込みなど。</p>
+      </header>
+
+      <div className="space-y-4">
+        <DateSettingsPanel />
+        <HabitsPanel />
+        <TemplatesPanel />
+        <BackupPanel />
+        <JournalImportPanel />
+        <StorageBackendPanel />
+        <EncryptionPanel />
+        <SyncPanel />
+        <StorageUsagePanel />
+
+        <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <h2 className="text-sm font-semibold text-zinc-200">メンテナンス</h2>
+          <ul className="mt-3 space-y-2">
+            <li>
+              <Link
+                href="/settings/health"
+                className="flex items-center justify-between rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-100 hover:bg-zinc-900"
+              >
+                <span>データの健全性チェック</span>
+                <span className="text-xs text-zinc-400">壊れた記録・重複 id の修復</span>
+              </Link>
+            </li>
+            <li>
+              <Link
+                href="/settings/trash"
+                className="flex items-center justify-between rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-100 hover:bg-zinc-900"
+              >
+                <span>ゴミ箱</span>
+                <span className="text-xs text-zinc-400">削除した項目の復元・完全削除</span>
+              </Link>
+            </li>
+            <li>
+              <Link
+                href="/settings/snapshots"
+                className="flex items-center justify-between rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-100 hover:bg-zinc-900"
+              >
+                <span>スナップショット</span>
+                <span className="text-xs text-zinc-400">自動保存した時点への巻き戻し</span>
+              </Link>
+            </li>
+          </ul>
+        </section>
+      </div>
+    </main>
+  );
+}
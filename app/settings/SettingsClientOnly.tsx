@@ -0,0 +1,22 @@
+/* app/settings/SettingsClientOnly.tsx */
+"use client";
+
+import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
+
+const SettingsClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./SettingsClient");
+  },
+  { ssr: false },
+);
+
+export default function SettingsClientOnly() {
+  return (
+    <UnlockGate>
+      <SettingsClient />
+    </UnlockGate>
+  );
+}
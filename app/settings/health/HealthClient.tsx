@@ -0,0 +1,263 @@
+/* app/settings/health/HealthClient.tsx */
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import {
+  deleteQuarantine,
+  fixDayYmd,
+  listQuarantine,
+  moveOrphanToDayKey,
+  quarantineDay,
+  quarantineItem,
+  quarantineOrphan,
+  regenerateItemId,
+  scanHealth,
+  type DroppedItemReason,
+  type HealthIssue,
+  type HealthReport,
+  type QuarantineEntry,
+} from "@/lib/health";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { downloadText } from "@/lib/download";
+import type { SaveDayResult } from "@/lib/storage";
+
+type RepairAction = {
+  label: string;
+  run: () => SaveDayResult | Promise<SaveDayResult>;
+};
+
+function droppedLabel(reason: DroppedItemReason): string {
+  switch (reason) {
+    case "not-object":
+      return "形式が不正";
+    case "missing-id":
+      return "id が空";
+    case "missing-text":
+      return "本文が空";
+  }
+}
+
+function kindLabel(kind: HealthIssue["kind"]): string {
+  switch (kind) {
+    case "unparsable":
+      return "読込不可";
+    case "invalid-key":
+      return "キー不正";
+    case "ymd-mismatch":
+      return "日付不一致";
+    case "duplicate-id":
+      return "id重複";
+    case "dropped-item":
+      return "非表示項目";
+    case "orphan":
+      return "キー外";
+  }
+}
+
+function describe(issue: HealthIssue): { title: string; detail: string } {
+  switch (issue.kind) {
+    case "unparsable":
+      return { title: `${issue.ymd}：読み込めないデータ`, detail: "JSON として解釈できないため履歴に表示されません。" };
+    case "invalid-key":
+      return { title: `${issue.key}：日付キーが不正`, detail: "YYYY-MM-DD 形式ではないため無視されています。" };
+    case "ymd-mismatch":
+      return {
+        title: `${issue.ymd}：保存データの日付が ${issue.storedYmd}`,
+        detail: "キーの日付と中身の日付が一致していません。",
+      };
+    case "duplicate-id":
+      return {
+        title: `${issue.ymd}：id の重複（${issue.itemId.slice(0, 8)}…）`,
+        detail: `${issue.firstYmd} の項目と同じ id です（${issue.index + 1}件目）。`,
+      };
+    case "dropped-item":
+      return {
+        title: `${issue.ymd}：表示されない項目（${droppedLabel(issue.reason)}）`,
+        detail: `${issue.index + 1}件目：${issue.preview || "（空）"}`,
+      };
+    case "orphan":
+      return {
+        title: `${issue.storageKey}：日付キー以外にある記録（${issue.storedYmd}）`,
+        detail: issue.canMove ? "日付キーへ移せます。" : "同じ日付の記録が既にあるため、退避のみ可能です。",
+      };
+  }
+}
+
+function actionsFor(issue: HealthIssue): RepairAction[] {
+  switch (issue.kind) {
+    case "unparsable":
+    case "invalid-key":
+      return [{ label: "退避する", run: () => quarantineDay(issue.ymd) }];
+    case "ymd-mismatch":
+      return [
+        { label: "日付を修正", run: () => fixDayYmd(issue.ymd) },
+        { label: "退避する", run: () => quarantineDay(issue.ymd) },
+      ];
+    case "duplicate-id":
+      return [{ label: "id を再生成", run: () => regenerateItemId(issue.ymd, issue.index) }];
+    case "dropped-item":
+      return issue.reason === "missing-id"
+        ? [
+            { label: "id を再生成", run: () => regenerateItemId(issue.ymd, issue.index) },
+            { label: "退避する", run: () => quarantineItem(issue.ymd, issue.index) },
+          ]
+        : [{ label: "退避する", run: () => quarantineItem(issue.ymd, issue.index) }];
+    case "orphan":
+      return issue.canMove
+        ? [
+            { label: "日付キーへ移す", run: () => moveOrphanToDayKey(issue.storageKey) },
+            { label: "退避する", run: () => quarantineOrphan(issue.storageKey) },
+          ]
+        : [{ label: "退避する", run: () => quarantineOrphan(issue.storageKey) }];
+  }
+}
+
+export default function HealthClient() {
+  const [report, setReport] = useState<HealthReport>(() => scanHealth());
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>(() => listQuarantine());
+  const [error, setError] = useState<string>("");
+
+  const summary = useMemo(() => {
+    const count = new Map<HealthIssue["kind"], number>();
+    for (const i of report.issues) count.set(i.kind, (count.get(i.kind) ?? 0) + 1);
+    return count;
+  }, [report]);
+
+  function rescan() {
+    setReport(scanHealth());
+    setQuarantine(listQuarantine());
+  }
+
+  async function runRepair(action: RepairAction) {
+    setError("");
+    try {
+      const res = await action.run();
+      if (!res.ok) setError(`修復できませんでした（${res.reason}）。`);
+    } catch (e: unknown) {
+      setError(`修復できませんでした：${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    rescan();
+    requestDaysRefresh({ force: true });
+  }
+
+  function removeQuarantine(key: string) {
+    deleteQuarantine(key);
+    setQuarantine(listQuarantine());
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+      <header className="mb-6 flex items-start justify-between gap-3">
+        <div>
+          <p className="text-xs text-zinc-500">
+            <Link href="/settings" className="hover:underline">
+              設定
+            </Link>{" "}
+            / データの健全性
+          </p>
+          <h1 className="mt-1 text-2xl font-semibold tracking-tight">データの健全性</h1>
+          <p className="mt-1 text-sm text-zinc-400">
+            履歴から黙って消えてしまう記録を見つけて、データを失わずに修復します。
+          </p>
+        </div>
+
+        <button
+          type="button"
+          onClick={rescan}
+          className="shrink-0 whitespace-nowrap rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-900"
+        >
+          再チェック
+        </button>
+      </header>
+
+      <div className="space-y-4">
+        <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <h2 className="text-sm font-semibold text-zinc-200">チェック結果</h2>
+          <p className="mt-1 text-xs text-zinc-500">
+            {report.scannedDays}日分を確認 / 問題 {report.issues.length}件
+            {report.issues.length
+              ? `（${Array.from(summary.entries())
+                  .map(([k, c]) => `${kindLabel(k)} ${c}`)
+                  .join(", ")}）`
+              : ""}
+          </p>
+
+          {error ? <p className="mt-2 text-xs text-red-300">{error}</p> : null}
+
+          {report.issues.length === 0 ? (
+            <div className="mt-4 rounded-xl border border-dashed border-zinc-800 p-6 text-center text-sm text-zinc-400">
+              問題は見つかりませんでした。
+            </div>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {report.issues.map((issue) => {
+                const d = describe(issue);
+                return (
+                  <li key={`${issue.kind}:${issue.key}`} className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+                    <p className="text-sm text-zinc-100">{d.title}</p>
+                    <p className="mt-1 text-xs text-zinc-400">{d.detail}</p>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {actionsFor(issue).map((a) => (
+                        <button
+                          key={a.label}
+                          type="button"
+                          onClick={() => runRepair(a)}
+                          className="rounded-lg border border-zinc-800 px-3 py-1.5 text-xs text-zinc-200 hover:bg-zinc-900"
+                        >
+                          {a.label}
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <h2 className="text-sm font-semibold text-zinc-200">退避したデータ</h2>
+          <p className="mt-1 text-xs text-zinc-500">元の JSON をそのまま保管しています（手動で確認・削除）。</p>
+
+          {quarantine.length === 0 ? (
+            <p className="mt-3 text-xs text-zinc-400">ありません。</p>
+          ) : (
+            <ul className="mt-3 space-y-2">
+              {quarantine.map((q) => (
+                <li key={q.key} className="rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm text-zinc-100">{q.sourceKey}</p>
+                      <p className="text-xs text-zinc-500">{q.at}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => downloadText("achieve-quarantine.json", q.raw, "application/json")}
+                        className="rounded-lg border border-zinc-800 px-3 py-1.5 text-xs text-zinc-200 hover:bg-zinc-900"
+                      >
+                        ダウンロード
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeQuarantine(q.key)}
+                        className="rounded-lg border border-zinc-800 px-3 py-1.5 text-xs text-zinc-200 hover:bg-zinc-900"
+                      >
+                        削除
+                      </button>
+                    </div>
+                  </div>
+                  <pre className="mt-2 max-h-32 overflow-auto whitespace-pre-wrap break-all rounded-lg bg-zinc-950 p-2 text-[11px] text-zinc-400">
+                    {q.raw}
+                  </pre>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
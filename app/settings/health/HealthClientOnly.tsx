@@ -0,0 +1,22 @@
+/* app/settings/health/HealthClientOnly.tsx */
+"use client";
+
+import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
+
+const HealthClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./HealthClient");
+  },
+  { ssr: false },
+);
+
+export default function HealthClientOnly() {
+  return (
+    <UnlockGate>
+      <HealthClient />
+    </UnlockGate>
+  );
+}
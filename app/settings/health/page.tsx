@@ -0,0 +1,9 @@
+/* app/settings/health/page.tsx */
+import HealthClientOnly from "./HealthClientOnly";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function HealthPage() {
+  return <HealthClientOnly />;
+}
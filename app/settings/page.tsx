@@ -0,0 +1,9 @@
+/* app/settings/page.tsx */
+import SettingsClientOnly from "./SettingsClientOnly";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function SettingsPage() {
+  return <SettingsClientOnly />;
+}
@@ -0,0 +1,297 @@
+/* app/settings/snapshots/SnapshotsClient.tsx */
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { BackupEnvelope } from "@/lib/backup";
+import { formatDateTime } from "@/lib/date";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { readSnapshotEnvelope, takeSnapshot } from "@/lib/snapshots/auto";
+import { KEEP_DAILY, KEEP_WEEKLY } from "@/lib/snapshots/rotation";
+import {
+  diffSnapshot,
+  rollbackAll,
+  rollbackDay,
+  type RollbackResult,
+  type SnapshotDayDiff,
+} from "@/lib/snapshots/restore";
+import {
+  isSnapshotStoreAvailable,
+  listSnapshotMetas,
+  type SnapshotMeta,
+  type SnapshotReason,
+} from "@/lib/snapshots/store";
+
+type Preview = {
+  meta: SnapshotMeta;
+  envelope: BackupEnvelope;
+  diffs: SnapshotDayDiff[];
+};
+
+function reasonLabel(reason: SnapshotReason): string {
+  switch (reason) {
+    case "daily":
+      return "毎日";
+    case "burst":
+      return "連続保存の後";
+    case "manual":
+      return "手動";
+    case "pre-restore":
+      return "復元前";
+  }
+}
+
+function formatTakenAt(iso: string): string {
+  return formatDateTime(new Date(iso), {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function diffSummary(d: SnapshotDayDiff): string {
+  if (d.status === "added") return `この日が戻ります（${d.itemsAdded}件）`;
+  if (d.status === "removed") return `この日が消えます（${d.itemsRemoved}件）`;
+
+  const parts: string[] = [];
+  if (d.itemsAdded) parts.push(`+${d.itemsAdded}件`);
+  if (d.itemsRemoved) parts.push(`-${d.itemsRemoved}件`);
+  if (d.itemsChanged) parts.push(`${d.itemsChanged}件変更`);
+  if (d.moodChanged) parts.push("気分");
+  if (d.memoChanged) parts.push("メモ");
+  return parts.join(" / ");
+}
+
+async function loadMetas(): Promise<SnapshotMeta[]> {
+  if (!isSnapshotStoreAvailable()) return [];
+  return listSnapshotMetas();
+}
+
+export default function SnapshotsClient() {
+  const [metas, setMetas] = useState<SnapshotMeta[] | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [confirmAll, setConfirmAll] = useState<boolean>(false);
+
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+
+  const reload = useCallback(() => {
+    void loadMetas()
+      .then((list) => setMetas(list))
+      .catch(() => {
+        setMetas([]);
+        setError("スナップショットを読み込めませんでした。");
+      });
+  }, []);
+
+  useEffect(() => {
+    // effect内で同期 setState はしない（Promise 経由で反映）
+    reload();
+  }, [reload]);
+
+  async function takeNow() {
+    setBusy(true);
+    setError("");
+    setMessage("");
+
+    const res = await takeSnapshot("manual");
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+    setMessage("スナップショットを保存しました。");
+    reload();
+  }
+
+  async function select(meta: SnapshotMeta) {
+    if (preview?.meta.id === meta.id) {
+      setPreview(null);
+      return;
+    }
+
+    setError("");
+    setMessage("");
+    setConfirmAll(false);
+
+    const res = await readSnapshotEnvelope(meta);
+    if (!res.ok) {
+      setPreview(null);
+      setError(res.error);
+      return;
+    }
+    setPreview({ meta, envelope: res.envelope, diffs: diffSnapshot(res.envelope) });
+  }
+
+  async function run(task: () => Promise<RollbackResult>) {
+    if (!preview) return;
+
+    setBusy(true);
+    setError("");
+    setMessage("");
+
+    const res = await task();
+    setBusy(false);
+    setConfirmAll(false);
+
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+
+    setMessage(
+      res.failedDays.length
+        ? `${res.savedDays}日を戻しました。戻せなかった日：${res.failedDays.join(", ")}`
+        : `${res.savedDays}日を戻しました。`,
+    );
+    setPreview({ ...preview, diffs: diffSnapshot(preview.envelope) });
+    requestDaysRefresh({ force: true });
+    reload();
+  }
+
+  const changed = preview ? preview.diffs.filter((d) => d.status !== "same") : [];
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+      <header className="mb-6">
+        <p className="text-xs text-zinc-500">
+          <Link href="/settings" className="hover:underline">
+            設定
+          </Link>{" "}
+          / スナップショット
+        </p>
+        <h1 className="mt-1 text-2xl font-semibold tracking-tight">スナップショット</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          全日とタグ辞書を自動で保存しています（直近{KEEP_DAILY}日分・{KEEP_WEEKLY}週分）。選んだ時点との差分を確認して戻せます。
+        </p>
+      </header>
+
+      <div className="space-y-4">
+        <section className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <p className="text-xs text-zinc-400">戻す前に、その時点の状態も「復元前」として保存されます。</p>
+          <button
+            type="button"
+            onClick={() => void takeNow()}
+            disabled={busy}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900 disabled:opacity-60"
+          >
+            今すぐ保存
+          </button>
+        </section>
+
+        {error ? <p className="text-xs text-red-300">{error}</p> : null}
+        {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+
+        <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <h2 className="text-sm font-semibold text-zinc-200">保存済み（{metas?.length ?? 0}件）</h2>
+
+          {metas === null ? (
+            <p className="mt-4 text-xs text-zinc-500">読み込み中…</p>
+          ) : metas.length === 0 ? (
+            <div className="mt-4 rounded-xl border border-dashed border-zinc-800 p-6 text-center text-sm text-zinc-400">
+              {isSnapshotStoreAvailable()
+                ? "まだスナップショットはありません。"
+                : "このブラウザでは IndexedDB が使えないため、スナップショットを保存できません。"}
+            </div>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {metas.map((m) => (
+                <li key={m.id}>
+                  <button
+                    type="button"
+                    onClick={() => void select(m)}
+                    className={`flex w-full items-center justify-between gap-3 rounded-xl border px-3 py-2 text-left text-sm hover:bg-zinc-900 ${
+                      preview?.meta.id === m.id
+                        ? "border-zinc-600 bg-zinc-900 text-zinc-100"
+                        : "border-zinc-800 bg-zinc-950/40 text-zinc-200"
+                    }`}
+                  >
+                    <span>
+                      {formatTakenAt(m.takenAt)}
+                      <span className="ml-2 text-xs text-zinc-500">{reasonLabel(m.reason)}</span>
+                    </span>
+                    <span className="text-xs text-zinc-400">
+                      {m.dayCount}日 / {m.itemCount}件
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {preview ? (
+          <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+            <header className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <h2 className="text-sm font-semibold text-zinc-200">{formatTakenAt(preview.meta.takenAt)} との差分</h2>
+                <p className="mt-1 text-xs text-zinc-500">
+                  戻すと変わる日：{changed.length}日（件数は戻したときの増減）
+                </p>
+              </div>
+
+              {changed.length === 0 ? null : confirmAll ? (
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void run(() => rollbackAll(preview.envelope, window.localStorage))}
+                    disabled={busy}
+                    className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+                  >
+                    {busy ? "戻しています…" : "本当に戻す"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmAll(false)}
+                    className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+                  >
+                    やめる
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmAll(true)}
+                  className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+                >
+                  この時点に全体を戻す
+                </button>
+              )}
+            </header>
+
+            {changed.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-zinc-800 p-6 text-center text-sm text-zinc-400">
+                今のデータと同じです。
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {changed.map((d) => (
+                  <li
+                    key={d.ymd}
+                    className="flex items-center justify-between gap-3 rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-zinc-100">{d.ymd}</p>
+                      <p className="mt-1 text-xs text-zinc-500">{diffSummary(d)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => void run(() => rollbackDay(preview.envelope, d.ymd))}
+                      disabled={busy}
+                      className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900 disabled:opacity-60"
+                    >
+                      この日だけ戻す
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+/* app/settings/snapshots/SnapshotsClientOnly.tsx */
+"use client";
+
+import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
+
+const SnapshotsClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./SnapshotsClient");
+  },
+  { ssr: false },
+);
+
+export default function SnapshotsClientOnly() {
+  return (
+    <UnlockGate>
+      <SnapshotsClient />
+    </UnlockGate>
+  );
+}
@@ -0,0 +1,9 @@
+/* app/settings/snapshots/page.tsx */
+import SnapshotsClientOnly from "./SnapshotsClientOnly";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function SnapshotsPage() {
+  return <SnapshotsClientOnly />;
+}
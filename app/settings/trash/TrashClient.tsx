@@ -0,0 +1,190 @@
+/* app/settings/trash/TrashClient.tsx */
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { formatDateTime } from "@/lib/date";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { subscribePrefChanges } from "@/lib/prefs/notify";
+import {
+  TRASH_RETENTION_CHOICES,
+  loadTrash,
+  loadTrashRetentionDays,
+  purgeAllTrash,
+  purgeExpiredTrash,
+  purgeTrashEntry,
+  restoreFromTrash,
+  saveTrashRetentionDays,
+  TRASH_RETENTION_KEY,
+  type TrashEntry,
+} from "@/lib/trash";
+
+function retentionLabel(days: number): string {
+  return days === 0 ? "自動で消さない" : `${days}日後に自動で消す`;
+}
+
+function formatDeletedAt(iso: string): string {
+  return formatDateTime(new Date(iso), {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function loadInitial(): TrashEntry[] {
+  // 開いた時点で期限切れを掃除してから表示
+  purgeExpiredTrash(window.localStorage);
+  return loadTrash(window.localStorage);
+}
+
+export default function TrashClient() {
+  const [entries, setEntries] = useState<TrashEntry[]>(loadInitial);
+  const [retention, setRetention] = useState<number>(() => loadTrashRetentionDays(window.localStorage));
+  const [confirmAll, setConfirmAll] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  function reload() {
+    setEntries(loadTrash(window.localStorage));
+  }
+
+  // 他タブで保持日数を変えたら表示も合わせる
+  useEffect(() => {
+    return subscribePrefChanges(TRASH_RETENTION_KEY, () => {
+      setRetention(loadTrashRetentionDays(window.localStorage));
+    });
+  }, []);
+
+  function restore(trashId: string) {
+    setError("");
+    const res = restoreFromTrash(window.localStorage, trashId);
+    if (!res.ok && res.reason !== "not-found") {
+      setError(`元の日に戻せませんでした（${res.reason}）。`);
+    }
+    reload();
+    requestDaysRefresh({ force: true });
+  }
+
+  function purge(trashId: string) {
+    purgeTrashEntry(window.localStorage, trashId);
+    reload();
+  }
+
+  function purgeAll() {
+    purgeAllTrash(window.localStorage);
+    setConfirmAll(false);
+    reload();
+  }
+
+  function changeRetention(days: number) {
+    saveTrashRetentionDays(window.localStorage, days);
+    setRetention(days);
+    purgeExpiredTrash(window.localStorage);
+    reload();
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+      <header className="mb-6">
+        <p className="text-xs text-zinc-500">
+          <Link href="/settings" className="hover:underline">
+            設定
+          </Link>{" "}
+          / ゴミ箱
+        </p>
+        <h1 className="mt-1 text-2xl font-semibold tracking-tight">ゴミ箱</h1>
+        <p className="mt-1 text-sm text-zinc-400">削除した項目を元の日に戻したり、完全に削除できます。</p>
+      </header>
+
+      <div className="space-y-4">
+        <section className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <label className="flex items-center gap-2 text-xs text-zinc-300">
+            保持期間
+            <select
+              value={retention}
+              onChange={(e) => changeRetention(Number(e.target.value))}
+              className="rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1.5 text-xs text-zinc-100"
+            >
+              {TRASH_RETENTION_CHOICES.map((d) => (
+                <option key={d} value={d}>
+                  {retentionLabel(d)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {entries.length === 0 ? null : confirmAll ? (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={purgeAll}
+                className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+              >
+                本当に空にする
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirmAll(false)}
+                className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+              >
+                やめる
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setConfirmAll(true)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              ゴミ箱を空にする
+            </button>
+          )}
+        </section>
+
+        {error ? <p className="text-xs text-red-300">{error}</p> : null}
+
+        <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+          <h2 className="text-sm font-semibold text-zinc-200">削除した項目（{entries.length}件）</h2>
+
+          {entries.length === 0 ? (
+            <div className="mt-4 rounded-xl border border-dashed border-zinc-800 p-6 text-center text-sm text-zinc-400">
+              ゴミ箱は空です。
+            </div>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {entries.map((e) => (
+                <li key={e.trashId} className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2">
+                  <div className="flex items-start gap-3">
+                    <div className="min-w-0 flex-1">
+                      <p className="whitespace-pre-wrap break-words text-zinc-100">{e.item.text}</p>
+                      <p className="mt-1 text-xs text-zinc-500">
+                        {e.ymd} の項目 / 削除：{formatDeletedAt(e.deletedAt)}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                      <button
+                        type="button"
+                        onClick={() => restore(e.trashId)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        元の日に戻す
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => purge(e.trashId)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        完全に削除
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
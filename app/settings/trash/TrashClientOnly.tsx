@@ -0,0 +1,22 @@
+/* app/settings/trash/TrashClientOnly.tsx */
+"use client";
+
+import dynamic from "next/dynamic";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
+
+const TrashClient = dynamic(
+  async () => {
+    await prepareClient();
+    return import("./TrashClient");
+  },
+  { ssr: false },
+);
+
+export default function TrashClientOnly() {
+  return (
+    <UnlockGate>
+      <TrashClient />
+    </UnlockGate>
+  );
+}
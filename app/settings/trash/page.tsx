@@ -0,0 +1,9 @@
+/* app/settings/trash/page.tsx */
+import TrashClientOnly from "./TrashClientOnly";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function TrashPage() {
+  return <TrashClientOnly />;
+}
@@ -3,6 +3,8 @@
 
 import dynamic from "next/dynamic";
 import type { ComponentType } from "react";
+import { prepareClient } from "@/lib/client-bootstrap";
+import UnlockGate from "@/components/UnlockGate";
 
 type Props = Record<string, never>;
 
@@ -13,6 +15,7 @@ type TodayModule = {
 
 const TodayClient = dynamic<Props>(
   async () => {
+    await prepareClient();
     const mod = (await import("./TodayClient")) as unknown as TodayModule;
     const Comp = mod.default ?? mod.TodayClient;
 
@@ -40,5 +43,9 @@ const TodayClient = dynamic<Props>(
 );
 
 export default function TodayClientOnly() {
-  return <TodayClient />;
+  return (
+    <UnlockGate>
+      <TodayClient />
+    </UnlockGate>
+  );
 }
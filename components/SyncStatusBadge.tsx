@@ -0,0 +1,45 @@
+/* components/SyncStatusBadge.tsx */
+"use client";
+
+import Link from "next/link";
+import { useSyncExternalStore } from "react";
+import { SYNC_STATUS_OFF, getSyncStatus, subscribeSyncStatus, type SyncStatus } from "@/lib/sync/engine";
+
+function badgeLabel(status: SyncStatus): string {
+  switch (status.phase) {
+    case "syncing":
+      return "同期中…";
+    case "offline":
+      return status.pending ? `オフライン（${status.pending}件待ち）` : "オフライン";
+    case "error":
+      return "同期エラー";
+    case "unavailable":
+      return "同期停止中";
+    default:
+      return status.pending ? `同期待ち ${status.pending}件` : "同期済み";
+  }
+}
+
+function badgeTone(status: SyncStatus): string {
+  if (status.phase === "error" || status.phase === "unavailable") return "border-red-900/60 text-red-300";
+  if (status.phase === "offline") return "border-amber-900/60 text-amber-300";
+  return "border-zinc-800 text-zinc-400";
+}
+
+/**
+ * 同期を有効にしているときだけ表示（クリックで設定へ）
+ */
+export default function SyncStatusBadge() {
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus, () => SYNC_STATUS_OFF);
+  if (status.phase === "off") return null;
+
+  return (
+    <Link
+      href="/settings"
+      title={status.message || undefined}
+      className={`rounded-full border px-2 py-0.5 text-[11px] hover:bg-zinc-900 ${badgeTone(status)}`}
+    >
+      {badgeLabel(status)}
+    </Link>
+  );
+}
@@ -0,0 +1,75 @@
+/* components/UnlockGate.tsx */
+"use client";
+
+import { useState, useSyncExternalStore, type FormEvent, type ReactNode } from "react";
+import { prepareClient } from "@/lib/client-bootstrap";
+import { encryptionFailureMessage, unlockDiary } from "@/lib/encryption/session";
+import { isDayBackendLocked, subscribeDayBackendLock } from "@/lib/storage";
+
+type UnlockGateProps = {
+  children: ReactNode;
+};
+
+function UnlockScreen() {
+  const [passphrase, setPassphrase] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  async function submit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!passphrase || busy) return;
+
+    setBusy(true);
+    setError("");
+
+    const res = await unlockDiary(passphrase);
+    if (!res.ok) {
+      setBusy(false);
+      setError(encryptionFailureMessage(res.reason));
+      return;
+    }
+
+    // 解錠後に改めて準備（schema の upgrade など。ロック中は何もしていない）
+    void prepareClient();
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-md p-4 md:p-6">
+      <form onSubmit={submit} className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+        <h1 className="text-lg font-semibold tracking-tight">日記はロックされています</h1>
+        <p className="text-xs text-zinc-400">パスフレーズを入力すると、このタブの中だけで復号して表示します。</p>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          placeholder="パスフレーズ"
+          className="w-full rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600"
+        />
+
+        {error ? <p className="text-xs text-red-300">{error}</p> : null}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={!passphrase || busy}
+            className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+          >
+            {busy ? "復号しています…" : "開く"}
+          </button>
+        </div>
+      </form>
+    </main>
+  );
+}
+
+/**
+ * 暗号化モードで未解錠の間は、子（loadDay / useDaysData を使う画面）を描画しない
+ */
+export default function UnlockGate(props: UnlockGateProps) {
+  const locked = useSyncExternalStore(subscribeDayBackendLock, isDayBackendLocked, () => false);
+  if (locked) return <UnlockScreen />;
+  return <>{props.children}</>;
+}
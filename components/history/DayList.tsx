@@ -0,0 +1,259 @@
+/* components/history/DayList.tsx */
+"use client";
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import type { DayEntry } from "@/lib/storage";
+
+type DayListProps = {
+  entries: DayEntry[]; // ymd の新しい順
+  selectedYmd: string | null;
+  onSelect: (ymd: string) => void;
+};
+
+type Row =
+  | { kind: "month"; month: string; count: number; top: number }
+  | { kind: "day"; entry: DayEntry; top: number };
+
+// 行の高さは固定（位置を計算だけで決めて、見えている行だけ描画する）
+const MONTH_ROW_HEIGHT = 32;
+const DAY_ROW_HEIGHT = 48; // ボタン 40px + 間隔 8px
+const MAX_VIEWPORT_HEIGHT = 480;
+const OVERSCAN_PX = 240;
+
+function monthOf(ymd: string): string {
+  return ymd.slice(0, 7);
+}
+
+function monthLabel(month: string): string {
+  const [y, m] = month.split("-");
+  return `${y}年${Number(m)}月`;
+}
+
+function buildRows(entries: DayEntry[]): { rows: Row[]; dayRowIndex: Map<string, number>; totalHeight: number } {
+  const rows: Row[] = [];
+  const dayRowIndex = new Map<string, number>();
+  let top = 0;
+  let monthRow: Extract<Row, { kind: "month" }> | null = null;
+
+  for (const entry of entries) {
+    const month = monthOf(entry.ymd);
+    if (!monthRow || monthRow.month !== month) {
+      monthRow = { kind: "month", month, count: 0, top };
+      rows.push(monthRow);
+      top += MONTH_ROW_HEIGHT;
+    }
+    monthRow.count += 1;
+
+    dayRowIndex.set(entry.ymd, rows.length);
+    rows.push({ kind: "day", entry, top });
+    top += DAY_ROW_HEIGHT;
+  }
+
+  return { rows, dayRowIndex, totalHeight: top };
+}
+
+/**
+ * top が y 以下の最後の行（rows は top の昇順）
+ */
+function rowIndexAt(rows: Row[], y: number): number {
+  let lo = 0;
+  let hi = rows.length - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const row = rows[mid];
+    if (row && row.top <= y) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * History の日付一覧（月ごとの見出し付き・見えている行だけ描画）
+ * - 先頭の月見出しはスクロールしても上に残す（今いる月を重ねて表示）
+ * - 一覧にフォーカスがある間は ↑↓ / PageUp / PageDown / Home / End で選択日を動かす
+ */
+export default function DayList(props: DayListProps) {
+  const { entries, selectedYmd, onSelect } = props;
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const { rows, dayRowIndex, totalHeight } = useMemo(() => buildRows(entries), [entries]);
+  const viewportHeight = Math.min(totalHeight, MAX_VIEWPORT_HEIGHT);
+
+  const months = useMemo(
+    () => rows.filter((r): r is Extract<Row, { kind: "month" }> => r.kind === "month"),
+    [rows],
+  );
+
+  const visibleRows = useMemo(() => {
+    if (rows.length === 0) return [];
+    const start = rowIndexAt(rows, Math.max(0, scrollTop - OVERSCAN_PX));
+    const end = rowIndexAt(rows, scrollTop + viewportHeight + OVERSCAN_PX);
+    return rows.slice(start, end + 1);
+  }, [rows, scrollTop, viewportHeight]);
+
+  // 今いる月（見出しの重ね表示と「月へ移動」の選択値）
+  const currentMonth = useMemo(() => {
+    const row = rows[rowIndexAt(rows, scrollTop)];
+    if (!row) return null;
+    return row.kind === "month" ? row.month : monthOf(row.entry.ymd);
+  }, [rows, scrollTop]);
+
+  const currentMonthCount = months.find((m) => m.month === currentMonth)?.count ?? 0;
+
+  const selectedTop = useMemo(() => {
+    if (!selectedYmd) return null;
+    const i = dayRowIndex.get(selectedYmd);
+    if (i === undefined) return null;
+    return rows[i]?.top ?? null;
+  }, [rows, dayRowIndex, selectedYmd]);
+
+  // 選択日が見えていなければ見える位置までスクロール（URL の ?d= から開いたときも）
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || selectedTop === null) return;
+
+    const viewTop = el.scrollTop + MONTH_ROW_HEIGHT; // 重ねた月見出しの下から
+    const viewBottom = el.scrollTop + el.clientHeight;
+    if (selectedTop < viewTop) el.scrollTop = Math.max(0, selectedTop - MONTH_ROW_HEIGHT);
+    else if (selectedTop + DAY_ROW_HEIGHT > viewBottom) el.scrollTop = selectedTop + DAY_ROW_HEIGHT - el.clientHeight;
+  }, [selectedTop]);
+
+  function jumpToMonth(month: string) {
+    const el = scrollRef.current;
+    const row = months.find((m) => m.month === month);
+    if (!el || !row) return;
+    el.scrollTop = row.top;
+
+    // 月の先頭の日を選ぶ（キーボード操作をそこから続けられるように）
+    const first = rows[rowIndexAt(rows, row.top + MONTH_ROW_HEIGHT)];
+    if (first?.kind === "day") onSelect(first.entry.ymd);
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    if (entries.length === 0) return;
+
+    const current = selectedYmd ? entries.findIndex((x) => x.ymd === selectedYmd) : -1;
+    const page = Math.max(1, Math.floor(viewportHeight / DAY_ROW_HEIGHT) - 1);
+
+    let next: number;
+    switch (e.key) {
+      case "ArrowDown":
+        next = current + 1;
+        break;
+      case "ArrowUp":
+        next = current - 1;
+        break;
+      case "PageDown":
+        next = current + page;
+        break;
+      case "PageUp":
+        next = current - page;
+        break;
+      case "Home":
+        next = 0;
+        break;
+      case "End":
+        next = entries.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    const entry = entries[Math.min(entries.length - 1, Math.max(0, next))];
+    if (entry && entry.ymd !== selectedYmd) onSelect(entry.ymd);
+  }
+
+  return (
+    <div className="mt-4">
+      {months.length > 1 ? (
+        <div className="mb-2 flex items-center gap-2">
+          <span className="text-xs text-zinc-500">月へ移動</span>
+          <select
+            value={currentMonth ?? ""}
+            onChange={(e) => jumpToMonth(e.target.value)}
+            className="rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs text-zinc-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400"
+          >
+            {months.map((m) => (
+              <option key={m.month} value={m.month}>
+                {monthLabel(m.month)}（{m.count}日）
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-zinc-500">↑↓ で日付を移動</span>
+        </div>
+      ) : null}
+
+      <div className="relative">
+        {currentMonth ? (
+          <div
+            className="pointer-events-none absolute left-0 right-0 top-0 z-10 flex items-center justify-between bg-zinc-900 px-1 text-xs font-semibold text-zinc-300"
+            style={{ height: MONTH_ROW_HEIGHT }}
+          >
+            <span>{monthLabel(currentMonth)}</span>
+            <span className="font-normal text-zinc-500">{currentMonthCount}日</span>
+          </div>
+        ) : null}
+
+        <div
+          ref={scrollRef}
+          tabIndex={0}
+          aria-label="日付一覧（↑↓で移動）"
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          onKeyDown={onKeyDown}
+          className="overflow-y-auto rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400"
+          style={{ height: viewportHeight }}
+        >
+          <div className="relative" style={{ height: totalHeight }}>
+            {visibleRows.map((row) => {
+              if (row.kind === "month") {
+                return (
+                  <div
+                    key={`m:${row.month}`}
+                    className="absolute left-0 right-0 flex items-center justify-between px-1 text-xs font-semibold text-zinc-300"
+                    style={{ top: row.top, height: MONTH_ROW_HEIGHT }}
+                  >
+                    <span>{monthLabel(row.month)}</span>
+                    <span className="font-normal text-zinc-500">{row.count}日</span>
+                  </div>
+                );
+              }
+
+              const e = row.entry;
+              const active = e.ymd === selectedYmd;
+              return (
+                <div key={e.ymd} className="absolute left-0 right-0" style={{ top: row.top, height: DAY_ROW_HEIGHT }}>
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    aria-current={active ? "date" : undefined}
+                    onClick={() => onSelect(e.ymd)}
+                    className={
+                      "flex h-10 w-full items-center justify-between gap-2 rounded-xl border px-3 text-left transition " +
+                      (active
+                        ? "border-zinc-600 bg-zinc-950/60"
+                        : "border-zinc-800 bg-zinc-950/40 hover:bg-zinc-900")
+                    }
+                  >
+                    <span className="font-medium text-zinc-100">{e.ymd}</span>
+                    <span className="text-xs text-zinc-400">
+                      {e.day.pinnedId ? <span className="mr-1 text-amber-300" aria-label="ベストあり">★</span> : null}
+                      {e.day.items.length}件
+                    </span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
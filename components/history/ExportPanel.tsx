@@ -0,0 +1,175 @@
+/* components/history/ExportPanel.tsx */
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TagAliases } from "@/lib/diary";
+import { downloadBlob, downloadText } from "@/lib/download";
+import { buildItemsCsv, itemsCsvFileName, type CsvTagStyle } from "@/lib/export/csv";
+import { buildMarkdownFiles, markdownZipFileName } from "@/lib/export/markdown";
+import { buildZip } from "@/lib/export/zip";
+import type { AchieveItem, DayEntry } from "@/lib/storage";
+
+type ExportFormat = "markdown" | "csv";
+
+type ExportPanelProps = {
+  entries: DayEntry[]; // 全日
+  searchEntries: DayEntry[] | null; // History の検索結果（検索していなければ null）
+  itemFilter: ((item: AchieveItem, ymd: string) => boolean) | null; // 検索条件に合う項目
+  aliases: TagAliases;
+  onClose: () => void;
+};
+
+// 個別ダウンロードはブラウザにまとめてブロックされやすいので少し間を空ける
+const SEPARATE_DOWNLOAD_GAP_MS = 250;
+
+const dateInputClass =
+  "rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1.5 text-xs text-zinc-100 outline-none focus:border-zinc-600";
+
+function inRange(ymd: string, from: string, to: string): boolean {
+  if (from && ymd < from) return false;
+  if (to && ymd > to) return false;
+  return true;
+}
+
+function tabClass(active: boolean): string {
+  return "rounded-lg px-3 py-1.5 text-xs transition " + (active ? "bg-zinc-200 text-zinc-900" : "text-zinc-200 hover:bg-zinc-900");
+}
+
+export default function ExportPanel(props: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+  const [onlySearch, setOnlySearch] = useState<boolean>(true);
+  const [tagStyle, setTagStyle] = useState<CsvTagStyle>("canonical");
+  const [message, setMessage] = useState<string>("");
+
+  const searching = props.searchEntries !== null;
+  const limited = searching && onlySearch;
+
+  const targets = useMemo(() => {
+    const base = limited && props.searchEntries ? props.searchEntries : props.entries;
+    return base.filter((e) => inRange(e.ymd, from, to));
+  }, [limited, props.searchEntries, props.entries, from, to]);
+
+  function exportZip() {
+    const files = buildMarkdownFiles(targets, props.aliases);
+    downloadBlob(markdownZipFileName(), buildZip(files));
+    setMessage(`${files.length}日分を zip で書き出しました。`);
+  }
+
+  function exportSeparate() {
+    const files = buildMarkdownFiles(targets, props.aliases);
+    files.forEach((f, i) => {
+      window.setTimeout(() => downloadText(f.name, f.content, "text/markdown"), i * SEPARATE_DOWNLOAD_GAP_MS);
+    });
+    setMessage(`${files.length}日分の .md を書き出しました。`);
+  }
+
+  function exportCsv() {
+    const { csv, rows } = buildItemsCsv(targets, {
+      aliases: props.aliases,
+      tagStyle,
+      itemFilter: limited ? props.itemFilter : null,
+    });
+    downloadText(itemsCsvFileName(), csv, "text/csv");
+    setMessage(`${rows}件を CSV で書き出しました。`);
+  }
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-200">書き出し</h2>
+          <p className="mt-1 text-xs text-zinc-500">
+            {format === "markdown"
+              ? "1日1ファイルの Markdown（Obsidian の daily notes 形式）で書き出します。"
+              : "1行1項目の CSV（Excel でそのまま開ける形式）で書き出します。"}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={props.onClose}
+          className="rounded-lg px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-900 hover:text-zinc-200"
+        >
+          閉じる
+        </button>
+      </header>
+
+      <div className="inline-flex rounded-xl border border-zinc-800 bg-zinc-950/40 p-1">
+        <button type="button" onClick={() => setFormat("markdown")} className={tabClass(format === "markdown")}>
+          Markdown
+        </button>
+        <button type="button" onClick={() => setFormat("csv")} className={tabClass(format === "csv")}>
+          CSV
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-300">
+        <label className="flex items-center gap-2">
+          期間
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={dateInputClass} />
+        </label>
+        <span>〜</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={dateInputClass} />
+        <span className="text-zinc-500">対象：{targets.length}日</span>
+      </div>
+
+      {searching ? (
+        <label className="flex items-center gap-2 text-xs text-zinc-300">
+          <input type="checkbox" checked={onlySearch} onChange={(e) => setOnlySearch(e.target.checked)} />
+          {format === "markdown" ? "検索結果の日だけ" : "検索条件に合う項目だけ"}
+        </label>
+      ) : null}
+
+      {format === "csv" ? (
+        <label className="flex items-center gap-2 text-xs text-zinc-300">
+          タグ
+          <select
+            value={tagStyle}
+            onChange={(e) => setTagStyle(e.target.value === "raw" ? "raw" : "canonical")}
+            className="rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1.5 text-xs text-zinc-100"
+          >
+            <option value="canonical">表記ゆれ辞書で統一</option>
+            <option value="raw">書いたまま</option>
+          </select>
+        </label>
+      ) : (
+        <p className="text-xs text-zinc-500">※タグは表記ゆれ辞書の正規形に書き換え、frontmatter の tags にも入れます。</p>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {format === "markdown" ? (
+          <>
+            <button
+              type="button"
+              onClick={exportSeparate}
+              disabled={targets.length === 0}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900 disabled:opacity-60"
+            >
+              .md を個別に
+            </button>
+            <button
+              type="button"
+              onClick={exportZip}
+              disabled={targets.length === 0}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              zip でまとめて
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={targets.length === 0}
+            className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+          >
+            CSV を書き出す
+          </button>
+        )}
+      </div>
+
+      {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+    </section>
+  );
+}
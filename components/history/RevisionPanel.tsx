@@ -0,0 +1,139 @@
+/* components/history/RevisionPanel.tsx */
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatDateTime } from "@/lib/date";
+import { loadRevisions, restoreRevision, type Revision, type RevisionTarget } from "@/lib/revisions";
+import { diffText } from "@/lib/text-diff";
+
+type RevisionPanelProps = {
+  ymd: string;
+  target: RevisionTarget;
+  currentText: string;
+  onClose: () => void;
+  onRestored: () => void;
+};
+
+function formatAt(iso: string): string {
+  return formatDateTime(new Date(iso), {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export default function RevisionPanel(props: RevisionPanelProps) {
+  const { ymd, target, currentText, onClose, onRestored } = props;
+
+  // 新しい版が上
+  const [revisions] = useState<Revision[]>(() => loadRevisions(window.localStorage, ymd, target).slice().reverse());
+  const [selectedIndex, setSelectedIndex] = useState<number>(() => (revisions.length > 1 ? 1 : 0));
+  const [error, setError] = useState<string>("");
+
+  const selected = revisions[selectedIndex] ?? null;
+
+  const parts = useMemo(() => {
+    if (!selected) return [];
+    return diffText(selected.text, currentText);
+  }, [selected, currentText]);
+
+  function restore() {
+    if (!selected) return;
+
+    const res = restoreRevision(window.localStorage, ymd, target, selected.text);
+    if (!res.ok) {
+      setError(res.reason === "not-found" ? "項目が見つかりません（削除済み）。" : `戻せませんでした（${res.reason}）。`);
+      return;
+    }
+    onRestored();
+  }
+
+  return (
+    <div className="rounded-xl border border-zinc-700 bg-zinc-950/80 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-semibold text-zinc-200">
+          {target.kind === "memo" ? "ひとことの履歴" : "項目の履歴"}（{revisions.length}版）
+        </h4>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-lg px-2 py-1 text-xs text-zinc-400 hover:text-zinc-200"
+          aria-label="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="mt-2 text-xs text-zinc-400">まだ編集履歴はありません。</p>
+      ) : (
+        <>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {revisions.map((r, i) => {
+              const active = i === selectedIndex;
+              const isCurrent = r.text === currentText;
+              return (
+                <li key={`${r.at}:${i}`}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(i)}
+                    className={
+                      "flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-xs transition " +
+                      (active ? "bg-zinc-800 text-zinc-100" : "text-zinc-300 hover:bg-zinc-900")
+                    }
+                  >
+                    <span>{formatAt(r.at)}</span>
+                    <span className="truncate text-zinc-500">{isCurrent ? "現在" : `${r.text.length}文字`}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {selected ? (
+            <div className="mt-3 space-y-2">
+              <p className="text-[11px] text-zinc-500">
+                選んだ版 → 現在 の差分（<span className="text-red-300">赤</span>=消えた /{" "}
+                <span className="text-emerald-300">緑</span>=増えた）
+              </p>
+              <p className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded-lg border border-zinc-800 bg-zinc-950 px-3 py-2 text-sm text-zinc-200">
+                {parts.length === 0 ? (
+                  <span className="text-zinc-500">（空）</span>
+                ) : (
+                  parts.map((p, i) =>
+                    p.op === "equal" ? (
+                      <span key={i}>{p.text}</span>
+                    ) : p.op === "delete" ? (
+                      <del key={i} className="bg-red-950/60 text-red-300">
+                        {p.text}
+                      </del>
+                    ) : (
+                      <ins key={i} className="bg-emerald-950/60 text-emerald-300 no-underline">
+                        {p.text}
+                      </ins>
+                    ),
+                  )
+                )}
+              </p>
+
+              {error ? <p className="text-xs text-red-300">{error}</p> : null}
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={restore}
+                  disabled={selected.text === currentText || (target.kind === "item" && !selected.text.trim())}
+                  className="rounded-lg bg-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+                >
+                  この版に戻す
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
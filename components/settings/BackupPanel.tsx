@@ -0,0 +1,373 @@
+/* components/settings/BackupPanel.tsx */
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  applyImportPlan,
+  backupFileName,
+  buildBackupEnvelope,
+  buildImportPlan,
+  encryptBackupEnvelope,
+  isEncryptedBackup,
+  parseBackup,
+  parseEncryptedBackup,
+  type ParseBackupResult,
+  type ImportDayPlan,
+  type ImportPlan,
+} from "@/lib/backup";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { downloadText } from "@/lib/download";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/encryption/session";
+
+// 暗号化バックアップ：パスフレーズ入力待ち
+type PendingEncrypted = {
+  fileName: string;
+  raw: string;
+};
+
+type Loaded = {
+  fileName: string;
+  plan: ImportPlan;
+  droppedDays: number;
+  droppedItems: number;
+};
+
+function statusLabel(p: ImportDayPlan): string {
+  switch (p.status) {
+    case "new":
+      return "新規";
+    case "conflict":
+      return "重複あり";
+    case "same":
+      return "変更なし";
+  }
+}
+
+function describeDay(p: ImportDayPlan): string {
+  if (p.status === "new") return `${p.addedItems.length}件を追加`;
+
+  const parts: string[] = [];
+  if (p.addedItems.length) parts.push(`${p.addedItems.length}件を追加`);
+  if (p.mergedItems.length) parts.push(`${p.mergedItems.length}件は同じidでマージ`);
+  if (p.textConflicts) parts.push(`本文違い${p.textConflicts}件（現在を維持）`);
+  if (p.moodConflict) parts.push("気分が異なる（現在を維持）");
+  if (p.memoConflict) parts.push("ひとことが異なる（現在を維持）");
+  return parts.length ? parts.join(" / ") : "同じ内容";
+}
+
+export default function BackupPanel() {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [error, setError] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [showSame, setShowSame] = useState<boolean>(false);
+
+  const [encryptExport, setEncryptExport] = useState<boolean>(false);
+  const [exportPassphrase, setExportPassphrase] = useState<string>("");
+  const [exportPassphraseAgain, setExportPassphraseAgain] = useState<string>("");
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  const [pendingEncrypted, setPendingEncrypted] = useState<PendingEncrypted | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState<string>("");
+  const [decrypting, setDecrypting] = useState<boolean>(false);
+
+  const summary = useMemo(() => {
+    if (!loaded) return null;
+    let added = 0;
+    let newDays = 0;
+    let conflictDays = 0;
+    let sameDays = 0;
+    for (const p of loaded.plan.days) {
+      added += p.addedItems.length;
+      if (p.status === "new") newDays += 1;
+      else if (p.status === "conflict") conflictDays += 1;
+      else sameDays += 1;
+    }
+    return { added, newDays, conflictDays, sameDays };
+  }, [loaded]);
+
+  const visibleDays = useMemo(() => {
+    if (!loaded) return [];
+    return showSame ? loaded.plan.days : loaded.plan.days.filter((p) => p.status !== "same");
+  }, [loaded, showSame]);
+
+  const exportPassphraseError =
+    !encryptExport
+      ? ""
+      : exportPassphrase.length < MIN_PASSPHRASE_LENGTH
+        ? `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください。`
+        : exportPassphrase !== exportPassphraseAgain
+          ? "確認用のパスフレーズが一致しません。"
+          : "";
+
+  async function exportNow() {
+    setError("");
+    setMessage("");
+
+    const envelope = buildBackupEnvelope(window.localStorage);
+    if (!encryptExport) {
+      downloadText(backupFileName(), JSON.stringify(envelope, null, 2), "application/json");
+      setMessage(`${envelope.days.length}日分を書き出しました。`);
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const bundle = await encryptBackupEnvelope(envelope, exportPassphrase);
+      downloadText(backupFileName(), JSON.stringify(bundle), "application/json");
+      setMessage(`${envelope.days.length}日分を暗号化して書き出しました（取り込みには同じパスフレーズが必要です）。`);
+      setExportPassphrase("");
+      setExportPassphraseAgain("");
+    } catch {
+      setError("暗号化に失敗しました（このブラウザでは WebCrypto が使えない可能性があります）。");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function onPickFile(file: File | null) {
+    setError("");
+    setMessage("");
+    setLoaded(null);
+    setPendingEncrypted(null);
+    if (!file) return;
+
+    const raw = await file.text();
+    if (isEncryptedBackup(raw)) {
+      setImportPassphrase("");
+      setPendingEncrypted({ fileName: file.name, raw });
+      return;
+    }
+
+    showPlan(file.name, parseBackup(raw));
+  }
+
+  async function decryptPending() {
+    if (!pendingEncrypted) return;
+
+    setDecrypting(true);
+    setError("");
+    const parsed = await parseEncryptedBackup(pendingEncrypted.raw, importPassphrase);
+    setDecrypting(false);
+
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+
+    setPendingEncrypted(null);
+    setImportPassphrase("");
+    showPlan(pendingEncrypted.fileName, parsed);
+  }
+
+  function showPlan(fileName: string, parsed: ParseBackupResult) {
+    if (!parsed.ok) {
+      setError(parsed.error);
+      return;
+    }
+
+    setLoaded({
+      fileName,
+      plan: buildImportPlan(parsed.envelope, window.localStorage),
+      droppedDays: parsed.droppedDays,
+      droppedItems: parsed.droppedItems,
+    });
+  }
+
+  function applyNow() {
+    if (!loaded) return;
+
+    const { savedDays, failedDays } = applyImportPlan(loaded.plan, window.localStorage);
+    requestDaysRefresh({ force: true });
+
+    setLoaded(null);
+    setMessage(`${savedDays}日分を取り込みました。`);
+    if (failedDays.length) {
+      setError(`${failedDays.length}日分は保存できませんでした（容量不足の可能性）：${failedDays.join(", ")}`);
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">バックアップ（JSON）</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          全日データと表記ゆれ辞書・テンプレートを1ファイルに書き出します。取り込み前に差分を確認できます。
+        </p>
+      </header>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          <input
+            type="checkbox"
+            checked={encryptExport}
+            onChange={(e) => setEncryptExport(e.target.checked)}
+            className="h-4 w-4 accent-zinc-200"
+          />
+          パスフレーズで暗号化して書き出す
+        </label>
+
+        {encryptExport ? (
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+              autoComplete="new-password"
+              placeholder="パスフレーズ"
+              className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+            />
+            <input
+              type="password"
+              value={exportPassphraseAgain}
+              onChange={(e) => setExportPassphraseAgain(e.target.value)}
+              autoComplete="new-password"
+              placeholder="もう一度"
+              className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+            />
+          </div>
+        ) : null}
+        {encryptExport && exportPassphrase && exportPassphraseError ? (
+          <p className="text-xs text-zinc-500">{exportPassphraseError}</p>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => void exportNow()}
+          disabled={exporting || exportPassphraseError !== ""}
+          className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+        >
+          {exporting ? "暗号化しています…" : "書き出す"}
+        </button>
+
+        <label className="cursor-pointer rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900">
+          ファイルを選んで取り込む
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0] ?? null;
+              e.target.value = "";
+              void onPickFile(file);
+            }}
+          />
+        </label>
+      </div>
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+      {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+
+      {pendingEncrypted ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void decryptPending();
+          }}
+          className="space-y-2 rounded-xl border border-zinc-800 bg-zinc-950/40 p-3"
+        >
+          <p className="text-xs text-zinc-300">
+            <span className="font-semibold text-zinc-100">{pendingEncrypted.fileName}</span>{" "}
+            は暗号化されています。書き出したときのパスフレーズを入力してください。
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              autoComplete="off"
+              placeholder="パスフレーズ"
+              className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+            />
+            <button
+              type="button"
+              onClick={() => setPendingEncrypted(null)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              やめる
+            </button>
+            <button
+              type="submit"
+              disabled={!importPassphrase || decrypting}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              {decrypting ? "復号しています…" : "復号して確認"}
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {loaded && summary ? (
+        <div className="space-y-3 rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+          <div className="text-xs text-zinc-300">
+            <p className="font-semibold text-zinc-100">{loaded.fileName}</p>
+            <p className="mt-1">
+              新規 {summary.newDays}日 / 重複あり {summary.conflictDays}日 / 変更なし {summary.sameDays}日
+              （追加される項目 {summary.added}件）
+            </p>
+            <p className="mt-1">
+              辞書：追加 {loaded.plan.aliasesAdded}件
+              {loaded.plan.aliasesConflicts ? ` / 値違い ${loaded.plan.aliasesConflicts}件（現在を維持）` : ""}
+            </p>
+            <p className="mt-1">テンプレート：追加 {loaded.plan.templatesAdded.length}件</p>
+            {loaded.droppedDays || loaded.droppedItems ? (
+              <p className="mt-1 text-zinc-400">
+                形式が不正なため無視：{loaded.droppedDays}日 / {loaded.droppedItems}件
+              </p>
+            ) : null}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={showSame}
+              onChange={(e) => setShowSame(e.target.checked)}
+              className="h-4 w-4 accent-zinc-200"
+            />
+            変更なしの日も表示
+          </label>
+
+          {visibleDays.length === 0 ? (
+            <p className="text-xs text-zinc-500">取り込む変更はありません。</p>
+          ) : (
+            <ul className="max-h-80 space-y-1 overflow-y-auto">
+              {visibleDays.map((p) => (
+                <li
+                  key={p.ymd}
+                  className="flex items-baseline justify-between gap-3 rounded-lg border border-zinc-800 px-3 py-2 text-xs"
+                >
+                  <span className="shrink-0 font-medium text-zinc-100">{p.ymd}</span>
+                  <span className="min-w-0 flex-1 text-zinc-400">{describeDay(p)}</span>
+                  <span className="shrink-0 text-zinc-300">{statusLabel(p)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setLoaded(null)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              やめる
+            </button>
+            <button
+              type="button"
+              onClick={applyNow}
+              disabled={
+                summary.newDays + summary.conflictDays === 0 &&
+                loaded.plan.aliasesAdded === 0 &&
+                loaded.plan.templatesAdded.length === 0
+              }
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              取り込む
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
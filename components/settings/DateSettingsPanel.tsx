@@ -0,0 +1,136 @@
+/* components/settings/DateSettingsPanel.tsx */
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatTime, formatYmd } from "@/lib/date";
+import {
+  browserTimeZone,
+  getDateSettings,
+  isValidTimeZone,
+  MAX_DAY_START_HOUR,
+  saveDateSettings,
+  type DateSettings,
+} from "@/lib/prefs/date-settings";
+
+const HOURS = Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, i) => i);
+
+function supportedTimeZones(): string[] {
+  // 古いブラウザには supportedValuesOf が無い（候補なしで手入力）
+  try {
+    return typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function DateSettingsPanel() {
+  const [saved, setSaved] = useState<DateSettings>(() => getDateSettings());
+  const [timeZone, setTimeZone] = useState<string>(saved.timeZone);
+  const [dayStartHour, setDayStartHour] = useState<number>(saved.dayStartHour);
+  const [now] = useState<number>(() => Date.now());
+  const [message, setMessage] = useState<string>("");
+
+  const zones = useMemo(() => supportedTimeZones(), []);
+  const browserZone = useMemo(() => browserTimeZone(), []);
+
+  const valid = isValidTimeZone(timeZone.trim());
+  const draft: DateSettings = { timeZone: timeZone.trim(), dayStartHour };
+  const dirty = draft.timeZone !== saved.timeZone || draft.dayStartHour !== saved.dayStartHour;
+
+  function save() {
+    if (!valid) return;
+    saveDateSettings(window.localStorage, draft);
+    setSaved(draft);
+    setMessage("保存しました。");
+  }
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">日付</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          記録をどの日に入れるかの基準です。保存済みの記録の日付は変わりません。
+        </p>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-zinc-400" htmlFor="date-settings-tz">
+          タイムゾーン
+        </label>
+        <input
+          id="date-settings-tz"
+          list="date-settings-tz-list"
+          value={timeZone}
+          onChange={(e) => {
+            setTimeZone(e.target.value);
+            setMessage("");
+          }}
+          spellCheck={false}
+          className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        />
+        <datalist id="date-settings-tz-list">
+          {zones.map((z) => (
+            <option key={z} value={z} />
+          ))}
+        </datalist>
+        {browserZone && browserZone !== timeZone ? (
+          <button
+            type="button"
+            onClick={() => {
+              setTimeZone(browserZone);
+              setMessage("");
+            }}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            このブラウザのタイムゾーン（{browserZone}）
+          </button>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-zinc-400" htmlFor="date-settings-start">
+          1日の始まり
+        </label>
+        <select
+          id="date-settings-start"
+          value={dayStartHour}
+          onChange={(e) => {
+            setDayStartHour(Number(e.target.value));
+            setMessage("");
+          }}
+          className="rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        >
+          {HOURS.map((h) => (
+            <option key={h} value={h}>
+              {h}:00
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-zinc-500">
+          {dayStartHour > 0 ? `${dayStartHour - 1}:59 までの記録は前日に入ります` : "0:00 で日付が変わります"}
+        </span>
+      </div>
+
+      {valid ? (
+        <p className="text-xs text-zinc-400">
+          この設定だと、いま（{formatTime(new Date(now), draft)}）の記録は{" "}
+          <span className="font-semibold text-zinc-200">{formatYmd(new Date(now), draft)}</span> に入ります。
+        </p>
+      ) : (
+        <p className="text-xs text-red-300">タイムゾーンが分かりません（例: Asia/Tokyo, America/New_York）。</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={save}
+          disabled={!valid || !dirty}
+          className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+        >
+          保存
+        </button>
+        {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+      </div>
+    </section>
+  );
+}
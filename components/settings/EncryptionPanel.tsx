@@ -0,0 +1,214 @@
+/* components/settings/EncryptionPanel.tsx */
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import {
+  MIN_PASSPHRASE_LENGTH,
+  changeDiaryPassphrase,
+  disableDiaryEncryption,
+  enableDiaryEncryption,
+  encryptionFailureMessage,
+  type EncryptionResult,
+} from "@/lib/encryption/session";
+import { isDayEncryptionEnabled } from "@/lib/storage";
+
+type Mode = "idle" | "change" | "disable";
+
+const inputClass =
+  "w-full rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600";
+
+function validateNew(next: string, again: string): string {
+  if (next.length < MIN_PASSPHRASE_LENGTH) return `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上にしてください。`;
+  if (next !== again) return "確認用のパスフレーズが一致しません。";
+  return "";
+}
+
+export default function EncryptionPanel() {
+  const [enabled, setEnabled] = useState<boolean>(() => isDayEncryptionEnabled());
+  const [mode, setMode] = useState<Mode>("idle");
+
+  const [current, setCurrent] = useState<string>("");
+  const [next, setNext] = useState<string>("");
+  const [again, setAgain] = useState<string>("");
+
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+
+  function reset(nextMode: Mode) {
+    setMode(nextMode);
+    setCurrent("");
+    setNext("");
+    setAgain("");
+    setError("");
+  }
+
+  async function run(task: () => Promise<EncryptionResult>, done: string) {
+    setBusy(true);
+    setError("");
+    setMessage("");
+
+    const res = await task();
+    setBusy(false);
+    setEnabled(isDayEncryptionEnabled());
+
+    if (!res.ok) {
+      setError(encryptionFailureMessage(res.reason));
+      return;
+    }
+
+    reset("idle");
+    setMessage(done);
+    requestDaysRefresh({ force: true });
+  }
+
+  function onEnable(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const invalid = validateNew(next, again);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    void run(() => enableDiaryEncryption(next), "暗号化を有効にしました。次に開くときはパスフレーズが必要です。");
+  }
+
+  function onChange(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const invalid = validateNew(next, again);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    void run(() => changeDiaryPassphrase(current, next), "パスフレーズを変更しました。");
+  }
+
+  function onDisable(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    void run(() => disableDiaryEncryption(current), "暗号化を解除しました。");
+  }
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">暗号化</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          日別データをパスフレーズで暗号化して保存します。パスフレーズを忘れると復元できません。
+        </p>
+      </header>
+
+      <p className="text-sm text-zinc-200">
+        現在：<span className="font-semibold">{enabled ? "暗号化中" : "暗号化なし"}</span>
+      </p>
+
+      {!enabled ? (
+        <form onSubmit={onEnable} className="space-y-2">
+          <input
+            type="password"
+            value={next}
+            onChange={(e) => setNext(e.target.value)}
+            autoComplete="new-password"
+            placeholder={`パスフレーズ（${MIN_PASSPHRASE_LENGTH}文字以上）`}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={again}
+            onChange={(e) => setAgain(e.target.value)}
+            autoComplete="new-password"
+            placeholder="もう一度"
+            className={inputClass}
+          />
+          <p className="text-xs text-zinc-500">
+            ※ゴミ箱・編集履歴・退避した記録も同じ鍵で暗号化されます。表記ゆれ辞書は暗号化されません。
+          </p>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={busy || !next}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              {busy ? "暗号化しています…" : "暗号化を有効にする"}
+            </button>
+          </div>
+        </form>
+      ) : mode === "idle" ? (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => window.location.reload()}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            今すぐロック
+          </button>
+          <button
+            type="button"
+            onClick={() => reset("change")}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            パスフレーズを変更
+          </button>
+          <button
+            type="button"
+            onClick={() => reset("disable")}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            暗号化を解除
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={mode === "change" ? onChange : onDisable} className="space-y-2">
+          <input
+            type="password"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            autoComplete="current-password"
+            placeholder="現在のパスフレーズ"
+            className={inputClass}
+          />
+          {mode === "change" ? (
+            <>
+              <input
+                type="password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                autoComplete="new-password"
+                placeholder={`新しいパスフレーズ（${MIN_PASSPHRASE_LENGTH}文字以上）`}
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={again}
+                onChange={(e) => setAgain(e.target.value)}
+                autoComplete="new-password"
+                placeholder="もう一度"
+                className={inputClass}
+              />
+            </>
+          ) : (
+            <p className="text-xs text-zinc-400">全日を平文に戻して保存し直します。</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => reset("idle")}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              やめる
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !current}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              {busy ? "処理中…" : mode === "change" ? "変更する" : "解除する"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+      {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+    </section>
+  );
+}
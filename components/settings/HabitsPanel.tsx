@@ -0,0 +1,212 @@
+/* components/settings/HabitsPanel.tsx */
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import {
+  addHabit,
+  ALL_WEEKDAYS,
+  formatHabitWeekdays,
+  getHabits,
+  getServerHabits,
+  removeHabit,
+  subscribeHabits,
+  updateHabit,
+  WEEKDAY_LABELS,
+  type HabitDraft,
+} from "@/lib/habits";
+
+const EMPTY_DRAFT: HabitDraft = { name: "", tag: "", weekdays: [...ALL_WEEKDAYS] };
+
+type HabitFormProps = {
+  initial: HabitDraft;
+  submitLabel: string;
+  onSubmit: (draft: HabitDraft) => string | null; // エラーがあれば文言
+  onCancel?: () => void;
+};
+
+function HabitForm(props: HabitFormProps) {
+  const { initial, submitLabel, onSubmit, onCancel } = props;
+
+  const [name, setName] = useState<string>(initial.name);
+  const [tag, setTag] = useState<string>(initial.tag);
+  const [weekdays, setWeekdays] = useState<number[]>(initial.weekdays);
+  const [error, setError] = useState<string>("");
+
+  function toggleWeekday(d: number) {
+    setWeekdays((prev) => (prev.includes(d) ? prev.filter((x) => x !== d) : [...prev, d].sort((a, b) => a - b)));
+  }
+
+  function submit() {
+    const err = onSubmit({ name, tag, weekdays });
+    setError(err ?? "");
+    if (err === null && !onCancel) {
+      setName(EMPTY_DRAFT.name);
+      setTag(EMPTY_DRAFT.tag);
+      setWeekdays([...EMPTY_DRAFT.weekdays]);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="例：5分歩いた"
+          aria-label="習慣の名前"
+          className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        />
+        <input
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          placeholder="#タグ（任意）"
+          aria-label="既定のタグ"
+          className="w-32 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1" role="group" aria-label="対象の曜日">
+        {ALL_WEEKDAYS.map((d) => {
+          const on = weekdays.includes(d);
+          return (
+            <button
+              key={d}
+              type="button"
+              aria-pressed={on}
+              onClick={() => toggleWeekday(d)}
+              className={
+                "h-8 w-8 rounded-lg border text-xs " +
+                (on ? "border-zinc-500 bg-zinc-200 text-zinc-900" : "border-zinc-800 text-zinc-400 hover:bg-zinc-900")
+              }
+            >
+              {WEEKDAY_LABELS[d]}
+            </button>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={submit}
+          className="ml-auto rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900"
+        >
+          {submitLabel}
+        </button>
+        {onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            やめる
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+}
+
+export default function HabitsPanel() {
+  const habits = useSyncExternalStore(subscribeHabits, getHabits, getServerHabits);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+
+  function add(draft: HabitDraft): string | null {
+    const res = addHabit(window.localStorage, draft);
+    return res.ok ? null : res.error;
+  }
+
+  function update(id: string, draft: HabitDraft): string | null {
+    const res = updateHabit(window.localStorage, id, draft);
+    if (!res.ok) return res.error;
+    setEditingId(null);
+    return null;
+  }
+
+  function remove(id: string) {
+    removeHabit(window.localStorage, id);
+    setConfirmRemoveId(null);
+  }
+
+  return (
+    <section id="habits" className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">習慣</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          毎日（または決まった曜日）に繰り返すことを登録すると、Today でチェックするだけで「できたこと」に追加されます。
+        </p>
+      </header>
+
+      {habits.length === 0 ? null : (
+        <ul className="space-y-2">
+          {habits.map((h) => (
+            <li key={h.id} className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2">
+              {editingId === h.id ? (
+                <HabitForm
+                  initial={{ name: h.name, tag: h.tag, weekdays: h.weekdays }}
+                  submitLabel="保存"
+                  onSubmit={(draft) => update(h.id, draft)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="min-w-0 flex-1 break-words text-sm text-zinc-100">
+                    {h.name}
+                    {h.tag ? <span className="ml-2 text-xs text-zinc-500">#{h.tag}</span> : null}
+                  </span>
+                  <span className="text-xs text-zinc-400">{formatHabitWeekdays(h)}</span>
+                  {confirmRemoveId === h.id ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => remove(h.id)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        本当に削除
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRemoveId(null)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        やめる
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(h.id);
+                          setConfirmRemoveId(null);
+                        }}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        編集
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRemoveId(h.id)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        削除
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {confirmRemoveId ? (
+        <p className="text-xs text-zinc-500">削除しても、これまでにチェックした「できたこと」は残ります。</p>
+      ) : null}
+
+      <HabitForm initial={EMPTY_DRAFT} submitLabel="追加" onSubmit={add} />
+    </section>
+  );
+}
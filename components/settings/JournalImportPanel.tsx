@@ -0,0 +1,234 @@
+/* components/settings/JournalImportPanel.tsx */
+"use client";
+
+import { useMemo, useState } from "react";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import {
+  applyJournalImportPlan,
+  buildJournalImportPlan,
+  parseJournalSources,
+  type JournalDayPlan,
+  type JournalImportPlan,
+  type JournalSource,
+} from "@/lib/import/journal";
+import { moodLabel } from "@/components/today/MoodPicker";
+
+type Loaded = {
+  label: string; // ファイル名（複数なら件数）/ "貼り付けたテキスト"
+  plan: JournalImportPlan;
+};
+
+// プレビューで1日あたりに見せる項目数
+const PREVIEW_ITEMS = 3;
+
+function statusLabel(p: JournalDayPlan): string {
+  switch (p.status) {
+    case "new":
+      return "新規";
+    case "merge":
+      return "追記";
+    case "same":
+      return "変更なし";
+  }
+}
+
+function describeDay(p: JournalDayPlan): string {
+  const parts: string[] = [];
+  if (p.addedItems.length) parts.push(`${p.addedItems.length}件を追加`);
+  if (p.duplicateItems) parts.push(`${p.duplicateItems}件は既にある項目`);
+  if (p.mood && !p.moodConflict) parts.push(`気分 ${moodLabel(p.mood)}`);
+  if (p.moodConflict) parts.push("気分が異なる（現在を維持）");
+  if (p.memoConflict) parts.push("ひとことが異なる（現在を維持）");
+  return parts.length ? parts.join(" / ") : "同じ内容";
+}
+
+export default function JournalImportPanel() {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [pasted, setPasted] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [showSame, setShowSame] = useState<boolean>(false);
+
+  const summary = useMemo(() => {
+    if (!loaded) return null;
+    let added = 0;
+    let duplicates = 0;
+    let newDays = 0;
+    let mergeDays = 0;
+    let sameDays = 0;
+    for (const p of loaded.plan.days) {
+      added += p.addedItems.length;
+      duplicates += p.duplicateItems;
+      if (p.status === "new") newDays += 1;
+      else if (p.status === "merge") mergeDays += 1;
+      else sameDays += 1;
+    }
+    return { added, duplicates, newDays, mergeDays, sameDays };
+  }, [loaded]);
+
+  const visibleDays = useMemo(() => {
+    if (!loaded) return [];
+    return showSame ? loaded.plan.days : loaded.plan.days.filter((p) => p.status !== "same");
+  }, [loaded, showSame]);
+
+  function showPlan(label: string, sources: JournalSource[]) {
+    const parsed = parseJournalSources(sources);
+    if (parsed.days.length === 0) {
+      setError("日付の見出し（例：## 2025-03-04 / 2025/3/4）が見つかりませんでした。");
+      return;
+    }
+    setLoaded({ label, plan: buildJournalImportPlan(parsed) });
+  }
+
+  async function onPickFiles(files: File[]) {
+    setError("");
+    setMessage("");
+    setLoaded(null);
+    if (files.length === 0) return;
+
+    const sources = await Promise.all(files.map(async (f) => ({ name: f.name, text: await f.text() })));
+    showPlan(files.length === 1 ? (files[0]?.name ?? "") : `${files.length}ファイル`, sources);
+  }
+
+  function previewPasted() {
+    setError("");
+    setMessage("");
+    setLoaded(null);
+    showPlan("貼り付けたテキスト", [{ name: "", text: pasted }]);
+  }
+
+  function applyNow() {
+    if (!loaded) return;
+
+    const { savedDays, failedDays } = applyJournalImportPlan(loaded.plan);
+    requestDaysRefresh({ force: true });
+
+    setLoaded(null);
+    setPasted("");
+    setMessage(`${savedDays}日分を取り込みました。`);
+    if (failedDays.length) {
+      setError(`${failedDays.length}日分は保存できませんでした（容量不足の可能性）：${failedDays.join(", ")}`);
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">日記の取り込み（テキスト / Markdown）</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          日付の見出しごとに、箇条書き（- ・ *）を項目、😊/😐/😣 や「mood:」行を気分、それ以外の文をひとことにします。
+          同じ日に同じ本文の項目があれば追加しません。
+        </p>
+      </header>
+
+      <div className="space-y-2">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          rows={5}
+          placeholder={"## 2025-03-04 😊\n- 朝ランした #運動\n- 本を読んだ"}
+          className="w-full resize-y rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={previewPasted}
+            disabled={!pasted.trim()}
+            className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+          >
+            貼り付けた内容を確認
+          </button>
+
+          <label className="cursor-pointer rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900">
+            ファイルを選ぶ（複数可）
+            <input
+              type="file"
+              multiple
+              accept="text/plain,text/markdown,.txt,.md,.markdown"
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                void onPickFiles(files);
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+      {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+
+      {loaded && summary ? (
+        <div className="space-y-3 rounded-xl border border-zinc-800 bg-zinc-950/40 p-3">
+          <div className="text-xs text-zinc-300">
+            <p className="font-semibold text-zinc-100">{loaded.label}</p>
+            <p className="mt-1">
+              新規 {summary.newDays}日 / 追記 {summary.mergeDays}日 / 変更なし {summary.sameDays}日
+              （追加される項目 {summary.added}件{summary.duplicates ? ` / 重複で除外 ${summary.duplicates}件` : ""}）
+            </p>
+            {loaded.plan.skippedLines ? (
+              <p className="mt-1 text-zinc-400">日付の見出しより前のため無視：{loaded.plan.skippedLines}行</p>
+            ) : null}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={showSame}
+              onChange={(e) => setShowSame(e.target.checked)}
+              className="h-4 w-4 accent-zinc-200"
+            />
+            変更なしの日も表示
+          </label>
+
+          {visibleDays.length === 0 ? (
+            <p className="text-xs text-zinc-500">取り込む変更はありません。</p>
+          ) : (
+            <ul className="max-h-80 space-y-1 overflow-y-auto">
+              {visibleDays.map((p) => (
+                <li key={p.ymd} className="space-y-1 rounded-lg border border-zinc-800 px-3 py-2 text-xs">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <span className="shrink-0 font-medium text-zinc-100">{p.ymd}</span>
+                    <span className="min-w-0 flex-1 text-zinc-400">{describeDay(p)}</span>
+                    <span className="shrink-0 text-zinc-300">{statusLabel(p)}</span>
+                  </div>
+                  {p.addedItems.length ? (
+                    <ul className="space-y-0.5 text-zinc-500">
+                      {p.addedItems.slice(0, PREVIEW_ITEMS).map((it) => (
+                        <li key={it.id} className="truncate">
+                          ・{it.text.split("\n")[0]}
+                        </li>
+                      ))}
+                      {p.addedItems.length > PREVIEW_ITEMS ? (
+                        <li>…ほか{p.addedItems.length - PREVIEW_ITEMS}件</li>
+                      ) : null}
+                    </ul>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setLoaded(null)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              やめる
+            </button>
+            <button
+              type="button"
+              onClick={applyNow}
+              disabled={summary.newDays + summary.mergeDays === 0}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              取り込む
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,99 @@
+/* components/settings/StorageBackendPanel.tsx */
+"use client";
+
+import { useState } from "react";
+import { canMigrateToIndexedDb, migrateLocalDaysToIndexedDb } from "@/lib/backends/migrate";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { getDayBackendKind, isDayEncryptionEnabled, listDayYmds } from "@/lib/storage";
+import type { DayBackendKind } from "@/lib/backends/types";
+
+function kindLabel(kind: DayBackendKind): string {
+  return kind === "indexeddb" ? "IndexedDB" : "localStorage";
+}
+
+export default function StorageBackendPanel() {
+  const [kind, setKind] = useState<DayBackendKind>(() => getDayBackendKind());
+  const [dayCount, setDayCount] = useState<number>(() => listDayYmds().length);
+  const [canMigrate, setCanMigrate] = useState<boolean>(() => canMigrateToIndexedDb());
+
+  const [busy, setBusy] = useState<boolean>(false);
+  const [confirming, setConfirming] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  async function migrateNow() {
+    setBusy(true);
+    setConfirming(false);
+    setError("");
+    setMessage("");
+
+    const res = await migrateLocalDaysToIndexedDb();
+
+    setBusy(false);
+    setKind(getDayBackendKind());
+    setDayCount(listDayYmds().length);
+    setCanMigrate(canMigrateToIndexedDb());
+
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+
+    requestDaysRefresh({ force: true });
+    setMessage(`${res.moved}日分を IndexedDB に移しました。`);
+  }
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">保存先</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          localStorage は約5MBで上限に達します。長く使う場合は IndexedDB への移行がおすすめです。
+        </p>
+      </header>
+
+      <p className="text-sm text-zinc-200">
+        現在：<span className="font-semibold">{kindLabel(kind)}</span>
+        <span className="ml-2 text-xs text-zinc-400">{dayCount}日分</span>
+      </p>
+
+      {canMigrate ? (
+        confirming ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-xs text-zinc-300">移行後は localStorage の日別データを削除します（一度きり）。</p>
+            <button
+              type="button"
+              onClick={() => void migrateNow()}
+              disabled={busy}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              移行する
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirming(false)}
+              className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+            >
+              やめる
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            disabled={busy}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900 disabled:opacity-60"
+          >
+            IndexedDB に移行
+          </button>
+        )
+      ) : kind === "local" && isDayEncryptionEnabled() ? (
+        <p className="text-xs text-zinc-500">暗号化中は移行できません（先に暗号化を解除してください）。</p>
+      ) : null}
+
+      {busy ? <p className="text-xs text-zinc-400">移行中…</p> : null}
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+      {message ? <p className="text-xs text-zinc-300">{message}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+/* components/settings/StorageUsagePanel.tsx */
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatBytes, measureStorageUsage, type StorageUsage } from "@/lib/storage-usage";
+
+const TOP_N = 10;
+
+export default function StorageUsagePanel() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [showAll, setShowAll] = useState<boolean>(false);
+
+  const measure = useCallback(() => {
+    void measureStorageUsage().then((u) => setUsage(u));
+  }, []);
+
+  useEffect(() => {
+    // effect内で同期 setState はしない（Promise 経由で反映）
+    measure();
+  }, [measure]);
+
+  const ratio = useMemo(() => {
+    if (!usage || !usage.quotaBytes) return null;
+    return Math.min(1, usage.totalBytes / usage.quotaBytes);
+  }, [usage]);
+
+  const visibleDays = useMemo(() => {
+    if (!usage) return [];
+    return showAll ? usage.days : usage.days.slice(0, TOP_N);
+  }, [usage, showAll]);
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-200">使用量</h2>
+          <p className="mt-1 text-xs text-zinc-500">日別キーごとの容量と合計（おおよその値）</p>
+        </div>
+
+        <button
+          type="button"
+          onClick={measure}
+          className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+        >
+          再計測
+        </button>
+      </header>
+
+      {!usage ? (
+        <p className="text-xs text-zinc-400">計測中…</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <p className="text-sm text-zinc-200">
+              合計 <span className="font-semibold">{formatBytes(usage.totalBytes)}</span>
+              {usage.quotaBytes ? (
+                <span className="text-zinc-400"> / 上限 約{formatBytes(usage.quotaBytes)}</span>
+              ) : null}
+            </p>
+
+            {ratio !== null ? (
+              <div
+                className="h-2 w-full overflow-hidden rounded-full bg-zinc-800"
+                role="meter"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(ratio * 100)}
+                aria-label="使用率"
+              >
+                <div
+                  className={"h-full " + (ratio >= 0.9 ? "bg-red-400" : ratio >= 0.7 ? "bg-amber-300" : "bg-zinc-200")}
+                  style={{ width: `${ratio * 100}%` }}
+                />
+              </div>
+            ) : null}
+
+            <p className="text-xs text-zinc-500">
+              日別データ {formatBytes(usage.dayBytes)}（{usage.days.length}日） / その他 {formatBytes(usage.otherBytes)}
+            </p>
+          </div>
+
+          {usage.days.length === 0 ? null : (
+            <div className="space-y-2">
+              <p className="text-xs text-zinc-400">大きい順</p>
+              <ul className="space-y-1">
+                {visibleDays.map((d) => (
+                  <li
+                    key={d.ymd}
+                    className="flex items-center justify-between rounded-lg border border-zinc-800 px-3 py-1.5 text-xs"
+                  >
+                    <span className="text-zinc-100">{d.ymd}</span>
+                    <span className="text-zinc-400">{formatBytes(d.bytes)}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {usage.days.length > TOP_N ? (
+                <button
+                  type="button"
+                  onClick={() => setShowAll((v) => !v)}
+                  className="text-xs text-zinc-400 underline-offset-2 hover:underline"
+                >
+                  {showAll ? "上位だけ表示" : `すべて表示（${usage.days.length}日）`}
+                </button>
+              ) : null}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,155 @@
+/* components/settings/SyncPanel.tsx */
+"use client";
+
+import { useState, useSyncExternalStore, type FormEvent } from "react";
+import {
+  SYNC_STATUS_OFF,
+  disableSync,
+  enableSync,
+  getSyncStatus,
+  subscribeSyncStatus,
+  syncNow,
+  type SyncPhase,
+} from "@/lib/sync/engine";
+import { formatDateTime } from "@/lib/date";
+import { isDayEncryptionEnabled } from "@/lib/storage";
+
+function phaseLabel(phase: SyncPhase): string {
+  switch (phase) {
+    case "off":
+      return "同期しない";
+    case "idle":
+      return "待機中";
+    case "syncing":
+      return "同期中";
+    case "offline":
+      return "オフライン（つながったら再開）";
+    case "error":
+      return "エラー（しばらくして再試行）";
+    case "unavailable":
+      return "停止中";
+  }
+}
+
+function formatSyncedAt(iso: string): string {
+  return formatDateTime(new Date(iso), {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function SyncPanel() {
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus, () => SYNC_STATUS_OFF);
+
+  const [token, setToken] = useState<string>("");
+  const [confirmOff, setConfirmOff] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const encrypted = isDayEncryptionEnabled();
+
+  function onEnable(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError("");
+
+    const res = enableSync(token);
+    if (!res.ok) {
+      setError(res.reason === "encrypted" ? "暗号化中は同期できません。" : "トークンを入力してください。");
+      return;
+    }
+    setToken("");
+  }
+
+  function onDisable() {
+    disableSync();
+    setConfirmOff(false);
+  }
+
+  return (
+    <section className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">同期（任意）</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          このアプリを動かしているサーバー（/api/sync）を経由して、複数の端末で日記と辞書を揃えます。サーバー側で
+          ACHIEVE_SYNC_TOKEN を設定し、同じトークンを各端末で入力してください。
+        </p>
+      </header>
+
+      <p className="text-sm text-zinc-200">
+        現在：<span className="font-semibold">{phaseLabel(status.phase)}</span>
+        {status.phase !== "off" ? (
+          <span className="ml-2 text-xs text-zinc-400">
+            送信待ち {status.pending}件
+            {status.lastSyncedAt ? ` / 最終同期 ${formatSyncedAt(status.lastSyncedAt)}` : ""}
+          </span>
+        ) : null}
+      </p>
+      {status.message ? <p className="text-xs text-zinc-400">{status.message}</p> : null}
+
+      {status.phase === "off" ? (
+        <form onSubmit={onEnable} className="space-y-2">
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            autoComplete="off"
+            placeholder="同期トークン"
+            disabled={encrypted}
+            className="w-full rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600 disabled:opacity-60"
+          />
+          <p className="text-xs text-zinc-500">
+            ※同じ日を複数の端末で編集した場合は項目単位でマージします。暗号化中は同期できません。
+          </p>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!token || encrypted}
+              className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900 disabled:opacity-60"
+            >
+              同期を始める
+            </button>
+          </div>
+        </form>
+      ) : confirmOff ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-zinc-300">この端末の同期をやめます（手元とサーバーのデータは消しません）。</p>
+          <button
+            type="button"
+            onClick={onDisable}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            やめる
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmOff(false)}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            続ける
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => void syncNow()}
+            disabled={status.phase === "syncing"}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900 disabled:opacity-60"
+          >
+            今すぐ同期
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmOff(true)}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            同期をやめる
+          </button>
+        </div>
+      )}
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,167 @@
+/* components/settings/TemplatesPanel.tsx */
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import {
+  addTemplate,
+  getServerTemplates,
+  getTemplates,
+  removeTemplate,
+  subscribeTemplates,
+  templatePlaceholders,
+  updateTemplate,
+} from "@/lib/templates";
+
+type TemplateFormProps = {
+  initial: string;
+  submitLabel: string;
+  onSubmit: (text: string) => string | null; // エラーがあれば文言
+  onCancel?: () => void;
+};
+
+function TemplateForm(props: TemplateFormProps) {
+  const { initial, submitLabel, onSubmit, onCancel } = props;
+
+  const [text, setText] = useState<string>(initial);
+  const [error, setError] = useState<string>("");
+
+  const names = templatePlaceholders(text);
+
+  function submit() {
+    const err = onSubmit(text);
+    setError(err ?? "");
+    if (err === null && !onCancel) setText("");
+  }
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="例：{分}分歩いた #健康"
+          aria-label="テンプレートの本文"
+          className="min-w-0 flex-1 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+        />
+        <button type="submit" className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900">
+          {submitLabel}
+        </button>
+        {onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+          >
+            やめる
+          </button>
+        ) : null}
+      </div>
+
+      {names.length > 0 ? <p className="text-xs text-zinc-500">追加するときに聞く数：{names.join("・")}</p> : null}
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </form>
+  );
+}
+
+export default function TemplatesPanel() {
+  const templates = useSyncExternalStore(subscribeTemplates, getTemplates, getServerTemplates);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+
+  function add(text: string): string | null {
+    const res = addTemplate(window.localStorage, text);
+    return res.ok ? null : res.error;
+  }
+
+  function update(id: string, text: string): string | null {
+    const res = updateTemplate(window.localStorage, id, text);
+    if (!res.ok) return res.error;
+    setEditingId(null);
+    return null;
+  }
+
+  function remove(id: string) {
+    removeTemplate(window.localStorage, id);
+    setConfirmRemoveId(null);
+  }
+
+  return (
+    <section id="templates" className="space-y-3 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <header>
+        <h2 className="text-sm font-semibold text-zinc-200">テンプレート</h2>
+        <p className="mt-1 text-xs text-zinc-500">
+          よく書く「できたこと」を登録すると、Today の追加欄の下からワンタップで追加できます。#タグ も書けます。
+          <span className="font-semibold">{"{分}"}</span> のように波かっこで囲んだ所は、追加するときに数を聞いて埋めます。
+        </p>
+      </header>
+
+      {templates.length === 0 ? null : (
+        <ul className="space-y-2">
+          {templates.map((t) => (
+            <li key={t.id} className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2">
+              {editingId === t.id ? (
+                <TemplateForm
+                  initial={t.text}
+                  submitLabel="保存"
+                  onSubmit={(text) => update(t.id, text)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="min-w-0 flex-1 break-words text-sm text-zinc-100">{t.text}</span>
+                  {confirmRemoveId === t.id ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => remove(t.id)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        本当に削除
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRemoveId(null)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        やめる
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(t.id);
+                          setConfirmRemoveId(null);
+                        }}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        編集
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRemoveId(t.id)}
+                        className="rounded-lg border border-zinc-800 px-2 py-1 text-xs text-zinc-300 hover:bg-zinc-900"
+                      >
+                        削除
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <TemplateForm initial="" submitLabel="追加" onSubmit={add} />
+    </section>
+  );
+}
@@ -1,15 +1,16 @@
 /* components/today/AddBox.tsx */
 "use client";
 
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useTagSuggest } from "@/lib/useTagSuggest";
 
 type AddBoxProps = {
   onAdd: (text: string) => boolean; // true: 追加成功
+  onDraftChange?: (hasDraft: boolean) => void; // 入力途中の文字があるか（日付の切り替え確認用）
 };
 
 export default function AddBox(props: AddBoxProps) {
-  const { onAdd } = props;
+  const { onAdd, onDraftChange } = props;
 
   const [text, setText] = useState<string>("");
   const [cursor, setCursor] = useState<number>(0);
@@ -32,6 +33,10 @@ export default function AddBox(props: AddBoxProps) {
 
   const canAdd = text.trim().length > 0;
 
+  useEffect(() => {
+    if (onDraftChange) onDraftChange(canAdd);
+  }, [canAdd, onDraftChange]);
+
   const addItem = useCallback(() => {
     if (addLockRef.current) return;
 
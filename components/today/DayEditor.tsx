@@ -0,0 +1,422 @@
+/* components/today/DayEditor.tsx */
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore, type ReactNode } from "react";
+import { formatLongYmd } from "@/lib/date";
+import { findHabitItem, getHabits, getServerHabits, habitItemText, subscribeHabits, type Habit } from "@/lib/habits";
+import { getServerTemplates, getTemplates, subscribeTemplates } from "@/lib/templates";
+import { useFrequentItems } from "@/lib/useFrequentItems";
+import {
+  createId,
+  loadDay,
+  subscribeExternalDayChanges,
+  subscribeSaveFailures,
+  type AchieveDay,
+  type AchieveItem,
+  type AchieveMood,
+  type SaveDayFailureReason,
+} from "@/lib/storage";
+import { commitDay, mergeDays } from "@/lib/day-merge";
+import { requestDaysRefresh } from "@/lib/days-refresh";
+import { DAY_SCHEMA_VERSION } from "@/lib/schema/day";
+import { flushSensitiveStorage } from "@/lib/encryption/sensitive-storage";
+import { moveItemToTrash, restoreFromTrash, type TrashEntry } from "@/lib/trash";
+import { recordRevision } from "@/lib/revisions";
+import AddBox from "@/components/today/AddBox";
+import HabitPanel from "@/components/today/HabitPanel";
+import QuickAddChips from "@/components/today/QuickAddChips";
+import TodayList from "@/components/today/TodayList";
+import MoodPicker from "@/components/today/MoodPicker";
+import MemoBox from "@/components/today/MemoBox";
+import SaveErrorBanner from "@/components/today/SaveErrorBanner";
+import UndoToast from "@/components/today/UndoToast";
+
+// 入力途中のもの（日付の切り替え確認用）
+export type DayEditorActivity = {
+  hasDraft: boolean; // 追加欄の入力途中 / ひとことの保存待ち
+  editing: boolean; // 項目の編集中（切り替えると未確定の編集は破棄）
+};
+
+type DayEditorProps = {
+  ymd: string; // 別の日に変えるときは key={ymd} で作り直す
+  title: string;
+  nav?: ReactNode; // 日付の右（日付の移動など）
+  notice?: ReactNode; // 見出しの下（日付が変わった知らせなど）
+  onActivityChange?: (activity: DayEditorActivity) => void;
+};
+
+type SaveState = "idle" | "saved";
+
+const UNDO_TOAST_MS = 6000;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function recordMemoRevision(ymd: string, prev: AchieveDay, memo: string): void {
+  // debounce 保存が続く間は1版にまとめる（大きな削除・貼り付けは別版）
+  recordRevision(window.localStorage, {
+    ymd,
+    target: { kind: "memo" },
+    prevText: prev.memo,
+    prevAt: prev.updatedAt,
+    nextText: memo,
+    coalesce: true,
+  });
+}
+
+/**
+ * 1日分の記録の編集（Today と /day/[ymd] で共通）
+ * - 追加（テンプレート・よく書く項目のワンタップ追加も）・本文の編集・削除（ゴミ箱 + 元に戻す）・並べ替え・今日のベスト・習慣のチェック・気分・ひとこと、自動保存と保存失敗の再試行
+ * - 他タブで同じ日が保存されたら、未保存の入力を残したまま取り込む
+ * - 作り直す（日付を変える・画面を離れる）ときは、保存待ちのひとことをこの日に保存してから
+ */
+export default function DayEditor(props: DayEditorProps) {
+  const { ymd, title, nav, notice, onActivityChange } = props;
+
+  const long = useMemo(() => formatLongYmd(ymd), [ymd]);
+  const habits = useSyncExternalStore(subscribeHabits, getHabits, getServerHabits);
+  const templates = useSyncExternalStore(subscribeTemplates, getTemplates, getServerTemplates);
+  const frequent = useFrequentItems();
+
+  const [day, setDay] = useState<AchieveDay>(() => loadDay(ymd));
+  // dayRef = 画面の最新（未保存の入力を含む）/ baseRef = 最後に読み書きした保存内容
+  const dayRef = useRef<AchieveDay>(day);
+  const baseRef = useRef<AchieveDay>(day);
+
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  // 新しい版のアプリで保存された日は、開いた時点で「上書きしない」ことを知らせる
+  const [saveError, setSaveError] = useState<SaveDayFailureReason | null>(() =>
+    day.schemaVersion > DAY_SCHEMA_VERSION ? "newer-version" : null,
+  );
+  const saveTimerRef = useRef<number | null>(null);
+  const memoTimerRef = useRef<number | null>(null);
+
+  const [undoEntry, setUndoEntry] = useState<TrashEntry | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+
+  const addDraftRef = useRef<boolean>(false);
+  const editingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+      if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  // 保存待ちのひとことは、作り直す前にこの日へ保存する
+  useEffect(() => {
+    return () => {
+      if (memoTimerRef.current === null) return;
+      window.clearTimeout(memoTimerRef.current);
+      memoTimerRef.current = null;
+
+      const stored = loadDay(ymd);
+      const memo = dayRef.current.memo;
+      const res = commitDay(baseRef.current, { ...dayRef.current, memo });
+      if (!res.ok) return;
+
+      recordMemoRevision(ymd, stored, memo);
+      requestDaysRefresh({ force: true });
+    };
+  }, [ymd]);
+
+  // IndexedDB など “後から分かる” 保存失敗もバナーに出す
+  useEffect(() => {
+    return subscribeSaveFailures((failedYmd, reason) => {
+      if (failedYmd === ymd) setSaveError(reason);
+    });
+  }, [ymd]);
+
+  // 他タブで同じ日が保存されたら、未保存の入力を残したまま取り込む
+  useEffect(() => {
+    return subscribeExternalDayChanges((changedYmd) => {
+      if (changedYmd !== null && changedYmd !== ymd) return;
+
+      const stored = loadDay(ymd);
+      if (stored.updatedAt === baseRef.current.updatedAt) return;
+
+      const merged = mergeDays(baseRef.current, dayRef.current, stored);
+      baseRef.current = stored;
+      dayRef.current = merged;
+      setDay(merged);
+    });
+  }, [ymd]);
+
+  const reportActivity = useCallback(() => {
+    if (!onActivityChange) return;
+    onActivityChange({
+      hasDraft: addDraftRef.current || memoTimerRef.current !== null,
+      editing: editingRef.current,
+    });
+  }, [onActivityChange]);
+
+  const onAddDraftChange = useCallback(
+    (hasDraft: boolean) => {
+      addDraftRef.current = hasDraft;
+      reportActivity();
+    },
+    [reportActivity],
+  );
+
+  const onEditingChange = useCallback(
+    (editing: boolean) => {
+      editingRef.current = editing;
+      reportActivity();
+    },
+    [reportActivity],
+  );
+
+  function showDay(next: AchieveDay) {
+    dayRef.current = next;
+    setDay(next);
+  }
+
+  function flashSaved() {
+    setSaveState("saved");
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => setSaveState("idle"), 900);
+  }
+
+  function persist(next: AchieveDay): boolean {
+    // 他タブの保存と競合したら item 単位でマージしてから保存（lib/day-merge.ts）
+    const res = commitDay(baseRef.current, next);
+    if (!res.ok) {
+      // 画面の day はそのまま（未保存の入力をメモリに残し、再試行できるようにする）
+      setSaveError(res.reason);
+      return false;
+    }
+
+    baseRef.current = res.day;
+    showDay(res.day);
+    setSaveError(null);
+    flashSaved();
+
+    // History/Insights 側の共有ストアも idle で追従させる（体感向上）
+    requestDaysRefresh({ force: true });
+    return true;
+  }
+
+  function addItem(text: string, habitId?: string): boolean {
+    const v = text.trim();
+    if (!v) return false;
+
+    const at = nowIso();
+    const item: AchieveItem = {
+      id: createId(),
+      text: v,
+      done: true,
+      createdAt: at,
+      updatedAt: at,
+      ...(habitId ? { habitId } : {}),
+    };
+
+    const next: AchieveDay = {
+      ...day,
+      items: [item, ...day.items],
+    };
+
+    showDay(next);
+    persist(next);
+    return true;
+  }
+
+  // 習慣のチェック = 普通の項目を1つ追加（同じ日に二重には入れない）
+  function checkHabit(habit: Habit) {
+    if (findHabitItem(day, habit.id)) return;
+    addItem(habitItemText(habit), habit.id);
+  }
+
+  function editItemText(id: string, nextText: string) {
+    const v = nextText.trim();
+    if (!v) return;
+
+    const prev = day.items.find((i) => i.id === id);
+    if (!prev) return;
+
+    const next: AchieveDay = {
+      ...day,
+      items: day.items.map((i) => (i.id === id ? { ...i, text: v, updatedAt: nowIso() } : i)),
+    };
+
+    showDay(next);
+    if (!persist(next)) return;
+
+    recordRevision(window.localStorage, {
+      ymd,
+      target: { kind: "item", itemId: id },
+      prevText: prev.text,
+      prevAt: prev.updatedAt,
+      nextText: v,
+    });
+  }
+
+  // 並びは保存する（上ほど大事。History もこの並びで表示）
+  function moveItem(id: string, toIndex: number) {
+    const from = day.items.findIndex((i) => i.id === id);
+    const moving = day.items[from];
+    if (!moving) return;
+
+    const to = Math.max(0, Math.min(day.items.length - 1, toIndex));
+    if (from === to) return;
+
+    const items = day.items.filter((i) => i.id !== id);
+    items.splice(to, 0, moving);
+
+    const next: AchieveDay = { ...day, items };
+    showDay(next);
+    persist(next);
+  }
+
+  function togglePin(id: string) {
+    const next: AchieveDay = { ...day, pinnedId: day.pinnedId === id ? null : id };
+    showDay(next);
+    persist(next);
+  }
+
+  function showUndo(entry: TrashEntry | null) {
+    setUndoEntry(entry);
+    if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = entry ? window.setTimeout(() => setUndoEntry(null), UNDO_TOAST_MS) : null;
+  }
+
+  async function deleteItem(id: string) {
+    const index = day.items.findIndex((i) => i.id === id);
+    const target = day.items[index];
+    if (!target) return;
+
+    // 先にゴミ箱へ（入らなければ消さない。暗号化中は書き込みが終わるまで待つ）
+    let entry: TrashEntry;
+    try {
+      entry = moveItemToTrash(window.localStorage, ymd, target, index);
+      await flushSensitiveStorage();
+    } catch {
+      setSaveError("quota-exceeded");
+      return;
+    }
+
+    // 墓標を残して、他タブの古い内容とマージしても生き返らないようにする
+    const current = dayRef.current;
+    const next: AchieveDay = {
+      ...current,
+      items: current.items.filter((i) => i.id !== id),
+      pinnedId: current.pinnedId === id ? null : current.pinnedId,
+      deleted: [...current.deleted, { id, deletedAt: entry.deletedAt }],
+    };
+
+    showDay(next);
+    persist(next);
+    showUndo(entry);
+  }
+
+  function undoDelete() {
+    if (!undoEntry) return;
+
+    const res = restoreFromTrash(window.localStorage, undoEntry.trashId);
+    showUndo(null);
+
+    if (res.ok) {
+      const stored = loadDay(ymd);
+      baseRef.current = stored;
+      showDay(stored);
+      flashSaved();
+      requestDaysRefresh({ force: true });
+      return;
+    }
+    if (res.reason !== "not-found") setSaveError(res.reason);
+  }
+
+  // ===== 気分 / ひとこと =====
+  function toggleMood(nextMood: Exclude<AchieveMood, null>) {
+    const mood: AchieveMood = day.mood === nextMood ? null : nextMood;
+    const next: AchieveDay = { ...day, mood };
+    showDay(next);
+    persist(next);
+  }
+
+  function saveMemo(v: string) {
+    const stored = loadDay(ymd);
+    if (!persist({ ...dayRef.current, memo: v })) return;
+    recordMemoRevision(ymd, stored, v);
+  }
+
+  function onMemoChange(v: string) {
+    showDay({ ...dayRef.current, memo: v });
+
+    if (memoTimerRef.current !== null) window.clearTimeout(memoTimerRef.current);
+    memoTimerRef.current = window.setTimeout(() => {
+      memoTimerRef.current = null;
+      saveMemo(v);
+      reportActivity();
+    }, 350);
+    reportActivity();
+  }
+
+  function retrySave() {
+    persist(dayRef.current);
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-3xl p-4 md:p-6">
+      <section className="space-y-6">
+        <header className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-zinc-400">{ymd}</p>
+            {nav}
+          </div>
+          <h1 className="text-2xl font-semibold tracking-tight">{title}</h1>
+          <p className="text-zinc-300">小さくてもOK。「できた」を集めましょう。</p>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-zinc-400">{long}</p>
+            <p className="text-xs text-zinc-500">
+              {saveError ? "未保存" : `自動保存 ${saveState === "saved" ? "✓" : ""}`}
+            </p>
+          </div>
+        </header>
+
+        {notice}
+
+        {saveError ? <SaveErrorBanner reason={saveError} onRetry={retrySave} /> : null}
+
+        <AddBox onAdd={addItem} onDraftChange={onAddDraftChange} />
+
+        <QuickAddChips templates={templates} frequent={frequent} items={day.items} onAdd={addItem} />
+
+        {habits.length > 0 ? (
+          <HabitPanel
+            ymd={ymd}
+            habits={habits}
+            items={day.items}
+            onCheck={checkHabit}
+            onUncheck={(_habit, item) => deleteItem(item.id)}
+          />
+        ) : null}
+
+        <TodayList
+          items={day.items}
+          pinnedId={day.pinnedId}
+          onEditText={editItemText}
+          onDelete={deleteItem}
+          onMove={moveItem}
+          onTogglePin={togglePin}
+          onEditingChange={onEditingChange}
+        />
+
+        <section className="grid gap-3 md:grid-cols-2">
+          <MoodPicker mood={day.mood} onToggle={toggleMood} />
+          <MemoBox memo={day.memo} onChange={onMemoChange} />
+        </section>
+      </section>
+
+      {undoEntry ? (
+        <UndoToast
+          message={`削除しました：${undoEntry.item.text}`}
+          onUndo={undoDelete}
+          onClose={() => showUndo(null)}
+        />
+      ) : null}
+    </main>
+  );
+}
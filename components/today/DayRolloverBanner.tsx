@@ -0,0 +1,41 @@
+/* components/today/DayRolloverBanner.tsx */
+"use client";
+
+type DayRolloverBannerProps = {
+  currentYmd: string; // 表示中（入力中）の日
+  nextYmd: string; // 新しい「今日」
+  editing: boolean; // 項目の編集中（切り替えると未確定の編集は破棄）
+  onSwitch: () => void;
+  onStay: () => void;
+};
+
+export default function DayRolloverBanner(props: DayRolloverBannerProps) {
+  const { currentYmd, nextYmd, editing, onSwitch, onStay } = props;
+
+  return (
+    <div role="status" className="rounded-2xl border border-zinc-700 bg-zinc-900/60 p-4 text-sm text-zinc-100">
+      <p className="font-semibold">日付が変わりました（{nextYmd}）</p>
+      <p className="mt-1 text-xs text-zinc-400">
+        入力中の内容があるため、{currentYmd} のままにしています。
+        {editing ? "切り替えると、確定していない項目の編集は破棄されます。" : ""}
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={onSwitch}
+          className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900"
+        >
+          今日に切り替える
+        </button>
+        <button
+          type="button"
+          onClick={onStay}
+          className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+        >
+          {currentYmd} に続けて記録する
+        </button>
+      </div>
+    </div>
+  );
+}
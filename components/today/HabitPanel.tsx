@@ -0,0 +1,86 @@
+/* components/today/HabitPanel.tsx */
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { formatHabitWeekdays, isHabitDueOn, type Habit } from "@/lib/habits";
+import type { AchieveItem } from "@/lib/storage";
+
+type HabitPanelProps = {
+  ymd: string;
+  habits: Habit[];
+  items: AchieveItem[];
+  onCheck: (habit: Habit) => void; // 項目を追加する
+  onUncheck: (habit: Habit, item: AchieveItem) => void; // 追加した項目を削除する（ゴミ箱へ）
+};
+
+/**
+ * 習慣のチェック（その日が対象の曜日のものを上に。対象外の曜日の分も畳んで出す）
+ */
+export default function HabitPanel(props: HabitPanelProps) {
+  const { ymd, habits, items, onCheck, onUncheck } = props;
+
+  const checked = useMemo(() => {
+    const map = new Map<string, AchieveItem>();
+    for (const it of items) if (it.habitId && !map.has(it.habitId)) map.set(it.habitId, it);
+    return map;
+  }, [items]);
+
+  const due = habits.filter((h) => isHabitDueOn(h, ymd));
+  const others = habits.filter((h) => !isHabitDueOn(h, ymd));
+  const doneCount = due.filter((h) => checked.has(h.id)).length;
+
+  function renderHabit(habit: Habit) {
+    const item = checked.get(habit.id);
+    return (
+      <li key={habit.id}>
+        <label className="flex cursor-pointer items-center gap-3 rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 hover:bg-zinc-900">
+          <input
+            type="checkbox"
+            checked={item !== undefined}
+            onChange={() => (item ? onUncheck(habit, item) : onCheck(habit))}
+            className="h-4 w-4 accent-zinc-200"
+          />
+          <span className={"min-w-0 flex-1 break-words text-sm " + (item ? "text-zinc-400 line-through" : "text-zinc-100")}>
+            {habit.name}
+            {habit.tag ? <span className="ml-2 text-xs text-zinc-500">#{habit.tag}</span> : null}
+          </span>
+          <span className="shrink-0 text-xs text-zinc-500">{formatHabitWeekdays(habit)}</span>
+        </label>
+      </li>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-200">習慣</h2>
+        <div className="flex items-center gap-3">
+          {due.length > 0 ? (
+            <p className="text-xs text-zinc-400">
+              {doneCount} / {due.length}
+            </p>
+          ) : null}
+          <Link href="/settings#habits" className="text-xs text-zinc-500 hover:text-zinc-200">
+            編集
+          </Link>
+        </div>
+      </div>
+
+      {due.length === 0 ? (
+        <p className="mt-3 text-xs text-zinc-500">この日が対象の習慣はありません。</p>
+      ) : (
+        <ul className="mt-3 space-y-2">{due.map(renderHabit)}</ul>
+      )}
+
+      {others.length > 0 ? (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-xs text-zinc-500 hover:text-zinc-300">
+            対象外の曜日の習慣（{others.length}）
+          </summary>
+          <ul className="mt-2 space-y-2">{others.map(renderHabit)}</ul>
+        </details>
+      ) : null}
+    </section>
+  );
+}
@@ -8,7 +8,7 @@ type MoodPickerProps = {
   onToggle: (m: Exclude<AchieveMood, null>) => void;
 };
 
-function moodLabel(m: Exclude<AchieveMood, null>): string {
+export function moodLabel(m: Exclude<AchieveMood, null>): string {
   switch (m) {
     case "good":
       return "🙂 良い";
@@ -0,0 +1,192 @@
+/* components/today/QuickAddChips.tsx */
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { frequentItemKey, type FrequentItem } from "@/lib/frequent-items";
+import type { AchieveItem } from "@/lib/storage";
+import { fillTemplate, templatePlaceholders, type ItemTemplate } from "@/lib/templates";
+
+type QuickAddChipsProps = {
+  templates: ItemTemplate[];
+  frequent: FrequentItem[];
+  items: AchieveItem[]; // この日の項目（追加済みのよく書く項目は出さない）
+  onAdd: (text: string) => boolean; // true: 追加成功
+};
+
+const MAX_FREQUENT_CHIPS = 8;
+
+const CHIP_CLASS =
+  "max-w-full truncate rounded-full border bg-zinc-950/40 px-3 py-1.5 text-sm text-zinc-100 hover:bg-zinc-900";
+
+type PlaceholderFormProps = {
+  template: ItemTemplate;
+  names: string[];
+  onSubmit: (text: string) => boolean;
+  onCancel: () => void;
+};
+
+/**
+ * {分} などの差し込み欄に数を入れてから追加する
+ */
+function PlaceholderForm(props: PlaceholderFormProps) {
+  const { template, names, onSubmit, onCancel } = props;
+
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string>("");
+
+  const preview = useMemo(() => {
+    const res = fillTemplate(template.text, values);
+    return res.ok ? res.text : template.text;
+  }, [template.text, values]);
+
+  function submit() {
+    const res = fillTemplate(template.text, values);
+    if (!res.ok) {
+      setError(res.error);
+      return;
+    }
+    if (onSubmit(res.text)) onCancel();
+  }
+
+  return (
+    <form
+      className="mt-3 space-y-2 rounded-xl border border-zinc-800 bg-zinc-950/40 p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <p className="break-words text-xs text-zinc-400">{preview}</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {names.map((name, i) => (
+          <label key={name} className="flex items-center gap-2 text-xs text-zinc-300">
+            {name}
+            <input
+              value={values[name] ?? ""}
+              onChange={(e) => {
+                const v = e.target.value;
+                setValues((prev) => ({ ...prev, [name]: v }));
+                setError("");
+              }}
+              inputMode="decimal"
+              autoFocus={i === 0}
+              className="w-20 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+            />
+          </label>
+        ))}
+
+        <button type="submit" className="ml-auto rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900">
+          追加
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2 text-xs text-zinc-200 hover:bg-zinc-900"
+        >
+          やめる
+        </button>
+      </div>
+
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </form>
+  );
+}
+
+/**
+ * テンプレートとよく書く項目のワンタップ追加（追加欄の下）
+ * - 差し込み欄のあるテンプレートは、数を聞いてから追加する
+ * - よく書く項目は、この日に追加済みのもの・テンプレートと同じ本文のものを除く
+ */
+export default function QuickAddChips(props: QuickAddChipsProps) {
+  const { templates, frequent, items, onAdd } = props;
+
+  const [fillingId, setFillingId] = useState<string | null>(null);
+
+  const frequentChips = useMemo(() => {
+    const hidden = new Set<string>();
+    for (const it of items) hidden.add(frequentItemKey(it.text));
+    for (const t of templates) hidden.add(frequentItemKey(t.text));
+    return frequent.filter((f) => !hidden.has(f.key)).slice(0, MAX_FREQUENT_CHIPS);
+  }, [templates, frequent, items]);
+
+  const filling = templates.find((t) => t.id === fillingId) ?? null;
+  const fillingNames = filling ? templatePlaceholders(filling.text) : [];
+
+  if (templates.length === 0 && frequentChips.length === 0) return null;
+
+  function tapTemplate(template: ItemTemplate) {
+    if (templatePlaceholders(template.text).length > 0) {
+      setFillingId(fillingId === template.id ? null : template.id);
+      return;
+    }
+    setFillingId(null);
+    onAdd(template.text);
+  }
+
+  return (
+    <section className="rounded-2xl border border-zinc-800 bg-zinc-900/40 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-200">すぐ追加</h2>
+        <Link href="/settings#templates" className="text-xs text-zinc-500 hover:text-zinc-200">
+          テンプレートを編集
+        </Link>
+      </div>
+
+      {templates.length > 0 ? (
+        <div className="mt-3">
+          <p className="text-xs text-zinc-500">テンプレート</p>
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {templates.map((t) => {
+              const needsInput = templatePlaceholders(t.text).length > 0;
+              return (
+                <li key={t.id} className="max-w-full">
+                  <button
+                    type="button"
+                    onClick={() => tapTemplate(t)}
+                    aria-expanded={needsInput ? fillingId === t.id : undefined}
+                    className={CHIP_CLASS + (fillingId === t.id ? " border-zinc-500" : " border-zinc-800")}
+                    title={needsInput ? "数を入れて追加" : "追加"}
+                  >
+                    {t.text}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {filling ? (
+            <PlaceholderForm
+              key={filling.id}
+              template={filling}
+              names={fillingNames}
+              onSubmit={onAdd}
+              onCancel={() => setFillingId(null)}
+            />
+          ) : null}
+        </div>
+      ) : null}
+
+      {frequentChips.length > 0 ? (
+        <div className="mt-3">
+          <p className="text-xs text-zinc-500">よく書く項目（直近30日優先）</p>
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {frequentChips.map((f) => (
+              <li key={f.key} className="max-w-full">
+                <button
+                  type="button"
+                  onClick={() => onAdd(f.text)}
+                  className={CHIP_CLASS + " border-zinc-800"}
+                  title="追加"
+                >
+                  <span>{f.text}</span> <span className="text-xs text-zinc-400">×{f.totalDays}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
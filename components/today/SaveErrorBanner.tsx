@@ -0,0 +1,58 @@
+/* components/today/SaveErrorBanner.tsx */
+"use client";
+
+import Link from "next/link";
+import type { SaveDayFailureReason } from "@/lib/storage";
+
+type SaveErrorBannerProps = {
+  reason: SaveDayFailureReason;
+  onRetry: () => void;
+};
+
+function reasonText(reason: SaveDayFailureReason): string {
+  switch (reason) {
+    case "quota-exceeded":
+      return "保存容量の上限に達したため保存できませんでした。";
+    case "unavailable":
+      return "ブラウザの保存領域が使えないため保存できませんでした。";
+    case "invalid-ymd":
+      return "日付が不正なため保存できませんでした。";
+    case "newer-version":
+      return "この日は新しい版のアプリで保存されているため、この版では上書きしません（アプリを更新してから編集してください）。";
+  }
+}
+
+export default function SaveErrorBanner(props: SaveErrorBannerProps) {
+  const { reason, onRetry } = props;
+
+  return (
+    <div
+      role="alert"
+      className="rounded-2xl border border-red-900/70 bg-red-950/40 p-4 text-sm text-red-100"
+    >
+      <p className="font-semibold">{reasonText(reason)}</p>
+      <p className="mt-1 text-xs text-red-200/80">
+        入力内容はこの画面に残っています。タブを閉じる前に再試行してください。
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={onRetry}
+          className="rounded-xl bg-zinc-200 px-4 py-2 text-xs font-semibold text-zinc-900"
+        >
+          再試行
+        </button>
+
+        {reason === "quota-exceeded" ? (
+          <Link
+            href="/settings"
+            className="rounded-xl border border-red-900/70 px-3 py-2 text-xs text-red-100 hover:bg-red-950"
+          >
+            使用量を確認する
+          </Link>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,102 @@
 /* components/today/TodayList.tsx */
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState, type DragEvent, type KeyboardEvent } from "react";
+import { formatDateTime } from "@/lib/date";
 import type { AchieveItem } from "@/lib/storage";
 
 type TodayListProps = {
-  items: AchieveItem[];
+  items: AchieveItem[]; // 上ほど大事（並べ替えた順）
+  pinnedId: string | null; // 今日のベスト
   onEditText: (id: string, nextText: string) => void;
   onDelete: (id: string) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onTogglePin: (id: string) => void;
+  onEditingChange?: (editing: boolean) => void; // 項目を編集中か（日付の切り替え確認用）
 };
 
+/**
+ * その日の「できたこと」一覧
+ * - ドラッグ（⠿ をつかむ）か、項目にフォーカスして Alt+↑/↓ で並べ替え
+ * - ★ で今日のベストを1つ選ぶ（もう一度押すと外す）
+ */
 export default function TodayList(props: TodayListProps) {
-  const { items, onEditText, onDelete } = props;
+  const { items, pinnedId, onEditText, onDelete, onMove, onTogglePin, onEditingChange } = props;
+
+  const listRef = useRef<HTMLUListElement | null>(null);
+  // Alt+↑/↓ の後、動かした項目にフォーカスを戻す（並びが変わると DOM が付け替えられるため）
+  const refocusIdRef = useRef<string | null>(null);
+
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null); // この位置の前に入る（items.length = 末尾）
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editText, setEditText] = useState<string>("");
 
+  const isEditing = editingId !== null;
+  useEffect(() => {
+    if (onEditingChange) onEditingChange(isEditing);
+  }, [isEditing, onEditingChange]);
+
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
 
   const totalCount = items.length;
 
+  useEffect(() => {
+    const id = refocusIdRef.current;
+    if (!id) return;
+    refocusIdRef.current = null;
+
+    const handle = listRef.current?.querySelector<HTMLElement>(`[data-move-handle="${CSS.escape(id)}"]`);
+    handle?.focus();
+  }, [items]);
+
+  function onItemKeyDown(e: KeyboardEvent<HTMLLIElement>, id: string, index: number) {
+    if (!e.altKey || editingId !== null) return;
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+
+    e.preventDefault();
+    const to = e.key === "ArrowUp" ? index - 1 : index + 1;
+    if (to < 0 || to >= items.length) return;
+
+    refocusIdRef.current = id;
+    onMove(id, to);
+  }
+
+  function onDragStart(e: DragEvent<HTMLLIElement>, id: string) {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", id);
+    setDragId(id);
+    setConfirmDeleteId(null);
+  }
+
+  function onDragOver(e: DragEvent<HTMLLIElement>, index: number) {
+    if (dragId === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+
+    // 項目の上半分なら前、下半分なら後ろ
+    const rect = e.currentTarget.getBoundingClientRect();
+    const next = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+    if (next !== dropIndex) setDropIndex(next);
+  }
+
+  function onDrop(e: DragEvent<HTMLLIElement>) {
+    e.preventDefault();
+    const from = dragId === null ? -1 : items.findIndex((it) => it.id === dragId);
+    if (dragId !== null && from !== -1 && dropIndex !== null) {
+      // 自分より後ろへ動かすときは、抜いた分だけ前にずれる
+      const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+      if (to !== from) onMove(dragId, to);
+    }
+    endDrag();
+  }
+
+  function endDrag() {
+    setDragId(null);
+    setDropIndex(null);
+  }
+
   function startEdit(item: AchieveItem) {
     setEditingId(item.id);
     setEditText(item.text);
@@ -91,18 +168,50 @@ export default function TodayList(props: TodayListProps) {
           まだ何もありません。最初の1件を追加してみましょう。
         </div>
       ) : (
-        <ul className="mt-4 space-y-2">
-          {items.map((item) => {
+        <ul ref={listRef} className="mt-4 space-y-2">
+          {items.map((item, index) => {
             const isEditing = editingId === item.id;
             const isConfirmingDelete = confirmDeleteId === item.id;
+            const isPinned = item.id === pinnedId;
+            const isDragging = dragId === item.id;
+            const dropBefore = dragId !== null && dropIndex === index;
+            const dropAfter = dragId !== null && dropIndex === items.length && index === items.length - 1;
 
             return (
               <li
                 key={item.id}
-                className="rounded-xl border border-zinc-800 bg-zinc-950/40 px-3 py-2"
+                draggable={editingId === null}
+                onDragStart={(e) => onDragStart(e, item.id)}
+                onDragOver={(e) => onDragOver(e, index)}
+                onDrop={onDrop}
+                onDragEnd={endDrag}
+                onKeyDown={(e) => onItemKeyDown(e, item.id, index)}
+                className={
+                  "rounded-xl border px-3 py-2 " +
+                  (isPinned ? "border-amber-300/40 bg-amber-300/5" : "border-zinc-800 bg-zinc-950/40") +
+                  (isDragging ? " opacity-50" : "") +
+                  (dropBefore ? " shadow-[0_-2px_0_0_rgb(212_212_216)]" : "") +
+                  (dropAfter ? " shadow-[0_2px_0_0_rgb(212_212_216)]" : "")
+                }
               >
                 <div className="flex items-start gap-3">
+                  {editingId === null ? (
+                    <button
+                      type="button"
+                      data-move-handle={item.id}
+                      aria-label={`並べ替え（${index + 1}番目。Alt+↑/↓ で移動）`}
+                      title="ドラッグ / Alt+↑↓ で並べ替え"
+                      className="cursor-grab rounded-md px-1 text-zinc-600 hover:text-zinc-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-400"
+                    >
+                      ⠿
+                    </button>
+                  ) : null}
+
                   <div className="min-w-0 flex-1">
+                    {isPinned && !isEditing ? (
+                      <p className="mb-1 text-xs font-semibold text-amber-300">★ 今日のベスト</p>
+                    ) : null}
+
                     {isEditing ? (
                       <>
                         <textarea
@@ -181,8 +290,7 @@ export default function TodayList(props: TodayListProps) {
                         </button>
 
                         <p className="mt-1 text-xs text-zinc-500">
-                          {new Date(item.createdAt).toLocaleString("ja-JP", {
-                            timeZone: "Asia/Tokyo",
+                          {formatDateTime(new Date(item.createdAt), {
                             hour: "2-digit",
                             minute: "2-digit",
                           })}
@@ -212,6 +320,18 @@ export default function TodayList(props: TodayListProps) {
                         </>
                       ) : (
                         <>
+                          <button
+                            type="button"
+                            onClick={() => onTogglePin(item.id)}
+                            aria-pressed={isPinned}
+                            title={isPinned ? "今日のベストから外す" : "今日のベストにする"}
+                            className={
+                              "rounded-lg border px-2 py-1 text-xs hover:bg-zinc-900 " +
+                              (isPinned ? "border-amber-300/40 text-amber-300" : "border-zinc-800 text-zinc-500")
+                            }
+                          >
+                            ★
+                          </button>
                           <button
                             type="button"
                             onClick={() => startEdit(item)}
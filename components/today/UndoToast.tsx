@@ -0,0 +1,38 @@
+/* components/today/UndoToast.tsx */
+"use client";
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+};
+
+export default function UndoToast(props: UndoToastProps) {
+  const { message, onUndo, onClose } = props;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed inset-x-0 bottom-4 z-40 mx-auto flex w-[calc(100%-2rem)] max-w-md items-center gap-3 rounded-2xl border border-zinc-700 bg-zinc-900/95 px-4 py-3 text-sm text-zinc-100 shadow-lg"
+    >
+      <p className="min-w-0 flex-1 truncate">{message}</p>
+
+      <button
+        type="button"
+        onClick={onUndo}
+        className="shrink-0 rounded-lg bg-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-900"
+      >
+        元に戻す
+      </button>
+      <button
+        type="button"
+        onClick={onClose}
+        className="shrink-0 rounded-lg px-2 py-1.5 text-xs text-zinc-400 hover:text-zinc-200"
+        aria-label="閉じる"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
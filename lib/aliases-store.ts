@@ -1,20 +1,18 @@
 /* lib/aliases-store.ts
  * TagAliases をキャッシュして subscribe/snapshot を提供（useSyncExternalStore向け）
  * 同一タブ即反映は notifyTagAliasesMutated()（保存UIの直後に呼ぶ）
+ * 他タブへは event-bus の aliases-changed で知らせ、受け取った側もフォーカスを待たずに読み直す
  */
 
 import {
+  TAG_ALIASES_KEY,
   loadTagAliases,
   resetTagAliases,
   saveTagAliases,
   type TagAliases,
 } from "@/lib/diary";
 import { runIdle, type CancelFn } from "@/lib/client-scheduler";
-import {
-  DAY_KEY_PREFIX,
-  META_UPDATED_AT_KEY,
-  subscribeStorageMutations,
-} from "@/lib/storage";
+import { mapStorageKeyToBusEvent, publishBusEvent, subscribeBusEvents, type BusEvent } from "@/lib/event-bus";
 
 type Listener = () => void;
 
@@ -25,6 +23,7 @@ export type TagAliasesRefreshRequest = {
 };
 
 const listeners = new Set<Listener>();
+const mutationListeners = new Set<Listener>();
 
 let loaded = false;
 let cache: TagAliases = {};
@@ -36,7 +35,8 @@ let scheduledCancel: CancelFn | null = null;
 
 // 参照カウント
 let refCount = 0;
-let detachStorageMutation: (() => void) | null = null;
+let detachBus: (() => void) | null = null;
+let detachStorageMap: (() => void) | null = null;
 
 function isBrowser(): boolean {
   return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
@@ -87,34 +87,36 @@ function reloadNow(force: boolean): TagAliases {
   return cache;
 }
 
-function onStorageEvent(e: StorageEvent): void {
-  const key = e.key ?? "";
-
-  // day更新は days-store 側で扱うので無視（他タブの day 書き換えで alias まで更新したくない）
-  if (key.startsWith(DAY_KEY_PREFIX)) return;
-  if (key === META_UPDATED_AT_KEY) return;
+function onBusEvent(e: BusEvent): void {
+  if (e.type !== "aliases-changed") return;
 
   markDirty();
+  requestTagAliasesRefresh({ force: true });
+}
+
+// storage イベントの経路：辞書キーの変更（clear() を含む）を aliases-changed に
+function mapStorageKey(key: string | null): BusEvent | null {
+  return key === null || key === TAG_ALIASES_KEY ? { type: "aliases-changed" } : null;
 }
 
 function attachExternal(): void {
   if (!isBrowser()) return;
 
-  window.addEventListener("storage", onStorageEvent);
+  // 購読していない間の変更は追えていないので、次回は読み直す
+  markDirty();
 
-  // 同一タブ内の変更通知（実装側が通知していれば拾える）
-  detachStorageMutation = subscribeStorageMutations(() => {
-    markDirty();
-  });
+  detachStorageMap = mapStorageKeyToBusEvent(mapStorageKey);
+  detachBus = subscribeBusEvents(onBusEvent);
 }
 
 function detachExternal(): void {
   if (!isBrowser()) return;
 
-  window.removeEventListener("storage", onStorageEvent);
+  if (detachBus) detachBus();
+  detachBus = null;
 
-  if (detachStorageMutation) detachStorageMutation();
-  detachStorageMutation = null;
+  if (detachStorageMap) detachStorageMap();
+  detachStorageMap = null;
 }
 
 /**
@@ -190,9 +192,19 @@ export function requestTagAliasesRefresh(req?: TagAliasesRefreshRequest): void {
  */
 export function notifyTagAliasesMutated(): void {
   markDirty();
+  for (const l of mutationListeners) l();
+  publishBusEvent({ type: "aliases-changed" });
   requestTagAliasesRefresh({ force: true, immediate: true });
 }
 
+/**
+ * このタブでの辞書の保存（notifyTagAliasesMutated 経由）だけを購読する（同期の送信待ちなど）
+ */
+export function subscribeTagAliasesMutations(listener: Listener): () => void {
+  mutationListeners.add(listener);
+  return () => mutationListeners.delete(listener);
+}
+
 /**
  * ✅ 保存処理の呼び忘れ防止：保存＋notify を1関数にまとめる
  */
@@ -0,0 +1,180 @@
+/* lib/backends/encrypted.ts
+ * 暗号化モードの backend（local / indexeddb の上にかぶせる）
+ * - 起動（解錠）時に全件を復号してメモリへ。読み取りは同期で平文を返す
+ * - 書き込みはメモリを即更新 → AES-GCM で暗号化して下の backend へ（非同期・順番どおり）
+ * - 平文のまま残っているレコード（暗号化の途中で閉じた等）は読み込み後に暗号化し直す
+ */
+
+import { decryptString, encryptString, isCipherPayload, type CipherPayload } from "@/lib/encryption/cipher";
+import type { DayBackend, DayChangeListener, DayWriteErrorListener } from "@/lib/backends/types";
+
+export type EncryptedDayBackend = DayBackend & {
+  // 未完了の暗号化・書き込みを待つ（暗号化の解除など）
+  flush: () => Promise<void>;
+  // 復号できなかった ymd（下の backend にはそのまま残す）
+  undecryptable: () => string[];
+  // 下の backend の購読を外す（暗号化を解除して下の backend に戻すとき）
+  close: () => void;
+};
+
+type InnerDayBackend = DayBackend & {
+  flush?: () => Promise<void>;
+};
+
+type EncryptedDayRecord = CipherPayload & {
+  enc: "AES-GCM";
+};
+
+function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+export function isEncryptedDayRecord(raw: string): boolean {
+  const parsed = safeJsonParse(raw);
+  return isCipherPayload(parsed) && (parsed as { enc?: unknown }).enc === "AES-GCM";
+}
+
+export async function encryptDayRecord(key: CryptoKey, plain: string): Promise<string> {
+  const payload = await encryptString(key, plain);
+  const record: EncryptedDayRecord = { enc: "AES-GCM", ...payload };
+  return JSON.stringify(record);
+}
+
+/**
+ * 暗号化されていないレコードはそのまま返す（鍵違い・改ざんは throw）
+ */
+export async function decryptDayRecord(key: CryptoKey, raw: string): Promise<string> {
+  const parsed = safeJsonParse(raw);
+  if (!isCipherPayload(parsed) || (parsed as { enc?: unknown }).enc !== "AES-GCM") return raw;
+  return decryptString(key, parsed);
+}
+
+export async function openEncryptedDayBackend(inner: InnerDayBackend, key: CryptoKey): Promise<EncryptedDayBackend> {
+  const cache = new Map<string, string>();
+  const failed = new Set<string>();
+  const plainLeft: string[] = [];
+
+  async function readOne(ymd: string): Promise<void> {
+    const raw = inner.loadDay(ymd);
+    if (raw === null) {
+      cache.delete(ymd);
+      failed.delete(ymd);
+      return;
+    }
+
+    try {
+      cache.set(ymd, await decryptDayRecord(key, raw));
+      failed.delete(ymd);
+      if (!isEncryptedDayRecord(raw)) plainLeft.push(ymd);
+    } catch {
+      cache.delete(ymd);
+      failed.add(ymd);
+    }
+  }
+
+  for (const ymd of inner.listDays()) await readOne(ymd);
+
+  const listeners = new Set<DayChangeListener>();
+  const errorListeners = new Set<DayWriteErrorListener>();
+
+  // ymd ごとの最新の書き込み番号（古い暗号化結果で上書きしないように）
+  const versions = new Map<string, number>();
+  let pending: Promise<void> = Promise.resolve();
+  let lastError: unknown = null;
+
+  function enqueueWrite(ymd: string): void {
+    const version = (versions.get(ymd) ?? 0) + 1;
+    versions.set(ymd, version);
+
+    pending = pending
+      .then(async () => {
+        if (versions.get(ymd) !== version) return;
+
+        const plain = cache.get(ymd);
+        if (plain === undefined) return;
+
+        const encrypted = await encryptDayRecord(key, plain);
+        if (versions.get(ymd) !== version) return;
+        inner.saveDay(ymd, encrypted);
+      })
+      .catch((err: unknown) => {
+        // 失敗してもメモリ上の値は残す（次回の保存で再度書き込まれる）
+        lastError = err;
+        for (const l of errorListeners) l(ymd, err);
+      });
+  }
+
+  for (const ymd of plainLeft.splice(0)) enqueueWrite(ymd);
+
+  // 他タブの書き込み：暗号文を読み直して復号してから通知
+  const detachInner = inner.subscribe((ymd) => {
+    const reload = ymd === null ? inner.listDays() : [ymd];
+    void (async () => {
+      if (ymd === null) cache.clear();
+      for (const d of reload) await readOne(d);
+      for (const d of plainLeft.splice(0)) enqueueWrite(d);
+      for (const l of listeners) l(ymd);
+    })();
+  });
+  const detachInnerErrors = inner.subscribeWriteErrors((ymd, error) => {
+    for (const l of errorListeners) l(ymd, error);
+  });
+
+  return {
+    kind: inner.kind,
+    encrypted: true,
+
+    loadDay(ymd) {
+      return cache.get(ymd) ?? null;
+    },
+
+    saveDay(ymd, raw) {
+      cache.set(ymd, raw);
+      failed.delete(ymd);
+      enqueueWrite(ymd);
+    },
+
+    removeDay(ymd) {
+      cache.delete(ymd);
+      failed.delete(ymd);
+      versions.set(ymd, (versions.get(ymd) ?? 0) + 1);
+      inner.removeDay(ymd);
+    },
+
+    listDays() {
+      return Array.from(cache.keys());
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    subscribeWriteErrors(listener) {
+      errorListeners.add(listener);
+      return () => errorListeners.delete(listener);
+    },
+
+    undecryptable() {
+      return Array.from(failed);
+    },
+
+    async flush() {
+      await pending;
+      if (inner.flush) await inner.flush();
+
+      const err = lastError;
+      lastError = null;
+      if (err) throw err;
+    },
+
+    close() {
+      detachInner();
+      detachInnerErrors();
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/* lib/backends/indexeddb.ts
+ * IndexedDB に日別データを保存する backend
+ * - 起動時に全件をメモリへ読み込み、読み取りは同期（Map）で返す
+ * - 書き込みは Map を即更新 → IndexedDB へは非同期で put（順序は transaction 作成順）
+ * - 他タブへの通知は event-bus の day-saved（書き込み完了後に送る。受け取った側は該当 ymd だけ読み直す）
+ * - 完了の待ち受けは transaction を作った直後に付ける（順番待ちの間に完了しても取りこぼさない）
+ */
+
+import { idbRequest, idbTransactionDone, openIdb } from "@/lib/idb";
+import type { DayBackend, DayChangeListener, DayWriteErrorListener } from "@/lib/backends/types";
+import { publishBusEvent, subscribeBusEvents } from "@/lib/event-bus";
+
+const DB_NAME = "achieve-diary";
+const DB_VERSION = 1;
+const STORE = "days";
+
+export type IndexedDbDayBackend = DayBackend & {
+  // 未完了の書き込みを待つ（移行処理など）。前回の flush 以降に失敗があれば reject
+  flush: () => Promise<void>;
+  // 他タブの保存（day-saved）の購読を外す（保存先を差し替えて使わなくなったとき）
+  close: () => void;
+};
+
+function openDaysDb(): Promise<IDBDatabase> {
+  return openIdb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+  });
+}
+
+async function readAll(db: IDBDatabase): Promise<Map<string, string>> {
+  const tx = db.transaction(STORE, "readonly");
+  const store = tx.objectStore(STORE);
+
+  const [keys, values] = await Promise.all([
+    idbRequest(store.getAllKeys()),
+    idbRequest(store.getAll() as IDBRequest<unknown[]>),
+  ]);
+
+  const out = new Map<string, string>();
+  keys.forEach((k, i) => {
+    const v = values[i];
+    if (typeof k === "string" && typeof v === "string") out.set(k, v);
+  });
+  return out;
+}
+
+export async function openIndexedDbDayBackend(): Promise<IndexedDbDayBackend> {
+  const db = await openDaysDb();
+  const cache = await readAll(db);
+
+  const listeners = new Set<DayChangeListener>();
+  const errorListeners = new Set<DayWriteErrorListener>();
+
+  let pending: Promise<void> = Promise.resolve();
+  let lastError: unknown = null;
+
+  function enqueue(write: (store: IDBObjectStore) => void, ymd: string): void {
+    const tx = db.transaction(STORE, "readwrite");
+    // 完了の購読は作った直後に（前の書き込みを待ってから付けると、先に完了した tx を取りこぼして止まる）
+    const done = idbTransactionDone(tx);
+    done.catch(() => {
+      // 失敗は下の chain で扱う（順番が来る前に reject しても unhandled にしない）
+    });
+    write(tx.objectStore(STORE));
+
+    pending = pending
+      .then(() => done)
+      .then(() => {
+        // localStorage に書かないので、storage イベントの経路へは ping で知らせる
+        publishBusEvent({ type: "day-saved", ymd }, { storagePing: true });
+      })
+      .catch((err: unknown) => {
+        // 失敗してもメモリ上の値は残す（次回の保存で再度 put される）
+        lastError = err;
+        for (const l of errorListeners) l(ymd, err);
+      });
+  }
+
+  async function reloadOne(ymd: string): Promise<void> {
+    const tx = db.transaction(STORE, "readonly");
+    const v = (await idbRequest(tx.objectStore(STORE).get(ymd))) as unknown;
+
+    if (typeof v === "string") cache.set(ymd, v);
+    else cache.delete(ymd);
+
+    for (const l of listeners) l(ymd);
+  }
+
+  const unsubscribeBus = subscribeBusEvents((e) => {
+    if (e.type === "day-saved") void reloadOne(e.ymd);
+  });
+
+  return {
+    kind: "indexeddb",
+    encrypted: false,
+
+    loadDay(ymd) {
+      return cache.get(ymd) ?? null;
+    },
+
+    saveDay(ymd, raw) {
+      cache.set(ymd, raw);
+      enqueue((store) => store.put(raw, ymd), ymd);
+    },
+
+    removeDay(ymd) {
+      cache.delete(ymd);
+      enqueue((store) => store.delete(ymd), ymd);
+    },
+
+    listDays() {
+      return Array.from(cache.keys());
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    subscribeWriteErrors(listener) {
+      errorListeners.add(listener);
+      return () => errorListeners.delete(listener);
+    },
+
+    async flush() {
+      await pending;
+      const err = lastError;
+      lastError = null;
+      if (err) throw err;
+    },
+
+    close() {
+      unsubscribeBus();
+    },
+  };
+}
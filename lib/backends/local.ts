@@ -0,0 +1,83 @@
+/* lib/backends/local.ts
+ * 既存どおり localStorage に `achieve:day:YYYY-MM-DD` で保存する backend
+ * - 他タブへの通知は event-bus（storage イベントも day-saved に読み替える。重なった分は event-bus が1回にまとめる）
+ */
+
+import type { DayBackend, DayChangeListener } from "@/lib/backends/types";
+import { mapStorageKeyToBusEvent, publishBusEvent, subscribeBusEvents, type BusEvent } from "@/lib/event-bus";
+
+export function createLocalDayBackend(storage: Storage, keyPrefix: string): DayBackend {
+  const listeners = new Set<DayChangeListener>();
+  let detachBus: (() => void) | null = null;
+
+  function onBusEvent(e: BusEvent): void {
+    if (e.type === "day-saved") {
+      for (const l of listeners) l(e.ymd);
+    } else if (e.type === "days-changed") {
+      for (const l of listeners) l(null);
+    }
+  }
+
+  // clear() の場合は key が null
+  function mapStorageKey(key: string | null): BusEvent | null {
+    if (key === null) return { type: "days-changed" };
+    if (!key.startsWith(keyPrefix)) return null;
+    return { type: "day-saved", ymd: key.slice(keyPrefix.length) };
+  }
+
+  function attach(): () => void {
+    const unmap = mapStorageKeyToBusEvent(mapStorageKey);
+    const unsubscribe = subscribeBusEvents(onBusEvent);
+    return () => {
+      unmap();
+      unsubscribe();
+    };
+  }
+
+  return {
+    kind: "local",
+    encrypted: false,
+
+    loadDay(ymd) {
+      return storage.getItem(`${keyPrefix}${ymd}`);
+    },
+
+    saveDay(ymd, raw) {
+      storage.setItem(`${keyPrefix}${ymd}`, raw);
+      publishBusEvent({ type: "day-saved", ymd });
+    },
+
+    removeDay(ymd) {
+      storage.removeItem(`${keyPrefix}${ymd}`);
+      publishBusEvent({ type: "day-saved", ymd });
+    },
+
+    listDays() {
+      const out: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const k = storage.key(i);
+        if (!k || !k.startsWith(keyPrefix)) continue;
+        out.push(k.slice(keyPrefix.length));
+      }
+      return out;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      if (listeners.size === 1) detachBus = attach();
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && detachBus) {
+          detachBus();
+          detachBus = null;
+        }
+      };
+    },
+
+    subscribeWriteErrors() {
+      // setItem が同期で throw する（呼び出し側で扱う）
+      return () => {};
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/* lib/backends/migrate.ts
+ * localStorage → IndexedDB の一回きりの移行
+ * - IndexedDB への書き込み完了を確認してから localStorage のキーを消す
+ * - 完了後に STORAGE_BACKEND_KEY を切り替え、このタブの backend も差し替える
+ */
+
+import { openIndexedDbDayBackend, type IndexedDbDayBackend } from "@/lib/backends/indexeddb";
+import { isIndexedDbAvailable } from "@/lib/idb";
+import {
+  DAY_KEY_PREFIX,
+  STORAGE_BACKEND_KEY,
+  getDayBackendKind,
+  installDayBackend,
+  isDayEncryptionEnabled,
+  isYmdString,
+} from "@/lib/storage";
+
+export type MigrateResult = { ok: true; moved: number } | { ok: false; error: string };
+
+/**
+ * 暗号化モード中は移さない（暗号文をそのまま移すと解錠前の backend で開いてしまうため）
+ */
+export function canMigrateToIndexedDb(): boolean {
+  return isIndexedDbAvailable() && getDayBackendKind() === "local" && !isDayEncryptionEnabled();
+}
+
+export async function migrateLocalDaysToIndexedDb(): Promise<MigrateResult> {
+  if (!canMigrateToIndexedDb()) {
+    return { ok: false, error: "IndexedDB が使えないか、すでに移行済みです。" };
+  }
+
+  const storage = window.localStorage;
+
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const k = storage.key(i);
+    if (!k || !k.startsWith(DAY_KEY_PREFIX)) continue;
+    if (!isYmdString(k.slice(DAY_KEY_PREFIX.length))) continue;
+    keys.push(k);
+  }
+
+  let idb: IndexedDbDayBackend | null = null;
+  try {
+    idb = await openIndexedDbDayBackend();
+
+    for (const k of keys) {
+      const raw = storage.getItem(k);
+      if (raw === null) continue;
+      idb.saveDay(k.slice(DAY_KEY_PREFIX.length), raw);
+    }
+    await idb.flush();
+
+    for (const k of keys) storage.removeItem(k);
+    storage.setItem(STORAGE_BACKEND_KEY, "indexeddb");
+
+    installDayBackend(idb);
+    return { ok: true, moved: keys.length };
+  } catch (e: unknown) {
+    // 使わない backend は他タブの保存を読み直し続けないよう閉じる
+    idb?.close();
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, error: `移行に失敗しました（localStorage はそのまま残っています）：${msg}` };
+  }
+}
@@ -0,0 +1,35 @@
+/* lib/backends/types.ts
+ * 日別データ（AchieveDay）の保存先を差し替えるための adapter 定義
+ * - 値は JSON 文字列のまま扱う（正規化は storage.ts 側の責務）
+ * - 読み取りは同期（loadDay / useState 初期化子からそのまま呼べるように）
+ */
+
+export type DayBackendKind = "local" | "indexeddb";
+
+/**
+ * 外部（他タブなど）で変化があった ymd を通知
+ * - null は「どれが変わったか不明」（全体を再評価してほしい）
+ */
+export type DayChangeListener = (ymd: string | null) => void;
+
+/**
+ * 非同期の書き込み失敗（IndexedDB など）を通知
+ * - localStorage は saveDay が同期で throw するので通知しない
+ */
+export type DayWriteErrorListener = (ymd: string, error: unknown) => void;
+
+export type DayBackend = {
+  readonly kind: DayBackendKind;
+  // true = 暗号化モード（lib/backends/encrypted.ts）。loadDay は復号済みの平文を返す
+  readonly encrypted: boolean;
+
+  loadDay: (ymd: string) => string | null;
+  saveDay: (ymd: string, raw: string) => void;
+  removeDay: (ymd: string) => void;
+  listDays: () => string[];
+
+  subscribe: (listener: DayChangeListener) => () => void;
+  subscribeWriteErrors: (listener: DayWriteErrorListener) => () => void;
+  // 差し替えで使わなくなったときに、他タブの変更の購読などを外す（持たない backend もある）
+  close?: () => void;
+};
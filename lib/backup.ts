@@ -0,0 +1,394 @@
+/* lib/backup.ts
+ * 全日データ + タグ辞書 + テンプレートの JSON エクスポート/インポート
+ * - エクスポートは versioned envelope（format/version）で包む
+ * - インポートは normalizeDay/normalizeItem と同じガードで検証 → プレビュー → 書き込み
+ * - 任意でパスフレーズ暗号化した bundle（envelope の JSON を AES-GCM で包む）も扱う
+ */
+
+import { loadTagAliases, normalizeAliasKey, normalizeAliasValue, type TagAliases } from "@/lib/diary";
+import {
+  isYmdString,
+  loadDay,
+  normalizeDay,
+  saveDay,
+  scanDays,
+  type AchieveDay,
+  type AchieveItem,
+} from "@/lib/storage";
+import { saveTagAliasesAndNotify } from "@/lib/aliases-store";
+import { importTemplates, loadTemplates, missingTemplates, normalizeTemplates, type ItemTemplate } from "@/lib/templates";
+import {
+  PBKDF2_ITERATIONS,
+  SALT_BYTES,
+  base64ToBytes,
+  bytesToBase64,
+  decryptString,
+  deriveKeyFromPassphrase,
+  encryptString,
+  isCipherPayload,
+  randomBytes,
+  type CipherPayload,
+} from "@/lib/encryption/cipher";
+
+export const BACKUP_FORMAT = "achieve-diary-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupEnvelope = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO
+  days: AchieveDay[];
+  aliases: TagAliases;
+  templates: ItemTemplate[]; // 無い古いファイルは []
+};
+
+export const ENCRYPTED_BACKUP_FORMAT = "achieve-diary-backup-encrypted";
+
+/**
+ * 暗号化した書き出し（中身は BackupEnvelope の JSON）
+ * - 日記の暗号化モードとは別のパスフレーズでもよい（その場で鍵を導出する）
+ */
+export type EncryptedBackupBundle = {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: "PBKDF2-SHA256";
+  salt: string; // base64
+  iterations: number;
+  exportedAt: string; // ISO
+  payload: CipherPayload;
+};
+
+export type ParseBackupResult =
+  | { ok: true; envelope: BackupEnvelope; droppedDays: number; droppedItems: number }
+  | { ok: false; error: string };
+
+export type ImportDayStatus = "new" | "conflict" | "same";
+
+export type ImportDayPlan = {
+  ymd: string;
+  status: ImportDayStatus;
+  addedItems: AchieveItem[]; // 現在に無い id
+  mergedItems: AchieveItem[]; // 同じ id（現在の内容を維持）
+  textConflicts: number; // 同じ id で本文が異なる件数
+  moodConflict: boolean; // 両方設定済みで異なる（現在を維持）
+  memoConflict: boolean; // 両方入力済みで異なる（現在を維持）
+  next: AchieveDay; // 書き込み予定の内容
+};
+
+export type ImportPlan = {
+  days: ImportDayPlan[];
+  aliasesAdded: number;
+  aliasesConflicts: number;
+  nextAliases: TagAliases;
+  templatesAdded: ItemTemplate[]; // 現在に無い本文のテンプレート
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export function buildBackupEnvelope(storage: Storage): BackupEnvelope {
+  const entries = scanDays();
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: nowIso(),
+    days: entries.map((e) => e.day),
+    aliases: loadTagAliases(storage),
+    templates: loadTemplates(storage),
+  };
+}
+
+export async function encryptBackupEnvelope(
+  envelope: BackupEnvelope,
+  passphrase: string,
+): Promise<EncryptedBackupBundle> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: "PBKDF2-SHA256",
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    exportedAt: envelope.exportedAt,
+    payload: await encryptString(key, JSON.stringify(envelope)),
+  };
+}
+
+function parseEncryptedBundle(raw: string): EncryptedBackupBundle | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(parsed) || parsed.format !== ENCRYPTED_BACKUP_FORMAT) return null;
+  if (typeof parsed.salt !== "string" || typeof parsed.iterations !== "number") return null;
+  if (!isCipherPayload(parsed.payload)) return null;
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: "PBKDF2-SHA256",
+    salt: parsed.salt,
+    iterations: parsed.iterations,
+    exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+    payload: parsed.payload,
+  };
+}
+
+export function isEncryptedBackup(raw: string): boolean {
+  return parseEncryptedBundle(raw) !== null;
+}
+
+/**
+ * 暗号化 bundle を復号して parseBackup() に渡す
+ */
+export async function parseEncryptedBackup(raw: string, passphrase: string): Promise<ParseBackupResult> {
+  const bundle = parseEncryptedBundle(raw);
+  if (!bundle) return { ok: false, error: "暗号化バックアップの形式ではありません。" };
+
+  let json: string;
+  try {
+    const key = await deriveKeyFromPassphrase(passphrase, base64ToBytes(bundle.salt), bundle.iterations);
+    json = await decryptString(key, bundle.payload);
+  } catch {
+    return { ok: false, error: "パスフレーズが違うか、ファイルが壊れています。" };
+  }
+
+  return parseBackup(json);
+}
+
+export function backupFileName(date: Date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return `achieve-diary-${stamp}.json`;
+}
+
+function parseAliases(value: unknown): TagAliases {
+  if (!isRecord(value)) return {};
+
+  const out: TagAliases = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (typeof v !== "string") continue;
+    const nk = normalizeAliasKey(k);
+    const nv = normalizeAliasValue(v);
+    if (!nk || !nv) continue;
+    out[nk] = nv;
+  }
+  return out;
+}
+
+/**
+ * JSON 文字列を検証して envelope に戻す
+ * - 日付/項目は storage.ts の normalizeDay/normalizeItem と同じ基準で取捨
+ * - 捨てた件数は呼び出し側で表示できるように返す
+ */
+export function parseBackup(raw: string): ParseBackupResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    return { ok: false, error: "JSON として読み込めませんでした。" };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return { ok: false, error: "achieve-diary のバックアップ形式ではありません。" };
+  }
+
+  const version = typeof parsed.version === "number" ? parsed.version : 0;
+  if (version < 1 || version > BACKUP_VERSION) {
+    return { ok: false, error: `未対応のバージョンです（version: ${String(parsed.version)}）。` };
+  }
+
+  const daysRaw = Array.isArray(parsed.days) ? parsed.days : [];
+
+  let droppedDays = 0;
+  let droppedItems = 0;
+  const byYmd = new Map<string, AchieveDay>();
+
+  for (const d of daysRaw) {
+    const ymd = isRecord(d) && typeof d.ymd === "string" ? d.ymd : "";
+    if (!isYmdString(ymd) || byYmd.has(ymd)) {
+      droppedDays += 1;
+      continue;
+    }
+
+    const day = normalizeDay(ymd, d);
+    const rawItems = isRecord(d) && Array.isArray(d.items) ? d.items.length : 0;
+    droppedItems += rawItems - day.items.length;
+
+    byYmd.set(ymd, day);
+  }
+
+  const days = Array.from(byYmd.values()).sort((a, b) => b.ymd.localeCompare(a.ymd));
+
+  return {
+    ok: true,
+    envelope: {
+      format: BACKUP_FORMAT,
+      version,
+      exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+      days,
+      aliases: parseAliases(parsed.aliases),
+      templates: normalizeTemplates(parsed.templates),
+    },
+    droppedDays,
+    droppedItems,
+  };
+}
+
+/**
+ * 取り込む項目を差し込む（current の並びは手で並べ替えたものかもしれないので変えない）
+ * - 各項目は「それより古い最初の項目」の前へ（current が作成の新しい順なら、全体を並べ直したのと同じ）
+ */
+export function insertItemsNewestFirst(current: AchieveItem[], added: AchieveItem[]): AchieveItem[] {
+  const out = [...current];
+  for (const it of added) {
+    const at = out.findIndex((x) => x.createdAt < it.createdAt);
+    out.splice(at === -1 ? out.length : at, 0, it);
+  }
+  return out;
+}
+
+function planDay(incoming: AchieveDay, current: AchieveDay | null): ImportDayPlan {
+  if (!current) {
+    return {
+      ymd: incoming.ymd,
+      status: "new",
+      addedItems: incoming.items,
+      mergedItems: [],
+      textConflicts: 0,
+      moodConflict: false,
+      memoConflict: false,
+      next: incoming,
+    };
+  }
+
+  const currentById = new Map<string, AchieveItem>();
+  for (const it of current.items) currentById.set(it.id, it);
+
+  const addedItems: AchieveItem[] = [];
+  const mergedItems: AchieveItem[] = [];
+  let textConflicts = 0;
+
+  for (const it of incoming.items) {
+    const cur = currentById.get(it.id);
+    if (!cur) {
+      addedItems.push(it);
+      continue;
+    }
+    mergedItems.push(it);
+    if (cur.text !== it.text) textConflicts += 1;
+  }
+
+  const moodConflict = current.mood !== null && incoming.mood !== null && current.mood !== incoming.mood;
+  const memoConflict = current.memo !== "" && incoming.memo !== "" && current.memo !== incoming.memo;
+
+  const mood = current.mood ?? incoming.mood;
+  const memo = current.memo || incoming.memo;
+
+  const pinnedId = current.pinnedId ?? incoming.pinnedId;
+
+  const changed =
+    addedItems.length > 0 || mood !== current.mood || memo !== current.memo || pinnedId !== current.pinnedId;
+
+  return {
+    ymd: incoming.ymd,
+    status: changed || textConflicts > 0 || moodConflict || memoConflict ? "conflict" : "same",
+    addedItems,
+    mergedItems,
+    textConflicts,
+    moodConflict,
+    memoConflict,
+    next: {
+      ...current,
+      items: addedItems.length ? insertItemsNewestFirst(current.items, addedItems) : current.items,
+      mood,
+      memo,
+      pinnedId,
+    },
+  };
+}
+
+/**
+ * 取り込み前のプレビュー（書き込みはしない）
+ * - 現在に無い日は new、ある日は id 単位でマージ（同じ id は現在を維持）
+ * - 辞書は現在に無い key だけ追加（同じ key で値が違うものは現在を維持）
+ * - テンプレートは現在に無い本文だけ追加
+ */
+export function buildImportPlan(envelope: BackupEnvelope, storage: Storage): ImportPlan {
+  const current = new Map<string, AchieveDay>();
+  for (const e of scanDays()) current.set(e.ymd, e.day);
+
+  const days = envelope.days.map((d) => planDay(d, current.get(d.ymd) ?? null));
+
+  const currentAliases = loadTagAliases(storage);
+  const nextAliases: TagAliases = { ...currentAliases };
+  let aliasesAdded = 0;
+  let aliasesConflicts = 0;
+
+  for (const [k, v] of Object.entries(envelope.aliases)) {
+    const cur = currentAliases[k];
+    if (cur === undefined) {
+      nextAliases[k] = v;
+      aliasesAdded += 1;
+    } else if (cur !== v) {
+      aliasesConflicts += 1;
+    }
+  }
+
+  const templatesAdded = missingTemplates(loadTemplates(storage), envelope.templates);
+
+  return { days, aliasesAdded, aliasesConflicts, nextAliases, templatesAdded };
+}
+
+/**
+ * プレビュー済みの plan を書き込む（saveDay / saveTagAliasesAndNotify / importTemplates 経由）
+ * - 書き込む直前に最新を読み直し、その間に増えた項目を消さない
+ */
+export function applyImportPlan(
+  plan: ImportPlan,
+  storage: Storage,
+): { savedDays: number; failedDays: string[] } {
+  let savedDays = 0;
+  const failedDays: string[] = [];
+
+  for (const p of plan.days) {
+    if (p.status === "same") continue;
+
+    const latest = loadDay(p.ymd);
+    const known = new Set(latest.items.map((it) => it.id));
+    const extra = p.next.items.filter((it) => !known.has(it.id));
+    const extraIds = new Set(extra.map((it) => it.id));
+
+    const res = saveDay({
+      ...p.next,
+      items: extra.length ? insertItemsNewestFirst(latest.items, extra) : latest.items,
+      mood: latest.mood ?? p.next.mood,
+      memo: latest.memo || p.next.memo,
+      pinnedId: latest.pinnedId ?? p.next.pinnedId,
+      // 取り込みで戻した項目は削除の墓標から外す（他タブとのマージで消えないように）
+      deleted: latest.deleted.filter((t) => !extraIds.has(t.id)),
+    });
+    if (res.ok) savedDays += 1;
+    else failedDays.push(p.ymd);
+  }
+
+  if (plan.aliasesAdded > 0) {
+    saveTagAliasesAndNotify(storage, plan.nextAliases);
+  }
+
+  if (plan.templatesAdded.length > 0) {
+    importTemplates(storage, plan.templatesAdded);
+  }
+
+  return { savedDays, failedDays };
+}
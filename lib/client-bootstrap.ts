@@ -0,0 +1,34 @@
+/* lib/client-bootstrap.ts
+ * 画面（Client）の初回描画前に済ませておきたい準備をまとめる
+ * - 各 *ClientOnly.tsx の dynamic import 内で await する
+ */
+
+import { ensureDayBackendReady } from "@/lib/storage";
+import { scheduleDaySchemaUpgrade } from "@/lib/schema/upgrade-pass";
+import { runIdle } from "@/lib/client-scheduler";
+import { purgeExpiredTrash } from "@/lib/trash";
+import { scheduleAutoSnapshots } from "@/lib/snapshots/auto";
+import { startSync } from "@/lib/sync/engine";
+import { startSearchIndex } from "@/lib/search/store";
+
+export async function prepareClient(): Promise<void> {
+  // loadDay / useDaysData が同期で読めるよう、保存先を先に開いておく
+  await ensureDayBackendReady();
+
+  // 古い schemaVersion の日は idle で少しずつ書き換える（描画は待たない）
+  scheduleDaySchemaUpgrade();
+
+  // 保持日数を過ぎたゴミ箱の項目を消す
+  runIdle(() => {
+    purgeExpiredTrash(window.localStorage);
+  });
+
+  // 1日1回・連続保存の後に全体のスナップショットを撮る（ロック中は解錠後に改めて）
+  scheduleAutoSnapshots();
+
+  // 同期を有効にしていれば、保存の送信待ちと取得を始める
+  startSync();
+
+  // History の検索インデックスを読み込み、以後は保存のたびに1日分ずつ更新する
+  startSearchIndex();
+}
@@ -0,0 +1,95 @@
+/* lib/date.test.ts */
+import { describe, expect, it } from "vitest";
+import { addDaysToYmd, dayStartOf, dayTimeOf, formatYmd, msUntilNextDay } from "@/lib/date";
+import type { DateSettings } from "@/lib/prefs/date-settings";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// America/New_York：2025-03-09 2:00 EST → 3:00 EDT（1時間飛ぶ）、2025-11-02 2:00 EDT → 1:00 EST（1時間戻る）
+const NY_4: DateSettings = { timeZone: "America/New_York", dayStartHour: 4 };
+const NY_2: DateSettings = { timeZone: "America/New_York", dayStartHour: 2 };
+const NY_1: DateSettings = { timeZone: "America/New_York", dayStartHour: 1 };
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe("夏時間の開始（America/New_York 2025-03-09）", () => {
+  it("区切りの 4:00 は切り替わりの前後でずれが変わる", () => {
+    expect(dayStartOf("2025-03-08", NY_4).toISOString()).toBe("2025-03-08T09:00:00.000Z"); // 4:00 EST
+    expect(dayStartOf("2025-03-09", NY_4).toISOString()).toBe("2025-03-09T08:00:00.000Z"); // 4:00 EDT
+  });
+
+  it("区切りの直前は前日、区切りからはその日", () => {
+    expect(formatYmd(at("2025-03-09T06:59:59Z"), NY_4)).toBe("2025-03-08"); // 1:59 EST
+    expect(formatYmd(at("2025-03-09T07:00:00Z"), NY_4)).toBe("2025-03-08"); // 3:00 EDT
+    expect(formatYmd(at("2025-03-09T07:59:59Z"), NY_4)).toBe("2025-03-08"); // 3:59 EDT
+    expect(formatYmd(at("2025-03-09T08:00:00Z"), NY_4)).toBe("2025-03-09"); // 4:00 EDT
+  });
+
+  it("区切りの時刻が無い日は時計が飛んだ直後から始まる", () => {
+    expect(dayStartOf("2025-03-09", NY_2).toISOString()).toBe("2025-03-09T07:00:00.000Z"); // 3:00 EDT
+    expect(formatYmd(at("2025-03-09T06:59:59Z"), NY_2)).toBe("2025-03-08"); // 1:59 EST
+    expect(formatYmd(at("2025-03-09T07:00:00Z"), NY_2)).toBe("2025-03-09");
+  });
+
+  it("日替わりまでの時間は 23 時間の日に合わせる", () => {
+    expect(msUntilNextDay(dayStartOf("2025-03-08", NY_4), NY_4)).toBe(23 * HOUR_MS);
+    expect(msUntilNextDay(at("2025-03-09T06:30:00Z"), NY_4)).toBe(1.5 * HOUR_MS); // 1:30 EST → 4:00 EDT
+    expect(msUntilNextDay(at("2025-03-09T06:30:00Z"), NY_2)).toBe(0.5 * HOUR_MS); // 1:30 EST → 3:00 EDT
+  });
+
+  it("区切りより前の時刻は暦の上で翌日の壁時計", () => {
+    expect(dayTimeOf("2025-03-08", "01:30", NY_4).toISOString()).toBe("2025-03-09T06:30:00.000Z");
+    expect(dayTimeOf("2025-03-08", "03:30", NY_4).toISOString()).toBe("2025-03-09T07:30:00.000Z");
+  });
+});
+
+describe("夏時間の終了（America/New_York 2025-11-02）", () => {
+  it("区切りの 4:00 は切り替わりの前後でずれが変わる", () => {
+    expect(dayStartOf("2025-11-01", NY_4).toISOString()).toBe("2025-11-01T08:00:00.000Z"); // 4:00 EDT
+    expect(dayStartOf("2025-11-02", NY_4).toISOString()).toBe("2025-11-02T09:00:00.000Z"); // 4:00 EST
+  });
+
+  it("区切りの直前は前日、区切りからはその日", () => {
+    expect(formatYmd(at("2025-11-02T05:30:00Z"), NY_4)).toBe("2025-11-01"); // 1:30 EDT
+    expect(formatYmd(at("2025-11-02T06:30:00Z"), NY_4)).toBe("2025-11-01"); // 1:30 EST
+    expect(formatYmd(at("2025-11-02T08:59:59Z"), NY_4)).toBe("2025-11-01"); // 3:59 EST
+    expect(formatYmd(at("2025-11-02T09:00:00Z"), NY_4)).toBe("2025-11-02"); // 4:00 EST
+  });
+
+  it("区切りの時刻が2回ある日は1回目から始まり、2回目で前日に戻らない", () => {
+    expect(dayStartOf("2025-11-02", NY_1).toISOString()).toBe("2025-11-02T05:00:00.000Z"); // 1:00 EDT
+    expect(formatYmd(at("2025-11-02T04:59:59Z"), NY_1)).toBe("2025-11-01"); // 0:59 EDT
+    expect(formatYmd(at("2025-11-02T05:00:00Z"), NY_1)).toBe("2025-11-02"); // 1:00 EDT
+    expect(formatYmd(at("2025-11-02T06:00:00Z"), NY_1)).toBe("2025-11-02"); // 1:00 EST
+  });
+
+  it("日替わりまでの時間は 25 時間の日に合わせる", () => {
+    expect(msUntilNextDay(dayStartOf("2025-11-01", NY_4), NY_4)).toBe(25 * HOUR_MS);
+    expect(msUntilNextDay(at("2025-11-02T05:30:00Z"), NY_4)).toBe(3.5 * HOUR_MS); // 1:30 EDT → 4:00 EST
+    expect(msUntilNextDay(at("2025-11-02T06:30:00Z"), NY_4)).toBe(2.5 * HOUR_MS); // 1:30 EST → 4:00 EST
+  });
+});
+
+describe.each([
+  ["dayStartHour 4", NY_4],
+  ["dayStartHour 2", NY_2],
+  ["dayStartHour 1", NY_1],
+])("ymd の往復（America/New_York, %s）", (_, settings) => {
+  const ymds = [
+    ...Array.from({ length: 7 }, (_, i) => addDaysToYmd("2025-03-06", i)),
+    ...Array.from({ length: 7 }, (_, i) => addDaysToYmd("2025-10-30", i)),
+  ];
+
+  it.each(ymds)("%s", (ymd) => {
+    const start = dayStartOf(ymd, settings);
+    const next = dayStartOf(addDaysToYmd(ymd, 1), settings);
+
+    expect(formatYmd(start, settings)).toBe(ymd);
+    expect(formatYmd(new Date(start.getTime() - 1), settings)).toBe(addDaysToYmd(ymd, -1));
+    expect(formatYmd(new Date(next.getTime() - 1), settings)).toBe(ymd);
+    expect(msUntilNextDay(start, settings)).toBe(next.getTime() - start.getTime());
+    expect(addDaysToYmd(addDaysToYmd(ymd, 5), -5)).toBe(ymd);
+  });
+});
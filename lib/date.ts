@@ -0,0 +1,158 @@
+/* lib/date.ts
+ * 日付・時刻の計算と表示（記録の ymd を作るのはすべてここ経由）
+ * - その日の ymd = 設定のタイムゾーンの壁時計から dayStartHour 時間を引いた日付（4 なら 1:00 の記録は前日）
+ * - 夏時間のあるタイムゾーンでも壁時計（Intl の formatToParts）で計算する
+ *   - 区切りの時刻が無い日（夏時間の開始）は時計が飛んだ直後、2回ある日（終了）は1回目を区切りにする
+ * - settings を省略すると保存済みの設定（lib/prefs/date-settings.ts）を使う
+ */
+
+import { getDateSettings, type DateSettings } from "@/lib/prefs/date-settings";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+const wallFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = wallFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    wallFormatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+function wallClockOf(t: number, timeZone: string): WallClock {
+  const out: WallClock = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0 };
+  for (const p of wallFormatter(timeZone).formatToParts(new Date(t))) {
+    if (p.type === "year" || p.type === "month" || p.type === "day" || p.type === "minute" || p.type === "second") {
+      out[p.type] = Number(p.value);
+    } else if (p.type === "hour") {
+      out.hour = Number(p.value) % 24;
+    }
+  }
+  return out;
+}
+
+// 壁時計をそのまま UTC として読んだ ms（差を取ればタイムゾーンのずれになる）
+function wallMs(w: WallClock): number {
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+}
+
+function offsetAt(t: number, timeZone: string): number {
+  const sec = Math.floor(t / 1000) * 1000;
+  return wallMs(wallClockOf(sec, timeZone)) - sec;
+}
+
+function ymdOfUtc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function parseYmd(ymd: string): { y: number; m: number; d: number } {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return { y: y ?? 1970, m: m ?? 1, d: d ?? 1 };
+}
+
+/**
+ * ymd の hour:minute（設定のタイムゾーンの壁時計）が指す時刻
+ */
+function zonedWallToInstant(ymd: string, hour: number, minute: number, timeZone: string): number {
+  const { y, m, d } = parseYmd(ymd);
+  const wall = Date.UTC(y, m - 1, d, hour, minute);
+
+  // 前後1日のずれで候補を作る（切り替わりは2日のうちに2回は起きない）
+  const candidates = [wall - offsetAt(wall - DAY_MS, timeZone), wall - offsetAt(wall + DAY_MS, timeZone)];
+  const valid = candidates.filter((t) => wallMs(wallClockOf(t, timeZone)) === wall);
+  if (valid.length) return Math.min(...valid);
+
+  // その壁時計が存在しない（夏時間の開始で飛ばされた）→ 時計が飛んだ直後（切り替わる前のずれで計算した方）
+  return Math.max(...candidates);
+}
+
+export function formatYmd(date: Date = new Date(), settings: DateSettings = getDateSettings()): string {
+  // "YYYY-MM-DD"（1日の始まりの時より前は前日）
+  const w = wallClockOf(date.getTime(), settings.timeZone);
+  return ymdOfUtc(wallMs(w) - settings.dayStartHour * HOUR_MS);
+}
+
+export function formatTime(date: Date, settings: DateSettings = getDateSettings()): string {
+  // "HH:mm"（壁時計そのまま）
+  const w = wallClockOf(date.getTime(), settings.timeZone);
+  return `${String(w.hour).padStart(2, "0")}:${String(w.minute).padStart(2, "0")}`;
+}
+
+export function formatDateTime(
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  settings: DateSettings = getDateSettings(),
+): string {
+  // 画面の日時表示（ja-JP、設定のタイムゾーン）
+  return date.toLocaleString("ja-JP", { ...options, timeZone: settings.timeZone });
+}
+
+export function formatLongYmd(ymd: string): string {
+  // 例: "2026年2月5日(木)"（暦の上の日付なのでタイムゾーンに依らない）
+  const { y, m, d } = parseYmd(ymd);
+  return new Intl.DateTimeFormat("ja-JP", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+  }).format(new Date(Date.UTC(y, m - 1, d)));
+}
+
+export function addDaysToYmd(ymd: string, days: number): string {
+  // "YYYY-MM-DD" の前後の日（暦の上だけで計算）
+  const { y, m, d } = parseYmd(ymd);
+  return ymdOfUtc(Date.UTC(y, m - 1, d + days));
+}
+
+export function weekdayOfYmd(ymd: string): number {
+  // 0 = 日曜 … 6 = 土曜（暦の上の曜日）
+  const { y, m, d } = parseYmd(ymd);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * 今日までの直近 n 日（古い順）
+ */
+export function lastNYmds(n: number, now: Date = new Date(), settings: DateSettings = getDateSettings()): string[] {
+  const today = formatYmd(now, settings);
+  const out: string[] = [];
+  for (let i = n - 1; i >= 0; i--) out.push(addDaysToYmd(today, -i));
+  return out;
+}
+
+/**
+ * その日が始まる時刻（dayStartHour:00 の壁時計）
+ */
+export function dayStartOf(ymd: string, settings: DateSettings = getDateSettings()): Date {
+  return new Date(zonedWallToInstant(ymd, settings.dayStartHour, 0, settings.timeZone));
+}
+
+/**
+ * その日の "HH:mm"（1日の始まりの時より前なら暦の上では翌日の時刻）
+ */
+export function dayTimeOf(ymd: string, time: string, settings: DateSettings = getDateSettings()): Date {
+  const [h, m] = time.split(":").map(Number);
+  const hour = h ?? 0;
+  const calendarYmd = hour < settings.dayStartHour ? addDaysToYmd(ymd, 1) : ymd;
+  return new Date(zonedWallToInstant(calendarYmd, hour, m ?? 0, settings.timeZone));
+}
+
+export function msUntilNextDay(now: Date = new Date(), settings: DateSettings = getDateSettings()): number {
+  const next = dayStartOf(addDaysToYmd(formatYmd(now, settings), 1), settings);
+  return next.getTime() - now.getTime();
+}
@@ -0,0 +1,65 @@
+/* lib/day-boundary.ts
+ * 日付の変わり目を知らせる（Today の日付切り替え用）
+ * - 次の1日の始まり（設定のタイムゾーン・dayStartHour）に合わせた timer で確かめる
+ *   （スリープ中は timer が遅れるので、復帰時の visibility / focus でも確かめる）
+ * - 日付の設定が変わったときも確かめて、timer を掛け直す
+ * - 変わったときだけ listener を呼ぶ（同じ日のうちは何もしない）
+ */
+
+import { formatYmd, msUntilNextDay } from "@/lib/date";
+import { subscribeDateSettings } from "@/lib/prefs/date-settings";
+
+// 区切りちょうどに起きると丸めで前日のままのことがあるので、少し後ろにずらす
+const BOUNDARY_MARGIN_MS = 1000;
+
+/**
+ * since（画面が表示している「今日」）から日付が変わったら listener(新しい ymd) を呼ぶ
+ */
+export function watchDay(since: string, listener: (ymd: string) => void): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  let current = since;
+  let timer: number | null = null;
+
+  function check(): void {
+    const next = formatYmd();
+    if (next === current) return;
+    current = next;
+    listener(next);
+  }
+
+  function schedule(): void {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = window.setTimeout(() => {
+      timer = null;
+      check();
+      schedule();
+    }, msUntilNextDay() + BOUNDARY_MARGIN_MS);
+  }
+
+  function onWake(): void {
+    if (document.visibilityState !== "visible") return;
+    check();
+    schedule();
+  }
+
+  function onSettingsChange(): void {
+    check();
+    schedule();
+  }
+
+  window.addEventListener("focus", onWake);
+  document.addEventListener("visibilitychange", onWake);
+  const unsubscribeSettings = subscribeDateSettings(onSettingsChange);
+
+  // 描画から購読までの間に日付が変わっていた場合も拾う
+  check();
+  schedule();
+
+  return () => {
+    if (timer !== null) window.clearTimeout(timer);
+    window.removeEventListener("focus", onWake);
+    document.removeEventListener("visibilitychange", onWake);
+    unsubscribeSettings();
+  };
+}
@@ -0,0 +1,141 @@
+/* lib/day-merge.ts
+ * 同じ日を別タブ（別端末）でも編集したときのマージ
+ * - item は id 単位。両方にあれば updatedAt の新しい方、削除は墓標（deleted）で伝える
+ * - 並びは並べ替えた側に合わせる（片側にしかない item は元の位置あたりへ差し込む）
+ * - mood / memo / pinnedId は base（読み込んだ時点）から変えた側を採る（両方変えたら local）
+ * - commitDay() は saveDay の conflict を受けたらマージして保存し直す
+ */
+
+import {
+  loadDay,
+  saveDay,
+  type AchieveDay,
+  type AchieveItem,
+  type DayTombstone,
+  type SaveDayFailureReason,
+} from "@/lib/storage";
+
+export type CommitDayResult = { ok: true; day: AchieveDay } | { ok: false; reason: SaveDayFailureReason };
+
+// 保存は同期なので通常は1回のマージで足りる（念のための上限）
+const MAX_COMMIT_ATTEMPTS = 3;
+
+function mergeTombstones(a: DayTombstone[], b: DayTombstone[]): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const t of [...a, ...b]) {
+    const cur = out.get(t.id);
+    if (!cur || t.deletedAt > cur) out.set(t.id, t.deletedAt);
+  }
+  return out;
+}
+
+function sameOrder(a: AchieveItem[], b: AchieveItem[]): boolean {
+  const ids = new Set(b.map((it) => it.id));
+  const left = a.filter((it) => ids.has(it.id)).map((it) => it.id);
+
+  const leftIds = new Set(left);
+  const right = b.filter((it) => leftIds.has(it.id)).map((it) => it.id);
+
+  return left.every((id, i) => right[i] === id);
+}
+
+/**
+ * 片側にしかない item を残すか
+ * - base にあって相手側から消えていて、こちらで手を入れていないなら “相手が消した” とみなす
+ */
+function keepsOneSided(item: AchieveItem, baseItems: Map<string, AchieveItem> | null): boolean {
+  const b = baseItems?.get(item.id);
+  if (!b) return true;
+  return item.updatedAt !== b.updatedAt || item.text !== b.text;
+}
+
+/**
+ * base = local を編集し始めた時点の保存内容（分からなければ null）
+ * - local を base から変えていなければ、結果は remote と同じ内容になる
+ */
+export function mergeDays(base: AchieveDay | null, local: AchieveDay, remote: AchieveDay): AchieveDay {
+  const baseItems = base ? new Map(base.items.map((it) => [it.id, it])) : null;
+  const localById = new Map(local.items.map((it) => [it.id, it]));
+  const remoteById = new Map(remote.items.map((it) => [it.id, it]));
+
+  const pick = (id: string): AchieveItem | null => {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    if (l && r) return l.updatedAt > r.updatedAt ? l : r;
+    if (l) return keepsOneSided(l, baseItems) ? l : null;
+    if (r) return keepsOneSided(r, baseItems) ? r : null;
+    return null;
+  };
+
+  const tombstones = mergeTombstones(local.deleted, remote.deleted);
+  const alive = (item: AchieveItem): boolean => {
+    const deletedAt = tombstones.get(item.id);
+    // 消した後に編集（ゴミ箱から戻す等）されたものは生き返らせる
+    return deletedAt === undefined || item.updatedAt > deletedAt;
+  };
+
+  // 並びは “並べ替えた側” に合わせる（どちらも触っていなければ remote）
+  const localReordered = base ? !sameOrder(base.items, local.items) : true;
+  const primary = localReordered ? local.items : remote.items;
+  const secondary = localReordered ? remote.items : local.items;
+
+  const items: AchieveItem[] = [];
+  const seen = new Set<string>();
+
+  for (const it of primary) {
+    const chosen = pick(it.id);
+    seen.add(it.id);
+    if (chosen && alive(chosen)) items.push(chosen);
+  }
+
+  secondary.forEach((it, index) => {
+    if (seen.has(it.id)) return;
+    seen.add(it.id);
+
+    const chosen = pick(it.id);
+    if (!chosen || !alive(chosen)) return;
+    items.splice(Math.min(index, items.length), 0, chosen);
+  });
+
+  const aliveIds = new Set(items.map((it) => it.id));
+  const deleted: DayTombstone[] = [...tombstones]
+    .filter(([id]) => !aliveIds.has(id))
+    .map(([id, deletedAt]) => ({ id, deletedAt }));
+
+  const changed = <K extends "mood" | "memo" | "pinnedId">(key: K): boolean => !base || local[key] !== base[key];
+  const pinnedId = changed("pinnedId") ? local.pinnedId : remote.pinnedId;
+
+  return {
+    ymd: remote.ymd,
+    items,
+    mood: changed("mood") ? local.mood : remote.mood,
+    memo: changed("memo") ? local.memo : remote.memo,
+    pinnedId: pinnedId !== null && aliveIds.has(pinnedId) ? pinnedId : null,
+    deleted,
+    updatedAt: remote.updatedAt,
+    schemaVersion: remote.schemaVersion,
+  };
+}
+
+/**
+ * base から編集した next を保存する（間に他タブの保存があればマージして保存し直す）
+ * - 成功時は保存後の内容（次の base）を返す
+ */
+export function commitDay(base: AchieveDay | null, next: AchieveDay): CommitDayResult {
+  let candidate = next;
+  let expected = base?.updatedAt;
+  let mergeBase = base;
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const res = saveDay(candidate, expected === undefined ? {} : { expectedUpdatedAt: expected });
+
+    if (res.ok) return { ok: true, day: loadDay(next.ymd) };
+    if (res.reason !== "conflict") return { ok: false, reason: res.reason };
+
+    candidate = mergeDays(mergeBase, candidate, res.current);
+    mergeBase = res.current;
+    expected = res.current.updatedAt;
+  }
+
+  return { ok: false, reason: "unavailable" };
+}
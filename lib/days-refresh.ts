@@ -3,7 +3,7 @@ import { runIdle, type CancelFn } from "@/lib/client-scheduler";
 import { loadDaysIfNeeded } from "@/lib/days-store";
 
 export type DaysRefreshRequest = {
-  force?: boolean;
+  force?: boolean; // true: 間引きしない（読み直すのは変わった日だけなので保存のたびに呼んでよい）
   immediate?: boolean; // true: 同期で実行（クリックなど）
   throttleMs?: number; // デフォルト 500ms
 };
@@ -25,13 +25,13 @@ export function requestDaysRefresh(req?: DaysRefreshRequest): void {
   if (jobCancel) return;
 
   if (immediate) {
-    loadDaysIfNeeded({ force });
+    loadDaysIfNeeded();
     return;
   }
 
   jobCancel = runIdle(() => {
     jobCancel = null;
-    loadDaysIfNeeded({ force });
+    loadDaysIfNeeded();
   });
 }
 
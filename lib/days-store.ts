@@ -1,13 +1,17 @@
 /* lib/days-store.ts
  * DayEntry をキャッシュして subscribe/snapshot を提供（useSyncExternalStore向け）
  * refresh/idle/間引き/二重予約防止は lib/days-refresh.ts に委譲
+ * - 変わった日（変更通知の ymd）だけ読み直して cache を差し替える
+ * - 他タブの保存（backend 経由の event-bus 通知）はフォーカスを待たず idle で反映する
+ * - 中身の変わらない日は同じ DayEntry を使い回す（下流の useMemo が再計算しないように）
  */
 
+import { runIdle, type CancelFn } from "@/lib/client-scheduler";
 import {
-  DAY_KEY_PREFIX,
-  META_UPDATED_AT_KEY,
-  isYmdString,
-  scanDaysFromStorage,
+  getDayBackend,
+  listDayYmds,
+  parseDayRecord,
+  subscribeExternalDayChanges,
   subscribeStorageMutations,
   type DayEntry,
 } from "@/lib/storage";
@@ -21,17 +25,19 @@ const EMPTY_ENTRIES: DayEntry[] = [];
 let loaded = false;
 let cache: DayEntry[] = EMPTY_ENTRIES;
 
-// 鮮度管理
-let stamp = "";
-let keyCount = 0;
-let maxYmd = "";
+// ymd → 読み込んだときの生 JSON / DayEntry（生 JSON が同じなら parse せず使い回す）
+let raws = new Map<string, string>();
+let entriesByYmd = new Map<string, DayEntry>();
 
-// 何らかの変化があった（次回refreshで再評価したい）
-let dirty = true;
+// 次回 refresh で読み直したい日（全体が不明なら dirtyAll）
+let dirtyAll = true;
+const dirtyYmds = new Set<string>();
 
 // 外部イベント購読（参照カウント）
 let refCount = 0;
 let detachStorageMutation: (() => void) | null = null;
+let detachExternalDays: (() => void) | null = null;
+let externalReloadCancel: CancelFn | null = null;
 
 function isBrowser(): boolean {
   return typeof window !== "undefined" && typeof window.localStorage !== "undefined";
@@ -41,80 +47,128 @@ function emitChange(): void {
   for (const l of listeners) l();
 }
 
-function readStamp(storage: Storage): string {
-  return storage.getItem(META_UPDATED_AT_KEY) ?? "";
+function markDirty(ymd: string | null): void {
+  if (ymd === null) dirtyAll = true;
+  else dirtyYmds.add(ymd);
 }
 
-function computeKeyStats(storage: Storage): { count: number; max: string } {
-  let count = 0;
-  let max = "";
-
-  for (let i = 0; i < storage.length; i++) {
-    const k = storage.key(i);
-    if (!k || !k.startsWith(DAY_KEY_PREFIX)) continue;
-
-    const ymd = k.slice(DAY_KEY_PREFIX.length);
-    if (!isYmdString(ymd)) continue;
+function byYmdDesc(a: DayEntry, b: DayEntry): number {
+  return b.ymd.localeCompare(a.ymd);
+}
 
-    count += 1;
-    if (ymd.localeCompare(max) > 0) max = ymd;
-  }
+/**
+ * 1日分を読み直す（保存されていなければ null）
+ */
+function readEntry(ymd: string): { raw: string; entry: DayEntry } | null {
+  const raw = getDayBackend()?.loadDay(ymd);
+  if (!raw) return null;
 
-  return { count, max };
+  const prev = entriesByYmd.get(ymd);
+  if (prev && raws.get(ymd) === raw) return { raw, entry: prev };
+  return { raw, entry: { ymd, day: parseDayRecord(ymd, raw) } };
 }
 
-function shouldRescan(storage: Storage): boolean {
-  if (!loaded) return true;
-  if (dirty) return true;
-
-  const nextStamp = readStamp(storage);
-  if (nextStamp !== stamp) return true;
+/**
+ * 全日を読み直す（backend の差し替え・他タブの clear() など、どの日が変わったか分からないとき）
+ */
+function rescan(): void {
+  const nextRaws = new Map<string, string>();
+  const nextEntries = new Map<string, DayEntry>();
+  const next: DayEntry[] = [];
+
+  for (const ymd of listDayYmds()) {
+    const read = readEntry(ymd);
+    if (!read) continue;
+    nextRaws.set(ymd, read.raw);
+    nextEntries.set(ymd, read.entry);
+    next.push(read.entry);
+  }
+  next.sort(byYmdDesc);
 
-  // Todayが saveDay を通さず META を更新しない場合などは key統計で救う
-  const stats = computeKeyStats(storage);
-  if (stats.count !== keyCount) return true;
-  if (stats.max !== maxYmd) return true;
+  const same = next.length === cache.length && next.every((e, i) => e === cache[i]);
+  if (!same) cache = next.length ? next : EMPTY_ENTRIES;
 
-  return false;
+  raws = nextRaws;
+  entriesByYmd = nextEntries;
+  loaded = true;
+  dirtyAll = false;
+  dirtyYmds.clear();
 }
 
-function rescan(storage: Storage): void {
-  const next = scanDaysFromStorage(storage);
-
-  cache = next.length ? next : EMPTY_ENTRIES;
-  loaded = true;
+/**
+ * 変わった日だけ差し替える（それ以外の DayEntry は参照ごと維持）
+ */
+function patch(ymds: string[]): void {
+  let added = false;
+  let changed = false;
+
+  for (const ymd of ymds) {
+    const read = readEntry(ymd);
+    const prev = entriesByYmd.get(ymd);
+
+    if (!read) {
+      if (!prev) continue;
+      raws.delete(ymd);
+      entriesByYmd.delete(ymd);
+      changed = true;
+      continue;
+    }
+
+    raws.set(ymd, read.raw);
+    if (read.entry === prev) continue;
+
+    entriesByYmd.set(ymd, read.entry);
+    if (!prev) added = true;
+    changed = true;
+  }
 
-  stamp = readStamp(storage);
-  const stats = computeKeyStats(storage);
-  keyCount = stats.count;
-  maxYmd = stats.max;
+  if (changed) {
+    const next = cache.filter((e) => entriesByYmd.has(e.ymd)).map((e) => entriesByYmd.get(e.ymd) ?? e);
+    if (added) {
+      const known = new Set(next.map((e) => e.ymd));
+      for (const e of entriesByYmd.values()) if (!known.has(e.ymd)) next.push(e);
+      next.sort(byYmdDesc);
+    }
+    cache = next.length ? next : EMPTY_ENTRIES;
+  }
 
-  dirty = false;
+  dirtyYmds.clear();
 }
 
-function onStorageEvent(e: StorageEvent): void {
-  const k = e.key ?? "";
-  if (k === META_UPDATED_AT_KEY || k.startsWith(DAY_KEY_PREFIX)) {
-    dirty = true;
-  }
+function onExternalDayChange(ymd: string | null): void {
+  markDirty(ymd);
+
+  // 続けて届いた通知は1回の読み直しにまとめる
+  if (externalReloadCancel) return;
+  externalReloadCancel = runIdle(() => {
+    externalReloadCancel = null;
+    loadDaysIfNeeded();
+  });
 }
 
 function attachExternal(): void {
   if (!isBrowser()) return;
 
-  window.addEventListener("storage", onStorageEvent);
-  detachStorageMutation = subscribeStorageMutations(() => {
-    // 同一タブ内の saveDay 通知
-    dirty = true;
-  });
+  // 購読していない間の変更は追えていないので、次回は全体を見直す
+  dirtyAll = true;
+
+  // 他タブの day 更新（保存先 backend 経由：localStorage / IndexedDB どちらでも）
+  detachExternalDays = subscribeExternalDayChanges(onExternalDayChange);
+  // 同一タブ内の saveDay などの通知
+  detachStorageMutation = subscribeStorageMutations(markDirty);
 }
 
 function detachExternal(): void {
   if (!isBrowser()) return;
 
-  window.removeEventListener("storage", onStorageEvent);
+  if (externalReloadCancel) externalReloadCancel();
+  externalReloadCancel = null;
+
   if (detachStorageMutation) detachStorageMutation();
   detachStorageMutation = null;
+
+  if (detachExternalDays) detachExternalDays();
+  detachExternalDays = null;
 }
 
 /**
@@ -142,22 +196,21 @@ export function subscribeDays(listener: Listener): () => void {
 }
 
 /**
- * 必要なら再走査して cache を更新し、更新があれば購読者に通知する
+ * 変わった日があれば cache に反映し、更新があれば購読者に通知する
  * - days-refresh から呼ばれる想定
+ * - full: 変更通知に依らず全日を見直す（手動の再読み込み用。変わらない日は使い回す）
  */
-export function loadDaysIfNeeded(opts?: { force?: boolean }): DayEntry[] {
+export function loadDaysIfNeeded(opts?: { full?: boolean }): DayEntry[] {
   if (!isBrowser()) return EMPTY_ENTRIES;
 
-  const storage = window.localStorage;
-  const force = opts?.force ?? false;
-
-  const need = force ? true : shouldRescan(storage);
-  if (!need) return cache;
+  const full = opts?.full ?? false;
+  if (loaded && !full && !dirtyAll && dirtyYmds.size === 0) return cache;
 
   const prev = cache;
   const prevLoaded = loaded;
 
-  rescan(storage);
+  if (!loaded || full || dirtyAll) rescan();
+  else patch(Array.from(dirtyYmds));
 
   // ロード状態 or 参照が変わったら通知
   if (!prevLoaded || prev !== cache) {
@@ -168,8 +221,8 @@ export function loadDaysIfNeeded(opts?: { force?: boolean }): DayEntry[] {
 }
 
 /**
- * “今すぐ” 強制走査（ボタンなど）
+ * “今すぐ” 全日を見直す（ボタンなど）
  */
 export function refreshDaysNow(): DayEntry[] {
-  return loadDaysIfNeeded({ force: true });
+  return loadDaysIfNeeded({ full: true });
 }
@@ -1,12 +1,4 @@
 /* lib/diary.ts */
-import type { AchieveDay, AchieveItem } from "@/lib/storage";
-
-export type DayEntry = {
-  ymd: string;
-  day: AchieveDay;
-  storageKey: string;
-};
-
 export type TagAliases = Record<string, string>;
 
 export const TAG_ALIASES_KEY = "achieve:tag-aliases:v1";
@@ -32,60 +24,6 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
-function isItem(value: unknown): value is AchieveItem {
-  if (!isRecord(value)) return false;
-
-  return (
-    typeof value.id === "string" &&
-    typeof value.text === "string" &&
-    typeof value.done === "boolean" &&
-    typeof value.createdAt === "string"
-  );
-}
-
-function isDay(value: unknown): value is AchieveDay {
-  if (!isRecord(value)) return false;
-  if (typeof value.ymd !== "string") return false;
-  if (!Array.isArray(value.items)) return false;
-  if (!value.items.every(isItem)) return false;
-  return true;
-}
-
-export function scanDaysFromStorage(storage: Storage): DayEntry[] {
-  const out: DayEntry[] = [];
-
-  for (let i = 0; i < storage.length; i++) {
-    const k = storage.key(i);
-    if (!k) continue;
-
-    const raw = storage.getItem(k);
-    if (!raw) continue;
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(raw) as unknown;
-    } catch {
-      continue;
-    }
-
-    if (!isDay(parsed)) continue;
-
-    out.push({
-      ymd: parsed.ymd,
-      day: parsed,
-      storageKey: k,
-    });
-  }
-
-  // ymdが重複した場合は最初の1件を採用
-  const map = new Map<string, DayEntry>();
-  for (const e of out) {
-    if (!map.has(e.ymd)) map.set(e.ymd, e);
-  }
-
-  return Array.from(map.values()).sort((a, b) => b.ymd.localeCompare(a.ymd));
-}
-
 export function normalizeAliasKey(raw: string): string {
   let q = raw.normalize("NFKC").trim();
   if (q.startsWith("#")) q = q.slice(1);
@@ -174,6 +112,27 @@ export function extractTags(text: string, aliases: TagAliases): string[] {
   return Array.from(set.values());
 }
 
+/**
+ * text から #tag を書かれたまま抽出（前後の括弧・句読点だけ外す / 辞書は通さない）
+ * - CSV 書き出しの「元の表記」用
+ */
+export function extractRawTags(text: string): string[] {
+  const set = new Set<string>();
+  const re = /#([^\s#]+)/g;
+
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    let tag = m[1] ?? "";
+
+    tag = tag.replace(/^[\(\[【「『（]+/g, "");
+    tag = tag.replace(/[\)\]\}】」』）、。．.,!?:;！？]+$/g, "");
+
+    if (tag) set.add(tag);
+  }
+
+  return Array.from(set.values());
+}
+
 export function includesQuery(haystack: string, query: string): boolean {
   const q = query.trim().toLowerCase();
   if (!q) return true;
@@ -0,0 +1,19 @@
+/* lib/download.ts */
+export function downloadBlob(fileName: string, blob: Blob): void {
+  if (typeof window === "undefined") return;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  // クリック直後に revoke すると一部ブラウザでDLが失敗するので少し待つ
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(fileName: string, text: string, mime = "text/plain"): void {
+  downloadBlob(fileName, new Blob([text], { type: `${mime};charset=utf-8` }));
+}
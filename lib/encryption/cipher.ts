@@ -0,0 +1,99 @@
+/* lib/encryption/cipher.ts
+ * WebCrypto の薄いラッパ（PBKDF2 で鍵を導出 / AES-GCM で暗号化）
+ * - バイト列は base64 文字列で持ち回す（localStorage / JSON にそのまま入れられるように）
+ * - 復号の失敗（鍵違い・改ざん）は DOMException(OperationError) が throw される
+ */
+
+export type CipherPayload = {
+  iv: string; // base64（12 bytes）
+  data: string; // base64（暗号文 + 認証タグ）
+};
+
+export const PBKDF2_ITERATIONS = 310_000;
+export const SALT_BYTES = 16;
+
+const IV_BYTES = 12;
+
+export function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== "undefined" && typeof crypto.subtle !== "undefined";
+}
+
+export function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(length);
+  crypto.getRandomValues(out);
+  return out;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i] ?? 0);
+  return btoa(bin);
+}
+
+export function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+export function isCipherPayload(v: unknown): v is CipherPayload {
+  if (typeof v !== "object" || v === null) return false;
+  const r = v as Record<string, unknown>;
+  return typeof r.iv === "string" && typeof r.data === "string";
+}
+
+/**
+ * パスフレーズから AES-GCM の鍵を導出（extractable: false）
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function encryptBytes(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<CipherPayload> {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes);
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+}
+
+export async function decryptBytes(key: CryptoKey, payload: CipherPayload): Promise<Uint8Array<ArrayBuffer>> {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(payload.iv) },
+    key,
+    base64ToBytes(payload.data),
+  );
+  return new Uint8Array(plain);
+}
+
+export function encryptString(key: CryptoKey, text: string): Promise<CipherPayload> {
+  return encryptBytes(key, new TextEncoder().encode(text));
+}
+
+export async function decryptString(key: CryptoKey, payload: CipherPayload): Promise<string> {
+  return new TextDecoder().decode(await decryptBytes(key, payload));
+}
+
+/**
+ * 日記本体を暗号化する鍵（ランダム 256bit）の生バイトから CryptoKey を作る
+ */
+export function importDataKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
@@ -0,0 +1,122 @@
+/* lib/encryption/meta.ts
+ * 暗号化モードの鍵情報（localStorage: achieve:crypto:v1）
+ * - 日記本体はランダムなデータ鍵で暗号化し、そのデータ鍵をパスフレーズ由来の鍵で包んで保存する
+ * - パスフレーズ変更はデータ鍵を包み直すだけ（日別レコードは書き換えない）
+ * - キーがあれば「暗号化モード」。解錠するまで日別データは読めない
+ */
+
+import {
+  PBKDF2_ITERATIONS,
+  SALT_BYTES,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  deriveKeyFromPassphrase,
+  encryptBytes,
+  importDataKey,
+  isCipherPayload,
+  randomBytes,
+  type CipherPayload,
+} from "@/lib/encryption/cipher";
+
+export const CRYPTO_META_KEY = "achieve:crypto:v1";
+
+const DATA_KEY_BYTES = 32;
+
+export type CryptoMeta = {
+  version: 1;
+  kdf: "PBKDF2-SHA256";
+  salt: string; // base64
+  iterations: number;
+  wrappedKey: CipherPayload; // パスフレーズ由来の鍵で暗号化したデータ鍵
+  createdAt: string; // ISO
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function loadCryptoMeta(storage: Storage): CryptoMeta | null {
+  const raw = storage.getItem(CRYPTO_META_KEY);
+  if (!raw) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(raw) as unknown;
+    if (!isRecord(parsed)) return null;
+    if (parsed.version !== 1 || parsed.kdf !== "PBKDF2-SHA256") return null;
+    if (typeof parsed.salt !== "string" || typeof parsed.iterations !== "number") return null;
+    if (!isCipherPayload(parsed.wrappedKey)) return null;
+
+    return {
+      version: 1,
+      kdf: "PBKDF2-SHA256",
+      salt: parsed.salt,
+      iterations: parsed.iterations,
+      wrappedKey: parsed.wrappedKey,
+      createdAt: typeof parsed.createdAt === "string" ? parsed.createdAt : "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveCryptoMeta(storage: Storage, meta: CryptoMeta): void {
+  storage.setItem(CRYPTO_META_KEY, JSON.stringify(meta));
+}
+
+export function clearCryptoMeta(storage: Storage): void {
+  storage.removeItem(CRYPTO_META_KEY);
+}
+
+async function wrapDataKey(raw: Uint8Array<ArrayBuffer>, passphrase: string, createdAt: string): Promise<CryptoMeta> {
+  const salt = randomBytes(SALT_BYTES);
+  const kek = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+
+  return {
+    version: 1,
+    kdf: "PBKDF2-SHA256",
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: await encryptBytes(kek, raw),
+    createdAt,
+  };
+}
+
+/**
+ * パスフレーズが違えば null（AES-GCM の認証で弾かれる）
+ */
+async function unwrapDataKey(meta: CryptoMeta, passphrase: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  const kek = await deriveKeyFromPassphrase(passphrase, base64ToBytes(meta.salt), meta.iterations);
+  try {
+    return await decryptBytes(kek, meta.wrappedKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 新しいデータ鍵を作り、パスフレーズで包んだ meta と一緒に返す（保存は呼び出し側）
+ */
+export async function createCryptoMeta(passphrase: string): Promise<{ meta: CryptoMeta; key: CryptoKey }> {
+  const raw = randomBytes(DATA_KEY_BYTES);
+  const meta = await wrapDataKey(raw, passphrase, new Date().toISOString());
+  return { meta, key: await importDataKey(raw) };
+}
+
+export async function unlockCryptoMeta(meta: CryptoMeta, passphrase: string): Promise<CryptoKey | null> {
+  const raw = await unwrapDataKey(meta, passphrase);
+  return raw ? importDataKey(raw) : null;
+}
+
+/**
+ * 同じデータ鍵を新しいパスフレーズで包み直す（現在のパスフレーズが違えば null）
+ */
+export async function rewrapCryptoMeta(
+  meta: CryptoMeta,
+  currentPassphrase: string,
+  nextPassphrase: string,
+): Promise<CryptoMeta | null> {
+  const raw = await unwrapDataKey(meta, currentPassphrase);
+  if (!raw) return null;
+  return wrapDataKey(raw, nextPassphrase, meta.createdAt);
+}
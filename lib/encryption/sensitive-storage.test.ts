@@ -0,0 +1,136 @@
+/* lib/encryption/sensitive-storage.test.ts */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CRYPTO_META_KEY } from "@/lib/encryption/meta";
+import {
+  decryptSensitiveStorage,
+  flushSensitiveStorage,
+  openSensitiveStorage,
+  sensitiveStorage,
+} from "@/lib/encryption/sensitive-storage";
+import { REVISIONS_KEY_PREFIX, loadRevisions, recordRevision } from "@/lib/revisions";
+import type { AchieveItem } from "@/lib/storage";
+import { TRASH_KEY, loadTrash, moveItemToTrash } from "@/lib/trash";
+
+class FakeStorage implements Storage {
+  readonly map = new Map<string, string>();
+  get length(): number {
+    return this.map.size;
+  }
+  clear(): void {
+    this.map.clear();
+  }
+  getItem(key: string): string | null {
+    return this.map.get(key) ?? null;
+  }
+  key(index: number): string | null {
+    return Array.from(this.map.keys())[index] ?? null;
+  }
+  removeItem(key: string): void {
+    this.map.delete(key);
+  }
+  setItem(key: string, value: string): void {
+    this.map.set(key, value);
+  }
+}
+
+const PREFIXES = [TRASH_KEY, REVISIONS_KEY_PREFIX];
+
+const item: AchieveItem = {
+  id: "i1",
+  text: "秘密の日記",
+  done: true,
+  createdAt: "2026-10-19T00:00:00.000Z",
+  updatedAt: "2026-10-19T00:00:00.000Z",
+};
+
+let storage: FakeStorage;
+let key: CryptoKey;
+
+beforeEach(async () => {
+  storage = new FakeStorage();
+  vi.stubGlobal("window", { localStorage: storage });
+  key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+});
+
+afterEach(async () => {
+  await decryptSensitiveStorage();
+  vi.unstubAllGlobals();
+});
+
+describe("暗号化中の付属データ", () => {
+  it("暗号化していなければ localStorage に平文で保存する", () => {
+    moveItemToTrash(storage, "2026-10-19", item, 0);
+    expect(storage.getItem(TRASH_KEY)).toContain("秘密の日記");
+  });
+
+  it("解錠前は読めず、書き込みは throw して平文を残さない", () => {
+    storage.setItem(CRYPTO_META_KEY, "{}");
+
+    expect(loadTrash(storage)).toEqual([]);
+    expect(() => moveItemToTrash(storage, "2026-10-19", item, 0)).toThrow();
+    expect(Array.from(storage.map.keys())).toEqual([CRYPTO_META_KEY]);
+  });
+
+  it("解錠中は暗号化して保存し、開き直しても読める", async () => {
+    storage.setItem(CRYPTO_META_KEY, "{}");
+    await openSensitiveStorage(storage, key, PREFIXES);
+
+    const entry = moveItemToTrash(storage, "2026-10-19", item, 0);
+    recordRevision(storage, {
+      ymd: "2026-10-19",
+      target: { kind: "memo" },
+      prevText: "前のひとこと",
+      prevAt: "2026-10-19T00:00:00.000Z",
+      nextText: "次のひとこと",
+    });
+    await flushSensitiveStorage();
+
+    expect(storage.getItem(TRASH_KEY)).not.toContain("秘密の日記");
+    expect(storage.getItem(`${REVISIONS_KEY_PREFIX}2026-10-19`)).not.toContain("ひとこと");
+
+    // 再読み込み（解錠し直し）
+    await openSensitiveStorage(storage, key, PREFIXES);
+    expect(loadTrash(storage).map((e) => e.trashId)).toEqual([entry.trashId]);
+    expect(loadRevisions(storage, "2026-10-19", { kind: "memo" }).map((r) => r.text)).toEqual([
+      "前のひとこと",
+      "次のひとこと",
+    ]);
+  });
+
+  it("開くときに平文で残っていた分を暗号化し直す", async () => {
+    moveItemToTrash(storage, "2026-10-19", item, 0);
+    storage.setItem(CRYPTO_META_KEY, "{}");
+
+    await openSensitiveStorage(storage, key, PREFIXES);
+    await flushSensitiveStorage();
+
+    expect(storage.getItem(TRASH_KEY)).not.toContain("秘密の日記");
+    expect(loadTrash(storage).map((e) => e.item.text)).toEqual(["秘密の日記"]);
+  });
+
+  it("解除すると平文で書き戻し、以後は localStorage を直接使う", async () => {
+    storage.setItem(CRYPTO_META_KEY, "{}");
+    await openSensitiveStorage(storage, key, PREFIXES);
+    moveItemToTrash(storage, "2026-10-19", item, 0);
+
+    await decryptSensitiveStorage();
+    storage.removeItem(CRYPTO_META_KEY);
+
+    expect(storage.getItem(TRASH_KEY)).toContain("秘密の日記");
+    expect(sensitiveStorage(storage)).toBe(storage);
+  });
+
+  it("暗号化した書き込みの失敗は flushSensitiveStorage で分かる", async () => {
+    storage.setItem(CRYPTO_META_KEY, "{}");
+    await openSensitiveStorage(storage, key, PREFIXES);
+
+    vi.spyOn(storage, "setItem").mockImplementation(() => {
+      throw new Error("quota");
+    });
+    moveItemToTrash(storage, "2026-10-19", item, 0);
+
+    await expect(flushSensitiveStorage()).rejects.toThrow("quota");
+    expect(storage.getItem(TRASH_KEY)).toBeNull();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,209 @@
+/* lib/encryption/sensitive-storage.ts
+ * 暗号化モード中、日記の本文を含む付属データ（ゴミ箱・編集履歴・退避した記録）も日別データと同じ鍵で暗号化して保存する
+ * - 付属データの読み書きは同期 API（localStorage 前提）のまま：解錠時に全件を復号してメモリへ、書き込みは後から暗号化して localStorage へ（順番どおり）
+ * - 有効化・解錠のときに平文で残っている分（有効にする前・以前の版が書いた分）は暗号化し直し、解除のときは平文で書き戻す
+ * - 書き込みは後から終わるので、元を消す操作（ゴミ箱へ移す・退避する）は flushSensitiveStorage() で保存を確かめてから消す
+ */
+
+import { decryptDayRecord, encryptDayRecord, isEncryptedDayRecord } from "@/lib/backends/encrypted";
+import { isDayEncryptionEnabled } from "@/lib/storage";
+
+/**
+ * 解錠前の読み書き先：何も読めず、平文を残さないよう書き込みは throw
+ */
+class LockedStorage implements Storage {
+  get length(): number {
+    return 0;
+  }
+
+  clear(): void {
+    throw new Error("暗号化を解錠するまで書き込めません");
+  }
+
+  getItem(): string | null {
+    return null;
+  }
+
+  key(): string | null {
+    return null;
+  }
+
+  removeItem(): void {
+    throw new Error("暗号化を解錠するまで書き込めません");
+  }
+
+  setItem(): void {
+    throw new Error("暗号化を解錠するまで書き込めません");
+  }
+}
+
+/**
+ * 復号済みの付属データ（メモリ）＋ localStorage への暗号化書き込み
+ */
+class EncryptedStorage implements Storage {
+  private readonly cache = new Map<string, string>();
+  // キーごとの最新の書き込み番号（古い暗号化結果で上書きしないように）
+  private readonly versions = new Map<string, number>();
+  private pending: Promise<void> = Promise.resolve();
+  private lastError: unknown = null;
+
+  constructor(
+    private readonly inner: Storage,
+    private readonly dataKey: CryptoKey,
+    private readonly prefixes: readonly string[],
+  ) {}
+
+  get length(): number {
+    return this.cache.size;
+  }
+
+  matches(k: string): boolean {
+    return this.prefixes.some((p) => k.startsWith(p));
+  }
+
+  /**
+   * 1件を読み直す（平文のまま残っていれば暗号化し直す / 復号できなければ下にそのまま残す）
+   */
+  async readOne(k: string): Promise<void> {
+    const raw = this.inner.getItem(k);
+    if (raw === null) {
+      this.cache.delete(k);
+      return;
+    }
+
+    try {
+      this.cache.set(k, await decryptDayRecord(this.dataKey, raw));
+      if (!isEncryptedDayRecord(raw)) this.enqueueWrite(k);
+    } catch {
+      this.cache.delete(k);
+    }
+  }
+
+  async load(): Promise<void> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.inner.length; i++) {
+      const k = this.inner.key(i);
+      if (k && this.matches(k)) keys.push(k);
+    }
+
+    for (const k of keys) await this.readOne(k);
+  }
+
+  private enqueueWrite(k: string): void {
+    const version = (this.versions.get(k) ?? 0) + 1;
+    this.versions.set(k, version);
+
+    this.pending = this.pending
+      .then(async () => {
+        if (this.versions.get(k) !== version) return;
+
+        const plain = this.cache.get(k);
+        if (plain === undefined) return;
+
+        const encrypted = await encryptDayRecord(this.dataKey, plain);
+        if (this.versions.get(k) !== version) return;
+        this.inner.setItem(k, encrypted);
+      })
+      .catch((err: unknown) => {
+        // 失敗してもメモリ上の値は残す（次の保存で再度書き込まれる）
+        this.lastError = err;
+      });
+  }
+
+  clear(): void {
+    for (const k of Array.from(this.cache.keys())) this.removeItem(k);
+  }
+
+  getItem(k: string): string | null {
+    return this.cache.get(k) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.cache.keys())[index] ?? null;
+  }
+
+  removeItem(k: string): void {
+    this.cache.delete(k);
+    this.versions.set(k, (this.versions.get(k) ?? 0) + 1);
+    this.inner.removeItem(k);
+  }
+
+  setItem(k: string, value: string): void {
+    this.cache.set(k, String(value));
+    this.enqueueWrite(k);
+  }
+
+  async flush(): Promise<void> {
+    await this.pending;
+
+    const err = this.lastError;
+    this.lastError = null;
+    if (err) throw err;
+  }
+
+  /**
+   * 未完了の書き込みを待ってから、全件を平文で下の storage へ書き戻す（暗号化の解除）
+   */
+  async writePlain(): Promise<void> {
+    await this.flush();
+    for (const [k, plain] of this.cache) this.inner.setItem(k, plain);
+  }
+}
+
+const locked = new LockedStorage();
+
+let opened: EncryptedStorage | null = null;
+let detachStorageEvents: (() => void) | null = null;
+
+/**
+ * 付属データの読み書き先：解錠中は暗号化する入れ物、解錠前は読み書きしない入れ物、それ以外は渡された storage
+ */
+export function sensitiveStorage(storage: Storage): Storage {
+  if (opened) return opened;
+  return isDayEncryptionEnabled() ? locked : storage;
+}
+
+/**
+ * 解錠・有効化のときに開く（prefixes に前方一致するキーを復号して読み込む）
+ * - 他タブの書き込みは storage イベントで読み直す
+ */
+export async function openSensitiveStorage(storage: Storage, key: CryptoKey, prefixes: readonly string[]): Promise<void> {
+  closeSensitiveStorage();
+
+  const next = new EncryptedStorage(storage, key, prefixes);
+  await next.load();
+  opened = next;
+
+  if (typeof window === "undefined" || typeof window.addEventListener !== "function") return;
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.storageArea !== storage || e.key === null || !next.matches(e.key)) return;
+    void next.readOne(e.key);
+  };
+  window.addEventListener("storage", onStorage);
+  detachStorageEvents = () => window.removeEventListener("storage", onStorage);
+}
+
+/**
+ * 暗号化した書き込みが終わるのを待つ（失敗していれば throw）
+ * - 開いていなければ（暗号化していなければ）すぐ終わる
+ */
+export async function flushSensitiveStorage(): Promise<void> {
+  if (opened) await opened.flush();
+}
+
+/**
+ * 暗号化の解除：全件を平文で書き戻してから閉じる（書き戻せなければ throw し、開いたまま）
+ */
+export async function decryptSensitiveStorage(): Promise<void> {
+  if (!opened) return;
+
+  await opened.writePlain();
+  closeSensitiveStorage();
+}
+
+function closeSensitiveStorage(): void {
+  detachStorageEvents?.();
+  detachStorageEvents = null;
+  opened = null;
+}
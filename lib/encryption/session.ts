@@ -0,0 +1,197 @@
+/* lib/encryption/session.ts
+ * 暗号化モードの解錠・有効化・解除・パスフレーズ変更
+ * - 鍵はこのタブのメモリにだけ持つ（再読み込みで再びロック）
+ * - 鍵情報（achieve:crypto:v1）を書き換えると、他タブは storage.ts の storage イベントで読み直される
+ * - 付属データ（ゴミ箱・編集履歴・退避した記録）も同じ鍵で開き、解除のときは平文で書き戻す（lib/encryption/sensitive-storage.ts）
+ */
+
+import { openEncryptedDayBackend, type EncryptedDayBackend } from "@/lib/backends/encrypted";
+import type { DayBackend } from "@/lib/backends/types";
+import { isWebCryptoAvailable } from "@/lib/encryption/cipher";
+import { QUARANTINE_KEY_PREFIX } from "@/lib/health";
+import {
+  clearCryptoMeta,
+  createCryptoMeta,
+  loadCryptoMeta,
+  rewrapCryptoMeta,
+  saveCryptoMeta,
+  unlockCryptoMeta,
+} from "@/lib/encryption/meta";
+import { decryptSensitiveStorage, flushSensitiveStorage, openSensitiveStorage } from "@/lib/encryption/sensitive-storage";
+import { REVISIONS_KEY_PREFIX } from "@/lib/revisions";
+import { discardPersistedSearchIndex } from "@/lib/search/store";
+import { clearSnapshotStore } from "@/lib/snapshots/store";
+import { getBaseDayBackend, installDayBackend, isDayEncryptionEnabled } from "@/lib/storage";
+import { TRASH_KEY } from "@/lib/trash";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export type EncryptionFailureReason =
+  | "wrong-passphrase"
+  | "not-enabled"
+  | "already-enabled"
+  | "unavailable"
+  | "undecryptable"
+  | "write-failed";
+
+export type EncryptionResult = { ok: true } | { ok: false; reason: EncryptionFailureReason };
+
+let unlocked: EncryptedDayBackend | null = null;
+let dataKey: CryptoKey | null = null;
+
+/**
+ * 解錠中のデータ鍵（スナップショットなど、日別データ以外を同じ鍵で包む用）
+ */
+export function getUnlockedDataKey(): CryptoKey | null {
+  return dataKey;
+}
+
+async function flushBackend(backend: DayBackend & { flush?: () => Promise<void> }): Promise<void> {
+  if (backend.flush) await backend.flush();
+}
+
+function install(next: EncryptedDayBackend, key: CryptoKey): void {
+  if (unlocked) unlocked.close();
+  unlocked = next;
+  dataKey = key;
+  installDayBackend(next);
+}
+
+/**
+ * 暗号化の切り替え時はスナップショットを捨てる（平文 / 読めなくなる暗号文を残さない）
+ */
+async function discardSnapshots(): Promise<void> {
+  try {
+    await clearSnapshotStore();
+  } catch {
+    // 消せなくても切り替え自体は完了している
+  }
+}
+
+/**
+ * 付属データ（ゴミ箱・編集履歴・退避した記録）を同じ鍵で開く
+ */
+function openAuxData(key: CryptoKey): Promise<void> {
+  return openSensitiveStorage(window.localStorage, key, [TRASH_KEY, REVISIONS_KEY_PREFIX, QUARANTINE_KEY_PREFIX]);
+}
+
+export async function unlockDiary(passphrase: string): Promise<EncryptionResult> {
+  const meta = loadCryptoMeta(window.localStorage);
+  if (!meta) return { ok: false, reason: "not-enabled" };
+  if (!isWebCryptoAvailable()) return { ok: false, reason: "unavailable" };
+
+  const key = await unlockCryptoMeta(meta, passphrase);
+  if (!key) return { ok: false, reason: "wrong-passphrase" };
+
+  const base = await getBaseDayBackend();
+  if (!base) return { ok: false, reason: "unavailable" };
+
+  await openAuxData(key);
+  install(await openEncryptedDayBackend(base, key), key);
+  return { ok: true };
+}
+
+/**
+ * 暗号化を有効にする（鍵情報を先に保存 → 既存の日を順に暗号化して書き戻す）
+ * - 途中で閉じても、平文のまま残った日は次の解錠時に暗号化し直される
+ */
+export async function enableDiaryEncryption(passphrase: string): Promise<EncryptionResult> {
+  if (isDayEncryptionEnabled()) return { ok: false, reason: "already-enabled" };
+  if (!isWebCryptoAvailable()) return { ok: false, reason: "unavailable" };
+
+  const base = await getBaseDayBackend();
+  if (!base) return { ok: false, reason: "unavailable" };
+
+  const { meta, key } = await createCryptoMeta(passphrase);
+  try {
+    saveCryptoMeta(window.localStorage, meta);
+  } catch {
+    return { ok: false, reason: "write-failed" };
+  }
+
+  await openAuxData(key);
+  const encrypted = await openEncryptedDayBackend(base, key);
+  install(encrypted, key);
+  await discardSnapshots();
+  // 検索インデックスは本文を平文で持つので、暗号化中は保存しない
+  await discardPersistedSearchIndex();
+
+  try {
+    await encrypted.flush();
+    await flushSensitiveStorage();
+  } catch {
+    return { ok: false, reason: "write-failed" };
+  }
+  return { ok: true };
+}
+
+/**
+ * 暗号化を解除する（全日を平文で書き戻してから鍵情報を消す）
+ * - 復号できない日が残っている場合は解除しない（その日を失わないように）
+ */
+export async function disableDiaryEncryption(passphrase: string): Promise<EncryptionResult> {
+  const meta = loadCryptoMeta(window.localStorage);
+  if (!meta || !unlocked) return { ok: false, reason: "not-enabled" };
+
+  if (!(await unlockCryptoMeta(meta, passphrase))) return { ok: false, reason: "wrong-passphrase" };
+  if (unlocked.undecryptable().length > 0) return { ok: false, reason: "undecryptable" };
+
+  const base = await getBaseDayBackend();
+  if (!base) return { ok: false, reason: "unavailable" };
+
+  const current = unlocked;
+  try {
+    await current.flush();
+    for (const ymd of current.listDays()) {
+      const plain = current.loadDay(ymd);
+      if (plain !== null) base.saveDay(ymd, plain);
+    }
+    await flushBackend(base);
+    await decryptSensitiveStorage();
+  } catch {
+    return { ok: false, reason: "write-failed" };
+  }
+
+  clearCryptoMeta(window.localStorage);
+  current.close();
+  unlocked = null;
+  dataKey = null;
+  installDayBackend(base);
+  await discardSnapshots();
+  return { ok: true };
+}
+
+/**
+ * データ鍵を新しいパスフレーズで包み直す（日別レコードは書き換えない）
+ */
+export async function changeDiaryPassphrase(current: string, next: string): Promise<EncryptionResult> {
+  const meta = loadCryptoMeta(window.localStorage);
+  if (!meta) return { ok: false, reason: "not-enabled" };
+
+  const rewrapped = await rewrapCryptoMeta(meta, current, next);
+  if (!rewrapped) return { ok: false, reason: "wrong-passphrase" };
+
+  try {
+    saveCryptoMeta(window.localStorage, rewrapped);
+  } catch {
+    return { ok: false, reason: "write-failed" };
+  }
+  return { ok: true };
+}
+
+export function encryptionFailureMessage(reason: EncryptionFailureReason): string {
+  switch (reason) {
+    case "wrong-passphrase":
+      return "パスフレーズが違います。";
+    case "not-enabled":
+      return "暗号化は有効になっていません。";
+    case "already-enabled":
+      return "すでに暗号化されています。";
+    case "unavailable":
+      return "このブラウザでは暗号化（WebCrypto）が使えません。";
+    case "undecryptable":
+      return "復号できない日が残っているため解除できません。";
+    case "write-failed":
+      return "書き込みに失敗しました（容量不足の可能性があります）。";
+  }
+}
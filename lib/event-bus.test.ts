@@ -0,0 +1,121 @@
+/* lib/event-bus.test.ts */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BusEvent } from "@/lib/event-bus";
+
+type EventBusModule = typeof import("@/lib/event-bus");
+
+class FakeChannel {
+  static last: FakeChannel | null = null;
+  onmessage: ((e: MessageEvent<unknown>) => void) | null = null;
+  readonly posted: unknown[] = [];
+
+  constructor() {
+    FakeChannel.last = this;
+  }
+
+  postMessage(data: unknown): void {
+    this.posted.push(data);
+  }
+
+  deliver(data: unknown): void {
+    this.onmessage?.({ data } as MessageEvent<unknown>);
+  }
+}
+
+let store: Map<string, string>;
+let localStorage: Pick<Storage, "getItem" | "setItem">;
+let storageListener: ((e: StorageEvent) => void) | null;
+
+function fireStorage(key: string | null, newValue: string | null = null): void {
+  storageListener?.({ key, newValue, storageArea: localStorage } as StorageEvent);
+}
+
+// 毎回読み込み直す（attach は1回きりなので、環境を変えたテストを分けるため）
+async function loadBus(withChannel: boolean): Promise<{ bus: EventBusModule; received: BusEvent[] }> {
+  vi.stubGlobal("BroadcastChannel", withChannel ? FakeChannel : undefined);
+  vi.resetModules();
+  const bus = await import("@/lib/event-bus");
+
+  const received: BusEvent[] = [];
+  bus.subscribeBusEvents((e) => received.push(e));
+  bus.mapStorageKeyToBusEvent((key) =>
+    key?.startsWith("achieve:day:") ? { type: "day-saved", ymd: key.slice("achieve:day:".length) } : null,
+  );
+  return { bus, received };
+}
+
+beforeEach(() => {
+  store = new Map();
+  localStorage = {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => void store.set(key, value),
+  };
+  storageListener = null;
+  FakeChannel.last = null;
+
+  vi.stubGlobal("window", {
+    localStorage,
+    addEventListener: (type: string, listener: (e: StorageEvent) => void) => {
+      if (type === "storage") storageListener = listener;
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("event-bus", () => {
+  it("BroadcastChannel があっても storage イベントを受ける", async () => {
+    const { received } = await loadBus(true);
+
+    fireStorage("achieve:day:2025-03-04");
+    expect(received).toEqual([{ type: "day-saved", ymd: "2025-03-04" }]);
+  });
+
+  it("両方の経路から届いた同じ変更は1回だけ配る", async () => {
+    const { received } = await loadBus(true);
+
+    FakeChannel.last?.deliver({ type: "day-saved", ymd: "2025-03-04" });
+    fireStorage("achieve:day:2025-03-04");
+    expect(received).toEqual([{ type: "day-saved", ymd: "2025-03-04" }]);
+  });
+
+  it("続けて2回保存されたら、相殺するのは1対1まで", async () => {
+    const { received } = await loadBus(true);
+
+    FakeChannel.last?.deliver({ type: "day-saved", ymd: "2025-03-04" });
+    FakeChannel.last?.deliver({ type: "day-saved", ymd: "2025-03-04" });
+    fireStorage("achieve:day:2025-03-04");
+    fireStorage("achieve:day:2025-03-04");
+    fireStorage("achieve:day:2025-03-04");
+    expect(received).toHaveLength(3);
+  });
+
+  it("storagePing は ping キーに書き、受け取った側は storage イベントから読み戻す", async () => {
+    const { bus, received } = await loadBus(false);
+
+    bus.publishBusEvent({ type: "day-saved", ymd: "2025-03-04" }, { storagePing: true });
+    const first = store.get(bus.BUS_PING_KEY) ?? null;
+    bus.publishBusEvent({ type: "day-saved", ymd: "2025-03-04" }, { storagePing: true });
+    const second = store.get(bus.BUS_PING_KEY) ?? null;
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBe(first);
+
+    fireStorage(bus.BUS_PING_KEY, first);
+    fireStorage(bus.BUS_PING_KEY, second);
+    expect(received).toEqual([
+      { type: "day-saved", ymd: "2025-03-04" },
+      { type: "day-saved", ymd: "2025-03-04" },
+    ]);
+  });
+
+  it("storagePing を付けない publish は BroadcastChannel だけ", async () => {
+    const { bus } = await loadBus(true);
+
+    bus.publishBusEvent({ type: "aliases-changed" });
+    expect(FakeChannel.last?.posted).toEqual([{ type: "aliases-changed" }]);
+    expect(store.has(bus.BUS_PING_KEY)).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/* lib/event-bus.ts
+ * タブ間の変更通知（BroadcastChannel: achieve:events）
+ * - publishBusEvent() は他のタブにだけ届く（このタブの購読者へは各 store の mutation 通知で知らせる）
+ * - storage イベントも常に受け、同じ BusEvent に読み替えて配る（BroadcastChannel が無い・届かない環境の代わり）
+ *   （どのキーが何のイベントかは、キーを持つモジュールが mapStorageKeyToBusEvent() で登録する）
+ * - localStorage に書かない変更（IndexedDB など）は ping キーに書いて storage イベントを起こす
+ * - 同じ変更が両方の経路から届いたら1回だけ配る（片方で配った event を、もう片方の同じ event と1対1で相殺）
+ */
+
+export type BusEvent =
+  | { type: "day-saved"; ymd: string } // 1日分の保存・削除（backend への書き込みが終わってから）
+  | { type: "days-changed" } // どの日か分からない変更（localStorage.clear() など）
+  | { type: "aliases-changed" }
+  | { type: "prefs-changed"; key: string };
+
+export type BusListener = (event: BusEvent) => void;
+
+// storage イベントの key（clear() なら null）→ BusEvent（関係なければ null）
+export type StorageKeyMapper = (key: string | null) => BusEvent | null;
+
+export type PublishBusEventOptions = {
+  // localStorage に書かない変更（IndexedDB など）：ping キーにも書いて storage イベントで届くようにする
+  storagePing?: boolean;
+};
+
+type BusRoute = "channel" | "storage";
+
+const CHANNEL_NAME = "achieve:events";
+export const BUS_PING_KEY = "achieve:bus-ping:v1";
+
+// 片方の経路だけから届いた event を待つ時間（過ぎたら相殺しない）
+const PAIR_WINDOW_MS = 2000;
+
+const listeners = new Set<BusListener>();
+const storageMappers = new Set<StorageKeyMapper>();
+// JSON にした event → まだ相殺していない受信（経路と時刻）
+const unpaired = new Map<string, { route: BusRoute; at: number }[]>();
+// ping の値をタブ間で重ねない（同じ値の書き込みでは storage イベントが起きない）
+const tabId = Math.random().toString(36).slice(2);
+let pingSeq = 0;
+
+let channel: BroadcastChannel | null = null;
+let attached = false;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function isBusEvent(v: unknown): v is BusEvent {
+  if (!isRecord(v)) return false;
+  switch (v.type) {
+    case "day-saved":
+      return typeof v.ymd === "string";
+    case "days-changed":
+    case "aliases-changed":
+      return true;
+    case "prefs-changed":
+      return typeof v.key === "string";
+    default:
+      return false;
+  }
+}
+
+function dispatch(event: BusEvent): void {
+  for (const l of Array.from(listeners)) l(event);
+}
+
+/**
+ * 経路ごとの受信口：もう片方の経路で配った同じ event が待っていれば相殺して配らない
+ */
+function receive(event: BusEvent, route: BusRoute): void {
+  const now = Date.now();
+  for (const [k, list] of unpaired) {
+    const alive = list.filter((u) => now - u.at < PAIR_WINDOW_MS);
+    if (alive.length) unpaired.set(k, alive);
+    else unpaired.delete(k);
+  }
+
+  const key = JSON.stringify(event);
+  const list = unpaired.get(key) ?? [];
+  const pair = list.findIndex((u) => u.route !== route);
+  if (pair >= 0) {
+    list.splice(pair, 1);
+    if (list.length === 0) unpaired.delete(key);
+    return;
+  }
+
+  list.push({ route, at: now });
+  unpaired.set(key, list);
+  dispatch(event);
+}
+
+function readPing(raw: string | null): BusEvent | null {
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return isRecord(parsed) && isBusEvent(parsed.event) ? parsed.event : null;
+  } catch {
+    return null;
+  }
+}
+
+function onStorageEvent(e: StorageEvent): void {
+  if (e.storageArea !== window.localStorage) return;
+
+  if (e.key === BUS_PING_KEY) {
+    const event = readPing(e.newValue);
+    if (event) receive(event, "storage");
+    return;
+  }
+
+  for (const map of storageMappers) {
+    const event = map(e.key);
+    if (event) receive(event, "storage");
+  }
+}
+
+function attach(): void {
+  if (attached || typeof window === "undefined") return;
+  attached = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<unknown>) => {
+      if (isBusEvent(e.data)) receive(e.data, "channel");
+    };
+  }
+
+  window.addEventListener("storage", onStorageEvent);
+}
+
+/**
+ * 他のタブへ知らせる
+ * - localStorage に書いた変更はその書き込みが storage イベントとしても届く。書かない変更は storagePing を付ける
+ */
+export function publishBusEvent(event: BusEvent, options: PublishBusEventOptions = {}): void {
+  attach();
+  if (channel) channel.postMessage(event);
+  if (!options.storagePing || typeof window === "undefined") return;
+
+  try {
+    pingSeq += 1;
+    window.localStorage.setItem(BUS_PING_KEY, JSON.stringify({ event, seq: `${tabId}-${pingSeq}` }));
+  } catch {
+    // 容量不足などで書けなくても BroadcastChannel では届いている
+  }
+}
+
+/**
+ * 他のタブからのイベントを購読
+ */
+export function subscribeBusEvents(listener: BusListener): () => void {
+  attach();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * storage イベントの読み替えを登録（戻り値で解除）
+ */
+export function mapStorageKeyToBusEvent(mapper: StorageKeyMapper): () => void {
+  storageMappers.add(mapper);
+  return () => storageMappers.delete(mapper);
+}
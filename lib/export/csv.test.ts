@@ -0,0 +1,72 @@
+/* lib/export/csv.test.ts */
+import { describe, expect, it } from "vitest";
+import { buildItemsCsv, csvField } from "@/lib/export/csv";
+import { normalizeDay, type DayEntry } from "@/lib/storage";
+
+function entry(ymd: string, raw: Record<string, unknown>): DayEntry {
+  return { ymd, day: normalizeDay(ymd, { ymd, ...raw }) };
+}
+
+function item(id: string, text: string, createdAt: string): Record<string, unknown> {
+  return { id, text, done: true, createdAt, updatedAt: createdAt };
+}
+
+describe("csvField", () => {
+  it.each([
+    ["=1+2", "'=1+2"],
+    ["+81 90", "'+81 90"],
+    ["-5分", "'-5分"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    ["\t=1", "'\t=1"],
+    ["\r=1", `"'\r=1"`],
+    ['=HYPERLINK("x")', `"'=HYPERLINK(""x"")"`],
+  ])("数式になる値 %j は ' を前置する", (value, expected) => {
+    expect(csvField(value)).toBe(expected);
+  });
+
+  it("それ以外はそのまま・必要なときだけ引用する", () => {
+    expect(csvField("散歩した")).toBe("散歩した");
+    expect(csvField("a,b")).toBe('"a,b"');
+    expect(csvField(" 前に空白")).toBe('" 前に空白"');
+    expect(csvField("1=1")).toBe("1=1");
+  });
+});
+
+describe("buildItemsCsv", () => {
+  const opts = { aliases: {}, tagStyle: "raw" as const };
+
+  it("同じ日の項目は保存されている並び（作成順ではない）で書く", () => {
+    const { csv, rows } = buildItemsCsv(
+      [
+        entry("2025-03-05", {
+          items: [
+            item("b", "あとで書いた", "2025-03-05T03:00:00.000Z"),
+            item("a", "先に書いた", "2025-03-05T01:00:00.000Z"),
+          ],
+        }),
+        entry("2025-03-04", { items: [item("c", "前の日", "2025-03-04T01:00:00.000Z")] }),
+      ],
+      opts,
+    );
+
+    expect(rows).toBe(3);
+    expect(csv.split("\r\n").map((line) => line.split(",")[2])).toEqual([
+      "text",
+      "前の日",
+      "あとで書いた",
+      "先に書いた",
+      undefined,
+    ]);
+  });
+
+  it("本文・ひとこと・タグの数式は実行されない形で書く", () => {
+    const { csv } = buildItemsCsv(
+      [entry("2025-03-04", { items: [item("a", "=cmd|' /C calc'!A0", "2025-03-04T01:00:00.000Z")], memo: "@memo" })],
+      opts,
+    );
+
+    const row = csv.replace(/^\uFEFF/, "").split("\r\n")[1] ?? "";
+    expect(row).toContain(",'=cmd|' /C calc'!A0,");
+    expect(row.endsWith(",'@memo")).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+/* lib/export/csv.ts
+ * 項目ごとの CSV 書き出し（表計算ソフトでの集計用）
+ * - 1行 = 1 AchieveItem：ymd / 時刻（設定のタイムゾーン）/ 本文 / タグ / その日の気分 / ひとこと
+ * - Excel（日本語）で文字化けしないよう先頭に BOM、改行は CRLF、値は RFC 4180 の引用規則
+ * - = + - @ TAB CR で始まる値は先頭に ' を付ける（表計算ソフトで数式として実行させない）
+ * - 同じ日の項目は保存されている並び（画面で並べ替えた順）のまま
+ */
+
+import { formatTime } from "@/lib/date";
+import { extractRawTags, extractTags, type TagAliases } from "@/lib/diary";
+import type { AchieveItem, DayEntry } from "@/lib/storage";
+
+export type CsvTagStyle = "canonical" | "raw";
+
+export type ItemsCsvOptions = {
+  aliases: TagAliases;
+  tagStyle: CsvTagStyle;
+  itemFilter?: ((item: AchieveItem, ymd: string) => boolean) | null; // History の検索条件
+};
+
+const BOM = "\uFEFF";
+const HEADER = ["ymd", "time", "text", "tags", "mood", "memo"];
+
+// 表計算ソフトが数式として読む先頭の文字
+const FORMULA_PREFIX_RE = /^[=+\-@\t\r]/;
+
+/**
+ * 数式になる値は ' を前置 → カンマ / 引用符 / 改行 / 前後の空白を含む値だけ "..." で囲む（中の " は "" に）
+ */
+export function csvField(value: string): string {
+  const safe = FORMULA_PREFIX_RE.test(value) ? `'${value}` : value;
+  if (!/[",\r\n]|^\s|\s$/.test(safe)) return safe;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function csvLine(values: string[]): string {
+  return values.map(csvField).join(",");
+}
+
+function itemTags(item: AchieveItem, opts: ItemsCsvOptions): string {
+  const tags = opts.tagStyle === "raw" ? extractRawTags(item.text) : extractTags(item.text, opts.aliases);
+  return tags.map((t) => `#${t}`).join(" ");
+}
+
+/**
+ * 日付の古い順 → 同じ日は保存されている並び。返り値は何行書いたか付き
+ */
+export function buildItemsCsv(entries: DayEntry[], opts: ItemsCsvOptions): { csv: string; rows: number } {
+  const lines = [csvLine(HEADER)];
+
+  const days = [...entries].sort((a, b) => a.ymd.localeCompare(b.ymd));
+  for (const { ymd, day } of days) {
+    const items = day.items.filter((it) => !opts.itemFilter || opts.itemFilter(it, ymd));
+
+    for (const it of items) {
+      lines.push(
+        csvLine([
+          ymd,
+          formatTime(new Date(it.createdAt)),
+          it.text,
+          itemTags(it, opts),
+          day.mood ?? "",
+          day.memo,
+        ]),
+      );
+    }
+  }
+
+  return { csv: `${BOM}${lines.join("\r\n")}\r\n`, rows: lines.length - 1 };
+}
+
+export function itemsCsvFileName(date: Date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return `achieve-diary-items-${stamp}.csv`;
+}
@@ -0,0 +1,102 @@
+/* lib/export/markdown.ts
+ * 日ごとの Markdown 書き出し（Obsidian の daily notes 互換：ファイル名 YYYY-MM-DD.md）
+ * - YAML frontmatter：ymd / mood / items（件数）/ tags（extractTags で正規化したタグ）
+ * - 本文中の #tag も表記ゆれ辞書の正規形に書き換える（vault 内でタグが揃うように）
+ */
+
+import { formatTime } from "@/lib/date";
+import { canonicalizeTag, extractTags, type TagAliases } from "@/lib/diary";
+import type { AchieveDay, DayEntry } from "@/lib/storage";
+
+export type MarkdownFile = {
+  name: string;
+  content: string;
+};
+
+const TAG_RE = /#([^\s#]+)/g;
+const TAG_HEAD_RE = /^[\(\[【「『（]+/;
+const TAG_TAIL_RE = /[\)\]\}】」』）、。．.,!?:;！？]+$/;
+
+/**
+ * Obsidian のタグは空白を含められないので "-" に寄せる
+ */
+function toVaultTag(canon: string): string {
+  return canon.replace(/\s+/g, "-");
+}
+
+/**
+ * #tag を正規形に（前後の括弧・句読点は extractTags と同じ基準で外して残す）
+ */
+export function rewriteTagsCanonical(text: string, aliases: TagAliases): string {
+  return text.replace(TAG_RE, (whole: string, body: string) => {
+    const head = body.match(TAG_HEAD_RE)?.[0] ?? "";
+    const rest = body.slice(head.length);
+    const tail = rest.match(TAG_TAIL_RE)?.[0] ?? "";
+    const core = rest.slice(0, rest.length - tail.length);
+
+    const canon = canonicalizeTag(core, aliases);
+    if (!canon) return whole;
+    return `${head}#${toVaultTag(canon)}${tail}`;
+  });
+}
+
+function yamlString(v: string): string {
+  // JSON の文字列は YAML の double-quoted としてそのまま読める
+  return JSON.stringify(v);
+}
+
+function dayTags(day: AchieveDay, aliases: TagAliases): string[] {
+  const set = new Set<string>();
+  for (const it of day.items) {
+    for (const t of extractTags(it.text, aliases)) set.add(toVaultTag(t));
+  }
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
+
+function bullet(time: string, text: string): string {
+  // 複数行の項目は2文字下げて同じ箇条書きの中に収める
+  const [first = "", ...rest] = text.split("\n");
+  return [`- ${time} ${first}`, ...rest.map((line) => `  ${line}`)].join("\n");
+}
+
+export function dayToMarkdown(day: AchieveDay, aliases: TagAliases): string {
+  const tags = dayTags(day, aliases);
+
+  const front = [
+    "---",
+    `ymd: ${yamlString(day.ymd)}`,
+    `mood: ${day.mood ?? "null"}`,
+    `items: ${day.items.length}`,
+    tags.length ? `tags:\n${tags.map((t) => `  - ${yamlString(t)}`).join("\n")}` : "tags: []",
+    "---",
+  ];
+
+  const body = [`# ${day.ymd}`, "", "## できたこと", ""];
+  if (day.items.length === 0) {
+    body.push("（なし）");
+  } else {
+    for (const it of day.items) {
+      body.push(bullet(formatTime(new Date(it.createdAt)), rewriteTagsCanonical(it.text, aliases)));
+    }
+  }
+
+  if (day.memo.trim()) {
+    body.push("", "## ひとこと", "", rewriteTagsCanonical(day.memo, aliases));
+  }
+
+  return `${front.join("\n")}\n\n${body.join("\n")}\n`;
+}
+
+/**
+ * 日付の古い順（vault に並べたときと同じ順）
+ */
+export function buildMarkdownFiles(entries: DayEntry[], aliases: TagAliases): MarkdownFile[] {
+  return [...entries]
+    .sort((a, b) => a.ymd.localeCompare(b.ymd))
+    .map((e) => ({ name: `${e.ymd}.md`, content: dayToMarkdown(e.day, aliases) }));
+}
+
+export function markdownZipFileName(date: Date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return `achieve-diary-md-${stamp}.zip`;
+}
@@ -0,0 +1,70 @@
+/* lib/frequent-items.ts
+ * よく書く「できたこと」（全日の項目から、繰り返し出てくる本文を集める）
+ * - 同じ本文かは frequentItemKey()（全角/半角・大文字小文字・空白の違いは同じ）。1日に何度書いても1日と数える
+ * - 習慣のチェックで追加した項目は数えない（習慣の欄から追加できるので）
+ * - 並びは直近30日に書いた日数 → 全体の日数 → 最後に書いた日の順（タグ候補と同じく worker / idle で集計）
+ */
+
+import { lastNYmds } from "@/lib/date";
+import { getDateSettings, type DateSettings } from "@/lib/prefs/date-settings";
+import type { DayEntry } from "@/lib/storage";
+
+export type FrequentItem = {
+  key: string; // frequentItemKey(text)
+  text: string; // 最後に書いたときの本文
+  totalDays: number;
+  recent30Days: number;
+  lastSeenYmd: string; // YYYY-MM-DD
+};
+
+const MIN_DAYS = 2; // 1日しか書いていないものは出さない
+const MAX_FREQUENT_ITEMS = 20;
+
+export function frequentItemKey(text: string): string {
+  return text.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * dateSettings：直近30日の数え方（worker には localStorage が無いので呼び出し側から渡す）
+ */
+export function buildFrequentItems(
+  entries: DayEntry[],
+  dateSettings: DateSettings = getDateSettings(),
+): FrequentItem[] {
+  const recentSet = new Set<string>(lastNYmds(30, new Date(), dateSettings));
+
+  const stat = new Map<string, FrequentItem>();
+
+  for (const e of entries) {
+    const isRecent30 = recentSet.has(e.ymd);
+    const seenToday = new Set<string>();
+
+    for (const it of e.day.items) {
+      if (it.habitId) continue;
+
+      const key = frequentItemKey(it.text);
+      if (!key || seenToday.has(key)) continue;
+      seenToday.add(key);
+
+      const cur = stat.get(key) ?? { key, text: it.text, totalDays: 0, recent30Days: 0, lastSeenYmd: "" };
+      cur.totalDays += 1;
+      if (isRecent30) cur.recent30Days += 1;
+      if (!cur.lastSeenYmd || e.ymd > cur.lastSeenYmd) {
+        cur.lastSeenYmd = e.ymd;
+        cur.text = it.text;
+      }
+      stat.set(key, cur);
+    }
+  }
+
+  const arr = Array.from(stat.values()).filter((s) => s.totalDays >= MIN_DAYS);
+
+  arr.sort((a, b) => {
+    if (b.recent30Days !== a.recent30Days) return b.recent30Days - a.recent30Days;
+    if (b.totalDays !== a.totalDays) return b.totalDays - a.totalDays;
+    if (b.lastSeenYmd !== a.lastSeenYmd) return b.lastSeenYmd.localeCompare(a.lastSeenYmd);
+    return a.key.localeCompare(b.key);
+  });
+
+  return arr.slice(0, MAX_FREQUENT_ITEMS);
+}
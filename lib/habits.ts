@@ -0,0 +1,254 @@
+/* lib/habits.ts
+ * 習慣（決まった曜日に繰り返す「できたこと」）
+ * - 定義は localStorage（achieve:habits:v1）。チェックすると普通の AchieveItem（habitId 付き）をその日に追加する
+ * - 達成率・連続記録は保存済みの日から数える（どの日に済んだかは Insights の集計 habitDays から）
+ * - 読み込んだ定義はタブ内でキャッシュし、保存・他タブの変更で読み直して subscribeHabits() に知らせる
+ */
+
+import { addDaysToYmd, formatYmd, weekdayOfYmd } from "@/lib/date";
+import { notifyPrefChanged, subscribePrefChanges } from "@/lib/prefs/notify";
+import { createId, type AchieveDay, type AchieveItem } from "@/lib/storage";
+
+export type Habit = {
+  id: string;
+  name: string; // 追加する項目の本文
+  tag: string; // 既定のタグ（"#" なし。"" = タグなし）
+  weekdays: number[]; // 対象の曜日（0 = 日 … 6 = 土。昇順・1つ以上）
+  createdAt: string; // ISO（この日から数える）
+};
+
+export type HabitDraft = Pick<Habit, "name" | "tag" | "weekdays">;
+
+export type SaveHabitResult = { ok: true; habit: Habit } | { ok: false; error: string };
+
+export type HabitStats = {
+  habitId: string;
+  dueDays: number; // 対象の曜日だった日（作った日から今日まで。今日はチェック済みのときだけ数える）
+  doneDays: number; // そのうちチェックした日
+  rate: number; // doneDays / dueDays（0〜1。対象の日が無ければ 0）
+  currentStreak: number; // 今日（未チェックなら前の対象日）から遡って続いている対象日の数
+  longestStreak: number;
+};
+
+export const HABITS_KEY = "achieve:habits:v1";
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"] as const;
+export const ALL_WEEKDAYS: readonly number[] = [0, 1, 2, 3, 4, 5, 6];
+
+const MAX_HABITS = 50;
+const EMPTY_HABITS: Habit[] = [];
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let cache: Habit[] | null = null;
+let watching = false;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function normalizeWeekdays(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  const set = new Set(v.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6));
+  return [...set].sort((a, b) => a - b);
+}
+
+/**
+ * "#運動 " → "運動"（空白は "-" に。extractTags が1つのタグとして読める形）
+ */
+export function normalizeHabitTag(raw: string): string {
+  return raw.trim().replace(/^#+/, "").trim().replace(/\s+/g, "-");
+}
+
+function toHabit(v: unknown): Habit | null {
+  if (!isRecord(v)) return null;
+  if (typeof v.id !== "string" || !v.id || typeof v.name !== "string" || !v.name.trim()) return null;
+
+  const weekdays = normalizeWeekdays(v.weekdays);
+  if (weekdays.length === 0) return null;
+
+  return {
+    id: v.id,
+    name: v.name.trim(),
+    tag: typeof v.tag === "string" ? normalizeHabitTag(v.tag) : "",
+    weekdays,
+    createdAt: typeof v.createdAt === "string" ? v.createdAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * 壊れた要素は捨てる（並びは保存順）
+ */
+export function loadHabits(storage: Storage): Habit[] {
+  const raw = storage.getItem(HABITS_KEY);
+  if (!raw) return EMPTY_HABITS;
+
+  try {
+    const parsed: unknown = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return EMPTY_HABITS;
+    return parsed.map(toHabit).filter((h): h is Habit => h !== null);
+  } catch {
+    return EMPTY_HABITS;
+  }
+}
+
+function emitChange(): void {
+  for (const l of listeners) l();
+}
+
+function saveHabits(storage: Storage, habits: Habit[]): void {
+  if (habits.length === 0) storage.removeItem(HABITS_KEY);
+  else storage.setItem(HABITS_KEY, JSON.stringify(habits));
+
+  cache = habits;
+  notifyPrefChanged(HABITS_KEY);
+  emitChange();
+}
+
+function validateDraft(draft: HabitDraft): { ok: true; draft: HabitDraft } | { ok: false; error: string } {
+  const name = draft.name.trim();
+  if (!name) return { ok: false, error: "名前を入力してください。" };
+
+  const weekdays = normalizeWeekdays(draft.weekdays);
+  if (weekdays.length === 0) return { ok: false, error: "曜日を1つ以上選んでください。" };
+
+  return { ok: true, draft: { name, tag: normalizeHabitTag(draft.tag), weekdays } };
+}
+
+export function addHabit(storage: Storage, draft: HabitDraft): SaveHabitResult {
+  const v = validateDraft(draft);
+  if (!v.ok) return v;
+
+  const habits = loadHabits(storage);
+  if (habits.length >= MAX_HABITS) return { ok: false, error: `習慣は${MAX_HABITS}個までです。` };
+
+  const habit: Habit = { id: createId(), ...v.draft, createdAt: new Date().toISOString() };
+  try {
+    saveHabits(storage, [...habits, habit]);
+  } catch {
+    return { ok: false, error: "保存できませんでした（容量不足の可能性があります）。" };
+  }
+  return { ok: true, habit };
+}
+
+/**
+ * 名前・タグを変えても、これまでにチェックした項目の本文はそのまま
+ */
+export function updateHabit(storage: Storage, id: string, draft: HabitDraft): SaveHabitResult {
+  const v = validateDraft(draft);
+  if (!v.ok) return v;
+
+  const habits = loadHabits(storage);
+  const prev = habits.find((h) => h.id === id);
+  if (!prev) return { ok: false, error: "この習慣は削除されています。" };
+
+  const habit: Habit = { ...prev, ...v.draft };
+  try {
+    saveHabits(storage, habits.map((h) => (h.id === id ? habit : h)));
+  } catch {
+    return { ok: false, error: "保存できませんでした（容量不足の可能性があります）。" };
+  }
+  return { ok: true, habit };
+}
+
+/**
+ * 定義だけ消す（チェックで追加した項目は普通の「できたこと」として残る）
+ */
+export function removeHabit(storage: Storage, id: string): void {
+  const habits = loadHabits(storage);
+  saveHabits(storage, habits.filter((h) => h.id !== id));
+}
+
+// ===== チェック =====
+
+export function habitItemText(habit: Habit): string {
+  return habit.tag ? `${habit.name} #${habit.tag}` : habit.name;
+}
+
+export function formatHabitWeekdays(habit: Habit): string {
+  // "毎日" / "月・水・金"
+  return habit.weekdays.length === 7 ? "毎日" : habit.weekdays.map((d) => WEEKDAY_LABELS[d]).join("・");
+}
+
+export function isHabitDueOn(habit: Habit, ymd: string): boolean {
+  return habit.weekdays.includes(weekdayOfYmd(ymd));
+}
+
+export function findHabitItem(day: AchieveDay, habitId: string): AchieveItem | undefined {
+  return day.items.find((it) => it.habitId === habitId);
+}
+
+// ===== 集計 =====
+
+/**
+ * doneYmds = チェックした日（順不同・重複可）/ today = 今日の ymd
+ */
+export function computeHabitStats(habit: Habit, doneYmds: readonly string[], today: string): HabitStats {
+  const done = new Set(doneYmds);
+
+  // 作る前の日付に取り込んだチェックがあれば、そこから数える
+  let start = formatYmd(new Date(habit.createdAt));
+  for (const ymd of done) if (ymd < start) start = ymd;
+
+  let dueDays = 0;
+  let doneDays = 0;
+  let run = 0;
+  let longestStreak = 0;
+
+  for (let ymd = start; ymd <= today; ymd = addDaysToYmd(ymd, 1)) {
+    if (!isHabitDueOn(habit, ymd)) continue;
+
+    const isDone = done.has(ymd);
+    // 今日はまだチェックしていなくても途切れにしない
+    if (ymd === today && !isDone) continue;
+
+    dueDays += 1;
+    if (isDone) {
+      doneDays += 1;
+      run += 1;
+      if (run > longestStreak) longestStreak = run;
+    } else {
+      run = 0;
+    }
+  }
+
+  return {
+    habitId: habit.id,
+    dueDays,
+    doneDays,
+    rate: dueDays === 0 ? 0 : doneDays / dueDays,
+    currentStreak: run,
+    longestStreak,
+  };
+}
+
+// ===== store（useSyncExternalStore 用）=====
+
+function reload(): void {
+  cache = loadHabits(window.localStorage);
+  emitChange();
+}
+
+export function getHabits(): Habit[] {
+  if (typeof window === "undefined" || typeof window.localStorage === "undefined") return EMPTY_HABITS;
+
+  if (!watching) {
+    watching = true;
+    // 他タブで変えたら読み直す
+    subscribePrefChanges(HABITS_KEY, reload);
+  }
+
+  cache ??= loadHabits(window.localStorage);
+  return cache;
+}
+
+export function getServerHabits(): Habit[] {
+  return EMPTY_HABITS;
+}
+
+export function subscribeHabits(listener: Listener): () => void {
+  getHabits();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,290 @@
+/* lib/health.ts
+ * 日別データの健全性チェックと修復
+ * - scanDays/normalizeDay は壊れたデータを黙って捨てるので、ここでは “捨てられるもの” を列挙する
+ * - 修復はすべて元データを残す方向（ymd修正 / id再生成 / 退避キーへ隔離）
+ */
+
+import { flushSensitiveStorage, sensitiveStorage } from "@/lib/encryption/sensitive-storage";
+import {
+  DAY_KEY_PREFIX,
+  createId,
+  dayKey,
+  getDayBackend,
+  isYmdString,
+  normalizeItem,
+  removeDayRecord,
+  replaceDayRecord,
+  toFailureReason,
+  type SaveDayResult,
+} from "@/lib/storage";
+
+export const QUARANTINE_KEY_PREFIX = "achieve:quarantine:v1:";
+
+export type DroppedItemReason = "not-object" | "missing-id" | "missing-text";
+
+export type HealthIssue =
+  | { kind: "unparsable"; key: string; ymd: string }
+  | { kind: "invalid-key"; key: string; ymd: string }
+  | { kind: "ymd-mismatch"; key: string; ymd: string; storedYmd: string }
+  | { kind: "duplicate-id"; key: string; itemId: string; ymd: string; index: number; firstYmd: string }
+  | { kind: "dropped-item"; key: string; ymd: string; index: number; reason: DroppedItemReason; preview: string }
+  | { kind: "orphan"; key: string; storageKey: string; storedYmd: string; canMove: boolean };
+
+export type HealthReport = {
+  scannedDays: number;
+  issues: HealthIssue[];
+};
+
+export type QuarantineEntry = {
+  key: string;
+  sourceKey: string;
+  at: string; // ISO
+  raw: string;
+};
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseRecord(raw: string): RawRecord | null {
+  try {
+    const v = JSON.parse(raw) as unknown;
+    return isRecord(v) ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+function looksLikeDay(v: RawRecord): boolean {
+  return typeof v.ymd === "string" && Array.isArray(v.items);
+}
+
+function droppedReason(v: unknown): DroppedItemReason | null {
+  if (normalizeItem(v) !== null) return null;
+  if (!isRecord(v)) return "not-object";
+  const id = typeof v.id === "string" ? v.id.trim() : "";
+  return id ? "missing-text" : "missing-id";
+}
+
+function previewOf(v: unknown): string {
+  const s = isRecord(v) && typeof v.text === "string" ? v.text : JSON.stringify(v) ?? "";
+  return s.length > 60 ? `${s.slice(0, 60)}…` : s;
+}
+
+/**
+ * 日別データ（保存先 backend）と localStorage 全体を走査して問題を列挙
+ */
+export function scanHealth(): HealthReport {
+  const backend = getDayBackend();
+  if (!backend) return { scannedDays: 0, issues: [] };
+
+  const issues: HealthIssue[] = [];
+  const seenIds = new Map<string, string>(); // itemId -> 最初に出てきた ymd
+  const dayYmds = backend.listDays().sort();
+
+  for (const ymd of dayYmds) {
+    const raw = backend.loadDay(ymd) ?? "";
+    const key = dayKey(ymd);
+
+    if (!isYmdString(ymd)) {
+      issues.push({ kind: "invalid-key", key, ymd });
+      continue;
+    }
+
+    const rec = parseRecord(raw);
+    if (!rec) {
+      issues.push({ kind: "unparsable", key, ymd });
+      continue;
+    }
+
+    if (typeof rec.ymd === "string" && rec.ymd !== ymd) {
+      issues.push({ kind: "ymd-mismatch", key, ymd, storedYmd: rec.ymd });
+    }
+
+    const items = Array.isArray(rec.items) ? rec.items : [];
+    items.forEach((it: unknown, index: number) => {
+      const reason = droppedReason(it);
+      if (reason) {
+        issues.push({ kind: "dropped-item", key: `${key}#${index}`, ymd, index, reason, preview: previewOf(it) });
+        return;
+      }
+
+      const itemId = isRecord(it) && typeof it.id === "string" ? it.id.trim() : "";
+      const firstYmd = seenIds.get(itemId);
+      if (firstYmd !== undefined) {
+        issues.push({ kind: "duplicate-id", key: `${key}#${index}`, itemId, ymd, index, firstYmd });
+      } else {
+        seenIds.set(itemId, ymd);
+      }
+    });
+  }
+
+  // localStorage 上の “日付キー以外” に置かれた day っぽいデータ
+  if (typeof window !== "undefined") {
+    const storage = window.localStorage;
+    const existing = new Set(dayYmds);
+
+    for (let i = 0; i < storage.length; i++) {
+      const k = storage.key(i);
+      if (!k || k.startsWith(DAY_KEY_PREFIX) || k.startsWith(QUARANTINE_KEY_PREFIX)) continue;
+
+      const rec = parseRecord(storage.getItem(k) ?? "");
+      if (!rec || !looksLikeDay(rec)) continue;
+
+      const storedYmd = String(rec.ymd);
+      issues.push({
+        kind: "orphan",
+        key: `orphan:${k}`,
+        storageKey: k,
+        storedYmd,
+        canMove: isYmdString(storedYmd) && !existing.has(storedYmd),
+      });
+    }
+  }
+
+  return { scannedDays: dayYmds.length, issues };
+}
+
+// ===== 退避（quarantine）=====
+
+/**
+ * 退避キーへ書く（暗号化中は書き込みが終わるまで待つ。元を消すのはその後）
+ */
+async function quarantineRaw(sourceKey: string, raw: string): Promise<SaveDayResult> {
+  const at = new Date().toISOString();
+  const entry: QuarantineEntry = { key: `${QUARANTINE_KEY_PREFIX}${at}:${sourceKey}`, sourceKey, at, raw };
+
+  try {
+    sensitiveStorage(window.localStorage).setItem(entry.key, JSON.stringify(entry));
+    await flushSensitiveStorage();
+  } catch (e: unknown) {
+    return { ok: false, reason: toFailureReason(e) };
+  }
+  return { ok: true };
+}
+
+export function listQuarantine(): QuarantineEntry[] {
+  if (typeof window === "undefined") return [];
+
+  const storage = sensitiveStorage(window.localStorage);
+  const out: QuarantineEntry[] = [];
+
+  for (let i = 0; i < storage.length; i++) {
+    const k = storage.key(i);
+    if (!k || !k.startsWith(QUARANTINE_KEY_PREFIX)) continue;
+
+    const rec = parseRecord(storage.getItem(k) ?? "");
+    if (!rec) continue;
+
+    out.push({
+      key: k,
+      sourceKey: typeof rec.sourceKey === "string" ? rec.sourceKey : "",
+      at: typeof rec.at === "string" ? rec.at : "",
+      raw: typeof rec.raw === "string" ? rec.raw : "",
+    });
+  }
+
+  return out.sort((a, b) => b.at.localeCompare(a.at));
+}
+
+export function deleteQuarantine(key: string): void {
+  if (!key.startsWith(QUARANTINE_KEY_PREFIX)) return;
+  sensitiveStorage(window.localStorage).removeItem(key);
+}
+
+// ===== 修復 =====
+
+function editDayRecord(ymd: string, edit: (rec: RawRecord) => RawRecord | null): SaveDayResult {
+  const backend = getDayBackend();
+  if (!backend) return { ok: false, reason: "unavailable" };
+
+  const rec = parseRecord(backend.loadDay(ymd) ?? "");
+  if (!rec) return { ok: false, reason: "unavailable" };
+
+  const next = edit(rec);
+  if (!next) return { ok: true };
+
+  return replaceDayRecord(ymd, JSON.stringify(next));
+}
+
+/**
+ * 日別キー（生JSON）を丸ごと退避キーへ移して元を消す
+ */
+export async function quarantineDay(ymd: string): Promise<SaveDayResult> {
+  const backend = getDayBackend();
+  if (!backend) return { ok: false, reason: "unavailable" };
+
+  const res = await quarantineRaw(dayKey(ymd), backend.loadDay(ymd) ?? "");
+  if (res.ok) removeDayRecord(ymd);
+  return res;
+}
+
+export async function quarantineOrphan(storageKey: string): Promise<SaveDayResult> {
+  const raw = window.localStorage.getItem(storageKey);
+  if (raw === null) return { ok: true };
+
+  const res = await quarantineRaw(storageKey, raw);
+  if (res.ok) window.localStorage.removeItem(storageKey);
+  return res;
+}
+
+/**
+ * 日付キー以外にあった day を、その ymd の日付キーへ移す（移し先が空の場合のみ）
+ */
+export function moveOrphanToDayKey(storageKey: string): SaveDayResult {
+  const raw = window.localStorage.getItem(storageKey);
+  const rec = raw ? parseRecord(raw) : null;
+  if (!raw || !rec || typeof rec.ymd !== "string" || !isYmdString(rec.ymd)) {
+    return { ok: false, reason: "invalid-ymd" };
+  }
+
+  const res = replaceDayRecord(rec.ymd, raw);
+  if (res.ok) window.localStorage.removeItem(storageKey);
+  return res;
+}
+
+/**
+ * 保存データ内の ymd をキー側に合わせる
+ */
+export function fixDayYmd(ymd: string): SaveDayResult {
+  return editDayRecord(ymd, (rec) => ({ ...rec, ymd }));
+}
+
+/**
+ * items[index] に新しい id を振る（重複 id / id 欠落の修復）
+ */
+export function regenerateItemId(ymd: string, index: number): SaveDayResult {
+  return editDayRecord(ymd, (rec) => {
+    const items = Array.isArray(rec.items) ? [...(rec.items as unknown[])] : [];
+    const it = items[index];
+    if (!isRecord(it)) return null;
+
+    items[index] = { ...it, id: createId() };
+    return { ...rec, items };
+  });
+}
+
+/**
+ * items[index] を退避キーへ移し、日からは取り除く
+ */
+export async function quarantineItem(ymd: string, index: number): Promise<SaveDayResult> {
+  const backend = getDayBackend();
+  const rec = backend ? parseRecord(backend.loadDay(ymd) ?? "") : null;
+  const items = rec && Array.isArray(rec.items) ? (rec.items as unknown[]) : [];
+  if (index < 0 || index >= items.length) return { ok: true };
+
+  const raw = JSON.stringify(items[index]) ?? "null";
+  const res = await quarantineRaw(`${dayKey(ymd)}#${index}`, raw);
+  if (!res.ok) return res;
+
+  // 退避を待つ間に書き換わっていたら取り除かない（退避した写しは残る）
+  return editDayRecord(ymd, (latest) => {
+    const next = Array.isArray(latest.items) ? [...(latest.items as unknown[])] : [];
+    if ((JSON.stringify(next[index]) ?? "null") !== raw) return null;
+
+    next.splice(index, 1);
+    return { ...latest, items: next };
+  });
+}
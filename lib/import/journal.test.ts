@@ -0,0 +1,44 @@
+/* lib/import/journal.test.ts */
+import { describe, expect, it } from "vitest";
+import { parseJournal } from "@/lib/import/journal";
+
+describe("parseJournal", () => {
+  it("日付の見出しごとに箇条書きを分ける", () => {
+    const res = parseJournal(
+      ["## 2025-03-04", "- 散歩した", "- 09:30 本を読んだ", "", "2025/3/5 (水) 😊", "・早く寝た"].join("\n"),
+    );
+
+    expect(res.skippedLines).toBe(0);
+    expect(res.days).toEqual([
+      {
+        ymd: "2025-03-04",
+        items: [
+          { text: "散歩した", time: null },
+          { text: "本を読んだ", time: "09:30" },
+        ],
+        mood: null,
+        memo: "",
+      },
+      { ymd: "2025-03-05", items: [{ text: "早く寝た", time: null }], mood: "good", memo: "" },
+    ]);
+  });
+
+  it("存在しない日付の見出しの下は前の日に入れず、読み飛ばした行に数える", () => {
+    const res = parseJournal(
+      ["## 2025-03-06", "- ok", "## 2025-02-30", "- bad", "- bad2", "## 2025-03-07", "- next"].join("\n"),
+    );
+
+    expect(res.skippedLines).toBe(2);
+    expect(res.days.map((d) => [d.ymd, d.items.map((it) => it.text)])).toEqual([
+      ["2025-03-06", ["ok"]],
+      ["2025-03-07", ["next"]],
+    ]);
+  });
+
+  it("ファイル名の日付より後でも、存在しない日付の見出しの下は入れない", () => {
+    const res = parseJournal(["- 先頭", "# 2025年2月30日", "- bad"].join("\n"), { defaultYmd: "2025-03-06" });
+
+    expect(res.skippedLines).toBe(1);
+    expect(res.days.map((d) => [d.ymd, d.items.map((it) => it.text)])).toEqual([["2025-03-06", ["先頭"]]]);
+  });
+});
@@ -0,0 +1,409 @@
+/* lib/import/journal.ts
+ * テキスト / Markdown の日記からの一括取り込み
+ * - 日付の見出し（"## 2025-03-04" / "2025/3/4" / "2025年3月4日(火)"）で日を区切り、箇条書き（- ・ *）を AchieveItem に
+ * - 気分は 😊/😐/😣 の印か "mood:" 行、それ以外の地の文は「ひとこと」へ
+ * - lib/export/markdown.ts の書き出し（frontmatter / "- HH:mm 本文"）もそのまま読み戻せる
+ * - 取り込みは backup と同じく プレビュー（重複判定）→ saveDay。同じ日の同じ本文は追加しない
+ */
+
+import { insertItemsNewestFirst } from "@/lib/backup";
+import { dayStartOf, dayTimeOf } from "@/lib/date";
+import {
+  createId,
+  isYmdString,
+  loadDay,
+  saveDay,
+  scanDays,
+  type AchieveDay,
+  type AchieveItem,
+  type AchieveMood,
+} from "@/lib/storage";
+
+export type JournalItem = {
+  text: string;
+  time: string | null; // "HH:mm"（"- 09:30 本文" のように書いてあれば）
+};
+
+export type JournalDay = {
+  ymd: string;
+  items: JournalItem[];
+  mood: AchieveMood;
+  memo: string;
+};
+
+export type ParseJournalResult = {
+  days: JournalDay[]; // 日付の古い順
+  skippedLines: number; // 日付の見出しより前など、どの日にも入れられなかった行
+};
+
+export type JournalSource = {
+  name: string; // ファイル名（貼り付けは ""）
+  text: string;
+};
+
+export type ParseJournalOptions = {
+  defaultYmd?: string | null; // 見出しより前の行を入れる日（ファイル名が YYYY-MM-DD.md のときなど）
+};
+
+export type JournalDayStatus = "new" | "merge" | "same";
+
+export type JournalDayPlan = {
+  ymd: string;
+  status: JournalDayStatus;
+  addedItems: AchieveItem[];
+  duplicateItems: number; // 既にある（または同じ日の中で重なった）本文
+  mood: AchieveMood; // 取り込む気分（現在が未設定のときだけ入る）
+  memo: string; // 取り込むひとこと（現在が空のときだけ入る）
+  moodConflict: boolean;
+  memoConflict: boolean;
+};
+
+export type JournalImportPlan = {
+  days: JournalDayPlan[];
+  skippedLines: number;
+};
+
+const DATE_RE = /^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?/;
+const HEADING_RE = /^#{1,6}(?:\s+|(?=\d))/; // "#タグ" で始まる行は見出しにしない
+const WEEKDAY_RE = /^[(（][月火水木金土日a-z]{1,3}\.?[)）]/i;
+const BULLET_RE = /^\s*(?:[-*+]\s+|[・•]\s*)(?:\[[ xX]\]\s+)?(.*)$/;
+const TIME_RE = /^(\d{1,2}):(\d{2})\s+(.+)$/;
+const MOOD_LINE_RE = /^(?:mood|気分)\s*[:：]\s*(.*)$/i;
+const MEMO_LINE_RE = /^(?:memo|ひとこと|メモ)\s*[:：]\s*(.*)$/i;
+const FRONTMATTER_YMD_RE = /^ymd\s*:\s*"?(\d{4}-\d{2}-\d{2})"?\s*$/;
+
+const MOOD_EMOJI: { re: RegExp; mood: Exclude<AchieveMood, null> }[] = [
+  { re: /[😊🙂😄😀😁🥰]/u, mood: "good" },
+  { re: /[😐😶]/u, mood: "neutral" },
+  { re: /[😣😞😢😫😩😭]/u, mood: "tough" },
+];
+const MOOD_EMOJI_ONLY_RE = /^[\s\uFE0F😊🙂😄😀😁🥰😐😶😣😞😢😫😩😭]+$/u;
+
+const MOOD_WORDS: Record<string, Exclude<AchieveMood, null>> = {
+  good: "good",
+  よい: "good",
+  良い: "good",
+  いい: "good",
+  よかった: "good",
+  neutral: "neutral",
+  ふつう: "neutral",
+  普通: "neutral",
+  tough: "tough",
+  しんどい: "tough",
+  つらい: "tough",
+  辛い: "tough",
+};
+
+// 区切り線と、自分の書き出し（lib/export/markdown.ts）が入れる空の印は読み飛ばす
+const RULE_RE = /^(?:-{3,}|\*{3,}|_{3,})$/;
+const IGNORED_LINES = new Set(["（なし）"]);
+
+function toYmd(y: string, m: string, d: string): string | null {
+  const ymd = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  if (!isYmdString(ymd)) return null;
+
+  // 2025-02-30 のような存在しない日は落とす
+  const date = new Date(`${ymd}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== ymd) return null;
+  return ymd;
+}
+
+/**
+ * ファイル名などから日付を拾う（"2025-03-04.md" → "2025-03-04"）
+ */
+function ymdFromText(text: string): string | null {
+  const m = text.match(/(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+  return m ? toYmd(m[1] ?? "", m[2] ?? "", m[3] ?? "") : null;
+}
+
+function moodFromEmoji(text: string): AchieveMood {
+  for (const { re, mood } of MOOD_EMOJI) {
+    if (re.test(text)) return mood;
+  }
+  return null;
+}
+
+function moodFromValue(raw: string): AchieveMood {
+  const v = raw.normalize("NFKC").trim().replace(/^"|"$/g, "").toLowerCase();
+  return MOOD_WORDS[v] ?? moodFromEmoji(v);
+}
+
+/**
+ * 日付の見出しなら ymd と残り（見出しに付いた気分の印を拾う用）
+ * - "#" 付きなら後ろに何が続いてもよい。"#" 無しは日付（+曜日・気分の印）だけの行に限る
+ * - 2025-02-30 のような存在しない日付の見出しは ymd: null（前の日に続けて入れないため）
+ */
+function parseDateHeading(line: string): { ymd: string | null; rest: string } | null {
+  const heading = HEADING_RE.test(line);
+  const body = line.replace(HEADING_RE, "").normalize("NFKC").trim();
+
+  const m = body.match(DATE_RE);
+  if (!m) return null;
+
+  const rest = body.slice(m[0].length).trim().replace(WEEKDAY_RE, "").trim();
+  if (!heading && rest && !MOOD_EMOJI_ONLY_RE.test(rest)) return null;
+  return { ymd: toYmd(m[1] ?? "", m[2] ?? "", m[3] ?? ""), rest };
+}
+
+function parseBullet(text: string): JournalItem {
+  const m = text.match(TIME_RE);
+  if (m) {
+    const hh = Number(m[1]);
+    const mm = Number(m[2]);
+    if (hh < 24 && mm < 60) {
+      return { text: (m[3] ?? "").trim(), time: `${String(hh).padStart(2, "0")}:${m[2]}` };
+    }
+  }
+  return { text: text.trim(), time: null };
+}
+
+/**
+ * 本文を読み取って日ごとにまとめる（書き込みはしない）
+ * - 同じ日付が何度出てきても1日にまとめる
+ */
+export function parseJournal(text: string, opts: ParseJournalOptions = {}): ParseJournalResult {
+  const byYmd = new Map<string, JournalDay>();
+  const memoLines = new Map<string, string[]>();
+  let skippedLines = 0;
+
+  function dayOf(ymd: string): JournalDay {
+    let day = byYmd.get(ymd);
+    if (!day) {
+      day = { ymd, items: [], mood: null, memo: "" };
+      byYmd.set(ymd, day);
+      memoLines.set(ymd, []);
+    }
+    return day;
+  }
+
+  const defaultYmd = opts.defaultYmd && isYmdString(opts.defaultYmd) ? opts.defaultYmd : null;
+  let current: JournalDay | null = defaultYmd ? dayOf(defaultYmd) : null;
+  let lastItem: JournalItem | null = null;
+  let inFrontmatter = false;
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  lines.forEach((raw, index) => {
+    const line = raw.trimEnd();
+    const trimmed = line.trim();
+
+    // frontmatter は先頭か "ymd:" で始まるものだけ（日の区切りに使う "---" と区別する）
+    const opensFrontmatter = index === 0 || FRONTMATTER_YMD_RE.test(lines[index + 1]?.trim() ?? "");
+    if (trimmed === "---" && (inFrontmatter || opensFrontmatter)) {
+      inFrontmatter = !inFrontmatter;
+      lastItem = null;
+      return;
+    }
+
+    if (inFrontmatter) {
+      // frontmatter は ymd と mood だけ読む（tags などの "  - x" を項目にしない）
+      const ymd = trimmed.match(FRONTMATTER_YMD_RE)?.[1];
+      if (ymd && isYmdString(ymd)) current = dayOf(ymd);
+      const mood = trimmed.match(MOOD_LINE_RE)?.[1];
+      if (mood !== undefined && current) current.mood = moodFromValue(mood) ?? current.mood;
+      return;
+    }
+
+    if (!trimmed) {
+      lastItem = null;
+      return;
+    }
+
+    const heading = parseDateHeading(trimmed);
+    if (heading) {
+      // 存在しない日付の見出しの下は、次の見出しまでどの日にも入れない（skippedLines に数える）
+      current = heading.ymd ? dayOf(heading.ymd) : null;
+      if (current) current.mood = moodFromEmoji(heading.rest) ?? current.mood;
+      lastItem = null;
+      return;
+    }
+
+    if (HEADING_RE.test(trimmed) || RULE_RE.test(trimmed) || IGNORED_LINES.has(trimmed)) {
+      lastItem = null;
+      return;
+    }
+
+    if (!current) {
+      skippedLines += 1;
+      return;
+    }
+
+    const bullet = line.match(BULLET_RE);
+    if (bullet) {
+      const body = bullet[1] ?? "";
+      if (MOOD_EMOJI_ONLY_RE.test(body)) {
+        current.mood = moodFromEmoji(body);
+        lastItem = null;
+        return;
+      }
+      if (!body.trim()) return;
+      lastItem = parseBullet(body);
+      current.items.push(lastItem);
+      return;
+    }
+
+    // 箇条書きの下に字下げして続く行は同じ項目の続き
+    if (lastItem && /^(?:\s{2,}|\t)/.test(line)) {
+      lastItem.text = `${lastItem.text}\n${trimmed}`;
+      return;
+    }
+    lastItem = null;
+
+    const mood = trimmed.match(MOOD_LINE_RE)?.[1];
+    if (mood !== undefined) {
+      current.mood = moodFromValue(mood) ?? current.mood;
+      return;
+    }
+
+    if (MOOD_EMOJI_ONLY_RE.test(trimmed)) {
+      current.mood = moodFromEmoji(trimmed);
+      return;
+    }
+
+    const memo = trimmed.match(MEMO_LINE_RE)?.[1] ?? trimmed;
+    if (memo) memoLines.get(current.ymd)?.push(memo);
+  });
+
+  const days = Array.from(byYmd.values())
+    .map((d) => ({ ...d, memo: (memoLines.get(d.ymd) ?? []).join("\n") }))
+    .filter((d) => d.items.length > 0 || d.mood !== null || d.memo !== "")
+    .sort((a, b) => a.ymd.localeCompare(b.ymd));
+
+  return { days, skippedLines };
+}
+
+/**
+ * 複数ファイルをまとめて読む（daily notes のように1日1ファイルなら、見出しが無くてもファイル名の日付に入れる）
+ */
+export function parseJournalSources(sources: JournalSource[]): ParseJournalResult {
+  const byYmd = new Map<string, JournalDay>();
+  let skippedLines = 0;
+
+  for (const src of sources) {
+    const parsed = parseJournal(src.text, { defaultYmd: ymdFromText(src.name) });
+    skippedLines += parsed.skippedLines;
+
+    for (const d of parsed.days) {
+      const prev = byYmd.get(d.ymd);
+      byYmd.set(
+        d.ymd,
+        prev
+          ? {
+              ymd: d.ymd,
+              items: [...prev.items, ...d.items],
+              mood: d.mood ?? prev.mood,
+              memo: [prev.memo, d.memo].filter(Boolean).join("\n"),
+            }
+          : d,
+      );
+    }
+  }
+
+  const days = Array.from(byYmd.values()).sort((a, b) => a.ymd.localeCompare(b.ymd));
+  return { days, skippedLines };
+}
+
+/**
+ * 重複判定用（全角/半角・前後の空白・連続空白・大文字小文字の違いは同じとみなす）
+ */
+function itemKey(text: string): string {
+  return text.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * 時刻の無い項目はその日の始まりから1秒ずつずらし、書いた順が Today の並びでも崩れないようにする
+ * - 時刻は設定のタイムゾーン。1日の始まりの時より前（例：4時始まりの 1:30）は翌朝の時刻として扱う
+ */
+function itemCreatedAt(ymd: string, item: JournalItem, index: number): string {
+  if (item.time) return dayTimeOf(ymd, item.time).toISOString();
+  return new Date(dayStartOf(ymd).getTime() + index * 1000).toISOString();
+}
+
+function planDay(incoming: JournalDay, current: AchieveDay | null, nowIso: string): JournalDayPlan {
+  const seen = new Set((current?.items ?? []).map((it) => itemKey(it.text)));
+  const addedItems: AchieveItem[] = [];
+  let duplicateItems = 0;
+
+  incoming.items.forEach((it, index) => {
+    const key = itemKey(it.text);
+    if (!key || seen.has(key)) {
+      duplicateItems += 1;
+      return;
+    }
+    seen.add(key);
+    addedItems.push({
+      id: createId(),
+      text: it.text,
+      done: true,
+      createdAt: itemCreatedAt(incoming.ymd, it, index),
+      updatedAt: nowIso,
+    });
+  });
+
+  const curMood = current?.mood ?? null;
+  const curMemo = current?.memo ?? "";
+  const moodConflict = curMood !== null && incoming.mood !== null && curMood !== incoming.mood;
+  const memoConflict = curMemo !== "" && incoming.memo !== "" && curMemo !== incoming.memo;
+  const moodChanged = curMood === null && incoming.mood !== null;
+  const memoChanged = curMemo === "" && incoming.memo !== "";
+
+  const changed = addedItems.length > 0 || moodChanged || memoChanged;
+
+  return {
+    ymd: incoming.ymd,
+    status: !changed ? "same" : current ? "merge" : "new",
+    addedItems,
+    duplicateItems,
+    mood: incoming.mood,
+    memo: incoming.memo,
+    moodConflict,
+    memoConflict,
+  };
+}
+
+/**
+ * 取り込み前のプレビュー（書き込みはしない）
+ * - 現在の同じ日と本文が同じ項目は追加しない（何度取り込んでも増えない）
+ * - 気分 / ひとことは現在が未設定のときだけ入れる（違う値は現在を維持）
+ */
+export function buildJournalImportPlan(parsed: ParseJournalResult): JournalImportPlan {
+  const current = new Map<string, AchieveDay>();
+  for (const e of scanDays()) current.set(e.ymd, e.day);
+
+  const nowIso = new Date().toISOString();
+  return {
+    days: parsed.days.map((d) => planDay(d, current.get(d.ymd) ?? null, nowIso)),
+    skippedLines: parsed.skippedLines,
+  };
+}
+
+/**
+ * プレビュー済みの plan を書き込む（saveDay 経由）
+ * - 書き込む直前に最新を読み直し、その間に書かれた同じ本文は追加しない
+ */
+export function applyJournalImportPlan(plan: JournalImportPlan): { savedDays: number; failedDays: string[] } {
+  let savedDays = 0;
+  const failedDays: string[] = [];
+
+  for (const p of plan.days) {
+    if (p.status === "same") continue;
+
+    const latest = loadDay(p.ymd);
+    const known = new Set(latest.items.map((it) => itemKey(it.text)));
+    const extra = p.addedItems.filter((it) => !known.has(itemKey(it.text)));
+
+    const mood = latest.mood ?? p.mood;
+    const memo = latest.memo || p.memo;
+    if (extra.length === 0 && mood === latest.mood && memo === latest.memo) continue;
+
+    const res = saveDay({
+      ...latest,
+      items: extra.length ? insertItemsNewestFirst(latest.items, extra) : latest.items,
+      mood,
+      memo,
+    });
+    if (res.ok) savedDays += 1;
+    else failedDays.push(p.ymd);
+  }
+
+  return { savedDays, failedDays };
+}
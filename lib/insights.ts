@@ -0,0 +1,70 @@
+/* lib/insights.ts
+ * Insights 画面の集計（総日数 / 総件数 / 1日平均 / 頻出ワード / 今日のベスト / 習慣をチェックした日）
+ * - 全日を走査する純関数。worker（lib/workers/compute.worker.ts）と idle 実行の両方から呼ぶ
+ */
+
+import type { DayEntry } from "@/lib/storage";
+
+export type Insights = {
+  totalDays: number;
+  totalItems: number;
+  avgItemsPerDay: number;
+  topWords: Array<{ word: string; count: number }>;
+  bestDays: number; // 今日のベストを選んだ日数
+  recentBests: Array<{ ymd: string; text: string }>; // 新しい日から RECENT_BESTS_LIMIT 件
+  habitDays: Record<string, string[]>; // habitId → チェックした日（達成率・連続記録は lib/habits.ts の computeHabitStats）
+};
+
+const RECENT_BESTS_LIMIT = 10;
+
+export const EMPTY_INSIGHTS: Insights = {
+  totalDays: 0,
+  totalItems: 0,
+  avgItemsPerDay: 0,
+  topWords: [],
+  bestDays: 0,
+  recentBests: [],
+  habitDays: {},
+};
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[\u3000\s]+/g, " ")
+    .split(/[^a-z0-9\u3040-\u30ff\u4e00-\u9fff]+/g)
+    .map((s) => s.trim())
+    .filter((s) => s.length >= 2);
+}
+
+export function computeInsights(entries: DayEntry[]): Insights {
+  const totalDays = entries.length;
+  let totalItems = 0;
+
+  const wordCount = new Map<string, number>();
+  const bests: Array<{ ymd: string; text: string }> = [];
+  const habitDays: Record<string, string[]> = {};
+
+  for (const e of entries) {
+    totalItems += e.day.items.length;
+
+    const best = e.day.pinnedId ? e.day.items.find((it) => it.id === e.day.pinnedId) : undefined;
+    if (best) bests.push({ ymd: e.ymd, text: best.text });
+    for (const it of e.day.items) {
+      if (it.habitId) (habitDays[it.habitId] ??= []).push(e.ymd);
+      for (const w of tokenize(it.text)) {
+        wordCount.set(w, (wordCount.get(w) ?? 0) + 1);
+      }
+    }
+  }
+
+  const avgItemsPerDay = totalDays === 0 ? 0 : totalItems / totalDays;
+
+  const topWords = Array.from(wordCount.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([word, count]) => ({ word, count }));
+
+  const recentBests = bests.sort((a, b) => b.ymd.localeCompare(a.ymd)).slice(0, RECENT_BESTS_LIMIT);
+
+  return { totalDays, totalItems, avgItemsPerDay, topWords, bestDays: bests.length, recentBests, habitDays };
+}
@@ -1,4 +1,6 @@
 /* lib/prefs/bool.ts */
+import { notifyPrefChanged } from "@/lib/prefs/notify";
+
 export function loadBool(storage: Storage, key: string, defaultValue: boolean): boolean {
   const raw = storage.getItem(key);
   if (!raw) return defaultValue;
@@ -9,4 +11,5 @@ export function loadBool(storage: Storage, key: string, defaultValue: boolean):
 
 export function saveBool(storage: Storage, key: string, value: boolean): void {
   storage.setItem(key, value ? "1" : "0");
+  notifyPrefChanged(key);
 }
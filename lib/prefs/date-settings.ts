@@ -0,0 +1,122 @@
+/* lib/prefs/date-settings.ts
+ * 日付の設定（localStorage: achieve:date-settings:v1）
+ * - timeZone：IANA タイムゾーン（既定 Asia/Tokyo）
+ * - dayStartHour：1日の始まりの時（0〜12。4 なら 3:59 までの記録は前日のもの）
+ * - 読み込んだ値はタブ内でキャッシュし、保存・他タブの変更で読み直して subscribeDateSettings() に知らせる
+ */
+
+import { notifyPrefChanged, subscribePrefChanges } from "@/lib/prefs/notify";
+
+export type DateSettings = {
+  timeZone: string;
+  dayStartHour: number;
+};
+
+export const DATE_SETTINGS_KEY = "achieve:date-settings:v1";
+export const DEFAULT_DATE_SETTINGS: DateSettings = { timeZone: "Asia/Tokyo", dayStartHour: 0 };
+export const MAX_DAY_START_HOUR = 12;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let cache: DateSettings | null = null;
+let watching = false;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidDayStartHour(hour: number): boolean {
+  return Number.isInteger(hour) && hour >= 0 && hour <= MAX_DAY_START_HOUR;
+}
+
+/**
+ * このブラウザ（OS）のタイムゾーン（取れなければ null）
+ */
+export function browserTimeZone(): string | null {
+  try {
+    const tz = new Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return tz && isValidTimeZone(tz) ? tz : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 壊れた値・知らないタイムゾーンは項目ごとに既定値へ
+ */
+export function loadDateSettings(storage: Storage): DateSettings {
+  const raw = storage.getItem(DATE_SETTINGS_KEY);
+  if (!raw) return DEFAULT_DATE_SETTINGS;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    return DEFAULT_DATE_SETTINGS;
+  }
+  if (!isRecord(parsed)) return DEFAULT_DATE_SETTINGS;
+
+  const timeZone =
+    typeof parsed.timeZone === "string" && isValidTimeZone(parsed.timeZone)
+      ? parsed.timeZone
+      : DEFAULT_DATE_SETTINGS.timeZone;
+  const dayStartHour =
+    typeof parsed.dayStartHour === "number" && isValidDayStartHour(parsed.dayStartHour)
+      ? parsed.dayStartHour
+      : DEFAULT_DATE_SETTINGS.dayStartHour;
+
+  return { timeZone, dayStartHour };
+}
+
+function emitChange(): void {
+  for (const l of listeners) l();
+}
+
+function reload(): void {
+  cache = loadDateSettings(window.localStorage);
+  emitChange();
+}
+
+/**
+ * 保存済みの設定（サーバー側では既定値）
+ */
+export function getDateSettings(): DateSettings {
+  if (typeof window === "undefined" || typeof window.localStorage === "undefined") return DEFAULT_DATE_SETTINGS;
+
+  if (!watching) {
+    watching = true;
+    // 他タブで変えたら読み直す
+    subscribePrefChanges(DATE_SETTINGS_KEY, reload);
+  }
+
+  cache ??= loadDateSettings(window.localStorage);
+  return cache;
+}
+
+export function saveDateSettings(storage: Storage, settings: DateSettings): void {
+  storage.setItem(DATE_SETTINGS_KEY, JSON.stringify(settings));
+  cache = settings;
+  notifyPrefChanged(DATE_SETTINGS_KEY);
+  emitChange();
+}
+
+/**
+ * 設定が変わったら呼ばれる（このタブでの保存 / 他タブでの保存）
+ */
+export function subscribeDateSettings(listener: Listener): () => void {
+  getDateSettings();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,45 @@
+/* lib/prefs/notify.ts
+ * 小さな永続設定（localStorage の1キー）の変更を他タブへ知らせる
+ * - 保存した側は notifyPrefChanged(key)、表示している側は subscribePrefChanges(key, ...) で読み直す
+ * - 購読中のキーの storage イベントも prefs-changed に読み替える
+ */
+
+import { mapStorageKeyToBusEvent, publishBusEvent, subscribeBusEvents, type BusEvent } from "@/lib/event-bus";
+
+// 購読中のキー → 購読数（storage イベントの読み替え対象）
+const watchedKeys = new Map<string, number>();
+let detachStorageMap: (() => void) | null = null;
+
+function mapStorageKey(key: string | null): BusEvent | null {
+  if (key === null || !watchedKeys.has(key)) return null;
+  return { type: "prefs-changed", key };
+}
+
+export function notifyPrefChanged(key: string): void {
+  publishBusEvent({ type: "prefs-changed", key });
+}
+
+/**
+ * 他タブで key が保存されたら listener を呼ぶ
+ */
+export function subscribePrefChanges(key: string, listener: () => void): () => void {
+  watchedKeys.set(key, (watchedKeys.get(key) ?? 0) + 1);
+  detachStorageMap ??= mapStorageKeyToBusEvent(mapStorageKey);
+
+  const unsubscribe = subscribeBusEvents((e) => {
+    if (e.type === "prefs-changed" && e.key === key) listener();
+  });
+
+  return () => {
+    unsubscribe();
+
+    const n = (watchedKeys.get(key) ?? 1) - 1;
+    if (n > 0) watchedKeys.set(key, n);
+    else watchedKeys.delete(key);
+
+    if (watchedKeys.size === 0 && detachStorageMap) {
+      detachStorageMap();
+      detachStorageMap = null;
+    }
+  };
+}
@@ -0,0 +1,188 @@
+/* lib/revisions.ts
+ * item 本文 / ひとこと（memo）の版履歴（localStorage・日ごとに1キー）
+ * - 上書き前の内容を最初の版として残し、以降は保存のたびに1版ずつ積む
+ * - memo の自動保存（debounce）は短時間の連続保存を1版にまとめる（大きな削除は別版）
+ * - 1対象あたり MAX_REVISIONS 版まで（古いものから捨てる）
+ */
+
+import { sensitiveStorage } from "@/lib/encryption/sensitive-storage";
+import { commitDay, type CommitDayResult } from "@/lib/day-merge";
+import { loadDay } from "@/lib/storage";
+
+export const REVISIONS_KEY_PREFIX = "achieve:revisions:v1:";
+
+const MAX_REVISIONS = 20;
+const COALESCE_MS = 60 * 1000;
+
+export type Revision = {
+  at: string; // ISO
+  text: string;
+};
+
+export type RevisionTarget = { kind: "item"; itemId: string } | { kind: "memo" };
+
+type DayRevisions = {
+  items: Record<string, Revision[]>;
+  memo: Revision[];
+};
+
+function revisionsKey(ymd: string): string {
+  return `${REVISIONS_KEY_PREFIX}${ymd}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function toRevisions(v: unknown): Revision[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter(
+    (r): r is Revision => isRecord(r) && typeof r.at === "string" && typeof r.text === "string",
+  );
+}
+
+function loadDayRevisions(storage: Storage, ymd: string): DayRevisions {
+  const raw = sensitiveStorage(storage).getItem(revisionsKey(ymd));
+  const empty: DayRevisions = { items: {}, memo: [] };
+  if (!raw) return empty;
+
+  try {
+    const parsed: unknown = JSON.parse(raw) as unknown;
+    if (!isRecord(parsed)) return empty;
+
+    const items: Record<string, Revision[]> = {};
+    if (isRecord(parsed.items)) {
+      for (const [id, list] of Object.entries(parsed.items)) {
+        const revs = toRevisions(list);
+        if (revs.length) items[id] = revs;
+      }
+    }
+    return { items, memo: toRevisions(parsed.memo) };
+  } catch {
+    return empty;
+  }
+}
+
+function saveDayRevisions(storage: Storage, ymd: string, data: DayRevisions): void {
+  sensitiveStorage(storage).setItem(revisionsKey(ymd), JSON.stringify(data));
+}
+
+/**
+ * 長さが大きく変わった保存（誤ペースト・一括削除など）はまとめずに別版として残す
+ */
+function isLargeChange(prev: string, next: string): boolean {
+  const delta = Math.abs(prev.length - next.length);
+  return delta > Math.max(20, prev.length * 0.3);
+}
+
+function appendRevision(
+  list: Revision[],
+  prevText: string,
+  prevAt: string,
+  nextText: string,
+  coalesce: boolean,
+  now: Date,
+): Revision[] {
+  const out = [...list];
+
+  // 初回：上書きされる前の内容を最初の版として残す
+  if (out.length === 0 && prevText && prevText !== nextText) {
+    out.push({ at: prevAt, text: prevText });
+  }
+
+  const last = out[out.length - 1];
+  if (last && last.text === nextText) return out;
+
+  const at = now.toISOString();
+  const canCoalesce =
+    coalesce &&
+    last !== undefined &&
+    out.length >= 2 &&
+    now.getTime() - new Date(last.at).getTime() < COALESCE_MS &&
+    !isLargeChange(last.text, nextText);
+
+  if (canCoalesce) {
+    out[out.length - 1] = { at, text: nextText };
+  } else {
+    out.push({ at, text: nextText });
+  }
+
+  return out.slice(-MAX_REVISIONS);
+}
+
+export function loadRevisions(storage: Storage, ymd: string, target: RevisionTarget): Revision[] {
+  const data = loadDayRevisions(storage, ymd);
+  return target.kind === "memo" ? data.memo : data.items[target.itemId] ?? [];
+}
+
+export type RecordRevisionArgs = {
+  ymd: string;
+  target: RevisionTarget;
+  prevText: string;
+  prevAt: string; // 最初の版の時刻（item なら item.updatedAt、memo なら day.updatedAt）
+  nextText: string;
+  coalesce?: boolean;
+  now?: Date;
+};
+
+/**
+ * 保存が成功した後に呼ぶ（失敗しても本体の保存には影響させない）
+ */
+export function recordRevision(storage: Storage, args: RecordRevisionArgs): void {
+  const { ymd, target, prevText, prevAt, nextText } = args;
+  if (prevText === nextText) return;
+
+  const coalesce = args.coalesce ?? false;
+  const now = args.now ?? new Date();
+
+  try {
+    const data = loadDayRevisions(storage, ymd);
+
+    if (target.kind === "memo") {
+      data.memo = appendRevision(data.memo, prevText, prevAt, nextText, coalesce, now);
+    } else {
+      const cur = data.items[target.itemId] ?? [];
+      data.items[target.itemId] = appendRevision(cur, prevText, prevAt, nextText, coalesce, now);
+    }
+
+    saveDayRevisions(storage, ymd, data);
+  } catch {
+    // 容量不足などで履歴が残せなくても、日記本体の保存は成功扱い
+  }
+}
+
+/**
+ * 古い版に戻す（最新の保存内容を読み直してから該当箇所だけ差し替える）
+ * - commitDay で保存する（間に他タブの保存があれば、その編集を残したままマージ）
+ * - 戻した内容も新しい版として積む
+ */
+export function restoreRevision(
+  storage: Storage,
+  ymd: string,
+  target: RevisionTarget,
+  text: string,
+): CommitDayResult | { ok: false; reason: "not-found" } {
+  const day = loadDay(ymd);
+
+  if (target.kind === "memo") {
+    const res = commitDay(day, { ...day, memo: text });
+    if (res.ok) {
+      recordRevision(storage, { ymd, target, prevText: day.memo, prevAt: day.updatedAt, nextText: text });
+    }
+    return res;
+  }
+
+  const item = day.items.find((it) => it.id === target.itemId);
+  if (!item) return { ok: false, reason: "not-found" };
+
+  const res = commitDay(day, {
+    ...day,
+    items: day.items.map((it) =>
+      it.id === target.itemId ? { ...it, text, updatedAt: new Date().toISOString() } : it,
+    ),
+  });
+  if (res.ok) {
+    recordRevision(storage, { ymd, target, prevText: item.text, prevAt: item.updatedAt, nextText: text });
+  }
+  return res;
+}
@@ -0,0 +1,65 @@
+/* lib/schema/day.test.ts */
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { DAY_MIGRATIONS, DAY_SCHEMA_VERSION, migrateDayRecord } from "@/lib/schema/day";
+import { normalizeDay } from "@/lib/storage";
+
+// __fixtures__/day-vN.json = その版で保存された日 / day-vN.expected.json = 現在の版まで移行した結果
+function readFixture(name: string): unknown {
+  return JSON.parse(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8")) as unknown;
+}
+
+const VERSIONS = Array.from({ length: DAY_SCHEMA_VERSION + 1 }, (_, v) => v);
+
+describe("DAY_MIGRATIONS", () => {
+  it("0 から現在の版まで1段ずつ並んでいる", () => {
+    expect(DAY_MIGRATIONS.map((m) => [m.from, m.to])).toEqual(
+      VERSIONS.slice(0, -1).map((v) => [v, v + 1]),
+    );
+  });
+});
+
+describe.each(VERSIONS)("migrateDayRecord: v%i の保存データ", (version) => {
+  const input = readFixture(`day-v${version}.json`);
+  const expected = readFixture(`day-v${version}.expected.json`);
+
+  it("現在の版まで移行する", () => {
+    const res = migrateDayRecord(input);
+    expect(res).toEqual({
+      ok: true,
+      record: expected,
+      fromVersion: version,
+      upgraded: version !== DAY_SCHEMA_VERSION,
+    });
+  });
+
+  it("入力を書き換えない", () => {
+    const before = JSON.stringify(input);
+    migrateDayRecord(input);
+    expect(JSON.stringify(input)).toBe(before);
+  });
+
+  it("移行済みをもう一度通しても変わらない", () => {
+    const once = migrateDayRecord(input);
+    if (!once.ok) throw new Error("fixture が移行できない");
+
+    const twice = migrateDayRecord(once.record);
+    expect(twice).toEqual({ ok: true, record: once.record, fromVersion: DAY_SCHEMA_VERSION, upgraded: false });
+  });
+});
+
+describe("新しい版で保存された日", () => {
+  const newer = { ...(readFixture(`day-v${DAY_SCHEMA_VERSION}.json`) as object), schemaVersion: DAY_SCHEMA_VERSION + 1 };
+
+  it("migrateDayRecord は触らずに newer-version を返す", () => {
+    expect(migrateDayRecord(newer)).toEqual({
+      ok: false,
+      reason: "newer-version",
+      fromVersion: DAY_SCHEMA_VERSION + 1,
+    });
+  });
+
+  it("normalizeDay は版をそのまま返す（saveDay が上書きしないように）", () => {
+    expect(normalizeDay("2026-10-19", newer).schemaVersion).toBe(DAY_SCHEMA_VERSION + 1);
+  });
+});
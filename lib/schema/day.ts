@@ -0,0 +1,99 @@
+/* lib/schema/day.ts
+ * AchieveDay の保存形式バージョンと移行ステップの登録簿
+ * - 純関数のみ（storage/window に触らない）ので JSON 断片をそのまま渡して検証できる
+ * - 新しいフィールドを足すときは DAY_SCHEMA_VERSION を上げ、DAY_MIGRATIONS に1段追加する
+ */
+
+export const DAY_SCHEMA_VERSION = 4;
+
+export type DayRecord = Record<string, unknown>;
+
+export type DayMigration = {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (record: DayRecord) => DayRecord;
+};
+
+/**
+ * from の昇順・1段ずつ（from + 1 === to）で並べる
+ */
+export const DAY_MIGRATIONS: readonly DayMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: "schemaVersion を付与（v0 = バージョン導入前の保存データ）",
+    migrate: (record) => ({ ...record, schemaVersion: 1 }),
+  },
+  {
+    from: 1,
+    to: 2,
+    description: "item に updatedAt（= createdAt）、日に削除の墓標 deleted: [] を付与",
+    migrate: (record) => ({
+      ...record,
+      items: Array.isArray(record.items)
+        ? record.items.map((it: unknown) =>
+            isRecord(it) && typeof it.updatedAt !== "string" ? { ...it, updatedAt: it.createdAt } : it,
+          )
+        : record.items,
+      deleted: Array.isArray(record.deleted) ? record.deleted : [],
+      schemaVersion: 2,
+    }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "日に今日のベスト pinnedId: null を付与（items の並びは v2 までも画面の並び）",
+    migrate: (record) => ({
+      ...record,
+      pinnedId: typeof record.pinnedId === "string" ? record.pinnedId : null,
+      schemaVersion: 3,
+    }),
+  },
+  {
+    from: 3,
+    to: 4,
+    description: "item に習慣の habitId（任意。習慣のチェックで追加した項目だけ）を許可",
+    migrate: (record) => ({ ...record, schemaVersion: 4 }),
+  },
+];
+
+export type MigrateDayResult =
+  | { ok: true; record: DayRecord; fromVersion: number; upgraded: boolean }
+  | { ok: false; reason: "not-object" | "newer-version" | "missing-step"; fromVersion: number };
+
+function isRecord(value: unknown): value is DayRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 保存データのバージョン（未設定 = 0）
+ */
+export function readDaySchemaVersion(record: DayRecord): number {
+  const v = record.schemaVersion;
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 ? v : 0;
+}
+
+/**
+ * JSON.parse 済みの値を現在のバージョンまで順に移行する
+ * - 新しいアプリで書かれたデータ（version が大きい）は触らずに newer-version を返す
+ */
+export function migrateDayRecord(parsed: unknown): MigrateDayResult {
+  if (!isRecord(parsed)) return { ok: false, reason: "not-object", fromVersion: 0 };
+
+  const fromVersion = readDaySchemaVersion(parsed);
+  if (fromVersion > DAY_SCHEMA_VERSION) return { ok: false, reason: "newer-version", fromVersion };
+
+  let record = parsed;
+  let version = fromVersion;
+
+  while (version < DAY_SCHEMA_VERSION) {
+    const step = DAY_MIGRATIONS.find((m) => m.from === version);
+    if (!step) return { ok: false, reason: "missing-step", fromVersion };
+
+    record = step.migrate(record);
+    version = step.to;
+  }
+
+  return { ok: true, record, fromVersion, upgraded: fromVersion !== DAY_SCHEMA_VERSION };
+}
@@ -0,0 +1,62 @@
+/* lib/schema/upgrade-pass.ts
+ * 古い schemaVersion の日を idle で少しずつ書き換える（その場で upgrade）
+ * - 読み込み時は normalizeDay が毎回移行するので、このパスは保存形式を揃えるためのもの
+ * - updatedAt は変えない（内容の更新ではないため saveDay は通さない）
+ */
+
+import { runIdle, type CancelFn } from "@/lib/client-scheduler";
+import { getDayBackend, listDayYmds } from "@/lib/storage";
+import { migrateDayRecord } from "@/lib/schema/day";
+
+const BATCH_SIZE = 50;
+
+let scheduled: CancelFn | null = null;
+let done = false;
+
+function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function upgradeBatch(ymds: string[]): void {
+  const backend = getDayBackend();
+  if (!backend) return;
+
+  for (const ymd of ymds) {
+    const raw = backend.loadDay(ymd);
+    if (!raw) continue;
+
+    const res = migrateDayRecord(safeJsonParse(raw));
+    if (!res.ok || !res.upgraded) continue;
+
+    backend.saveDay(ymd, JSON.stringify(res.record));
+  }
+}
+
+/**
+ * 1タブにつき1回だけ。BATCH_SIZE 件ずつ runIdle で処理する
+ */
+export function scheduleDaySchemaUpgrade(): void {
+  if (done || scheduled) return;
+  // 暗号化モードの解錠前は読めないので、解錠後に改めて呼ばれるのを待つ
+  if (!getDayBackend()) return;
+
+  const queue = listDayYmds();
+
+  const step = () => {
+    scheduled = null;
+
+    upgradeBatch(queue.splice(0, BATCH_SIZE));
+
+    if (queue.length === 0) {
+      done = true;
+      return;
+    }
+    scheduled = runIdle(step);
+  };
+
+  scheduled = runIdle(step);
+}
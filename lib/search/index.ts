@@ -0,0 +1,240 @@
+/* lib/search/index.ts
+ * History 検索用の転置インデックス（純関数 + メモリ上の構造）
+ * - 1日 = 1 segment。segment は自分の項目について n-gram / 正規タグ → 項目の転置リストを持つ（永続化の単位）
+ * - メモリ上では全 segment の転置リストを (ymd, itemId) の集合に束ねて引く
+ * - 本文は includesQuery と同じ基準（toLowerCase の部分一致）。1文字は unigram、2文字以上は bigram の積 → 本文で確認
+ * - タグは extractTags の正規形（小文字）。部分一致なのでタグの語彙（種類数）だけ走査する
+ */
+
+import { extractTags, type TagAliases } from "@/lib/diary";
+import type { AchieveDay } from "@/lib/storage";
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export type SearchSegment = {
+  ymd: string;
+  stamp: string; // 項目（id + 本文）のハッシュ。変わっていなければ作り直さない
+  ids: string[]; // 項目 id（以下の number はこの添字）
+  texts: string[]; // 小文字化した本文（bigram の候補を確かめる用）
+  grams: Record<string, number[]>;
+  tags: Record<string, number[]>;
+};
+
+/**
+ * 検索結果：ymd → 当たった項目 id
+ */
+export type SearchHits = Map<string, Set<string>>;
+
+export type SearchIndex = {
+  segments: Map<string, SearchSegment>;
+  grams: Map<string, Set<string>>; // gram → docKey
+  tags: Map<string, Set<string>>; // 正規タグ（小文字）→ docKey
+  texts: Map<string, string>; // docKey → 小文字化した本文
+};
+
+// ymd は固定長（YYYY-MM-DD）なので "ymd/id" から素直に戻せる
+function docKey(ymd: string, id: string): string {
+  return `${ymd}/${id}`;
+}
+
+function splitDocKey(key: string): { ymd: string; id: string } {
+  return { ymd: key.slice(0, 10), id: key.slice(11) };
+}
+
+/**
+ * unigram + bigram（重複なし）
+ */
+export function textGrams(lowerText: string): string[] {
+  const set = new Set<string>();
+  for (let i = 0; i < lowerText.length; i++) {
+    set.add(lowerText.slice(i, i + 1));
+    if (i + 1 < lowerText.length) set.add(lowerText.slice(i, i + 2));
+  }
+  return Array.from(set);
+}
+
+function queryGrams(lowerQuery: string): string[] {
+  if (lowerQuery.length === 1) return [lowerQuery];
+  const set = new Set<string>();
+  for (let i = 0; i + 1 < lowerQuery.length; i++) set.add(lowerQuery.slice(i, i + 2));
+  return Array.from(set);
+}
+
+/**
+ * FNV-1a（32bit）。内容が同じかの判定だけに使う
+ */
+function fnv1a(s: string, seed = 0x811c9dc5): number {
+  let h = seed;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function daySearchStamp(day: AchieveDay): string {
+  let h = 0x811c9dc5;
+  for (const it of day.items) h = fnv1a(`${it.id}\u0001${it.text}\u0002`, h);
+  return `${day.items.length}:${h.toString(36)}`;
+}
+
+/**
+ * 表記ゆれ辞書の署名（タグの正規形が変わるので、違えば全体を作り直す）
+ */
+export function searchAliasesSig(aliases: TagAliases): string {
+  const pairs = Object.entries(aliases).sort((a, b) => a[0].localeCompare(b[0]));
+  return `${pairs.length}:${fnv1a(JSON.stringify(pairs)).toString(36)}`;
+}
+
+function pushPosting(map: Record<string, number[]>, key: string, index: number): void {
+  const list = map[key];
+  if (list) list.push(index);
+  else map[key] = [index];
+}
+
+export function buildSearchSegment(day: AchieveDay, aliases: TagAliases): SearchSegment {
+  const ids: string[] = [];
+  const texts: string[] = [];
+  // "__proto__" のようなタグでも壊れないよう prototype 無しのオブジェクトに
+  const grams = Object.create(null) as Record<string, number[]>;
+  const tags = Object.create(null) as Record<string, number[]>;
+
+  day.items.forEach((it, index) => {
+    const lower = it.text.toLowerCase();
+    ids.push(it.id);
+    texts.push(lower);
+    for (const g of textGrams(lower)) pushPosting(grams, g, index);
+    for (const t of extractTags(it.text, aliases)) pushPosting(tags, t.toLowerCase(), index);
+  });
+
+  return { ymd: day.ymd, stamp: daySearchStamp(day), ids, texts, grams, tags };
+}
+
+function isNumberArray(v: unknown): v is number[] {
+  return Array.isArray(v) && v.every((n) => typeof n === "number");
+}
+
+function isPostings(v: unknown): v is Record<string, number[]> {
+  return typeof v === "object" && v !== null && Object.values(v).every(isNumberArray);
+}
+
+/**
+ * 永続化から読んだ segment の形を確かめる（壊れていたら捨てて作り直す）
+ */
+export function isSearchSegment(v: unknown): v is SearchSegment {
+  if (typeof v !== "object" || v === null) return false;
+  const r = v as Record<string, unknown>;
+  return (
+    typeof r.ymd === "string" &&
+    typeof r.stamp === "string" &&
+    Array.isArray(r.ids) &&
+    r.ids.every((x) => typeof x === "string") &&
+    Array.isArray(r.texts) &&
+    r.texts.length === r.ids.length &&
+    r.texts.every((x) => typeof x === "string") &&
+    isPostings(r.grams) &&
+    isPostings(r.tags)
+  );
+}
+
+export function createSearchIndex(): SearchIndex {
+  return { segments: new Map(), grams: new Map(), tags: new Map(), texts: new Map() };
+}
+
+function addPostings(target: Map<string, Set<string>>, seg: SearchSegment, postings: Record<string, number[]>): void {
+  for (const [key, list] of Object.entries(postings)) {
+    let set = target.get(key);
+    if (!set) {
+      set = new Set();
+      target.set(key, set);
+    }
+    for (const i of list) {
+      const id = seg.ids[i];
+      if (id !== undefined) set.add(docKey(seg.ymd, id));
+    }
+  }
+}
+
+function dropPostings(target: Map<string, Set<string>>, seg: SearchSegment, postings: Record<string, number[]>): void {
+  for (const [key, list] of Object.entries(postings)) {
+    const set = target.get(key);
+    if (!set) continue;
+    for (const i of list) {
+      const id = seg.ids[i];
+      if (id !== undefined) set.delete(docKey(seg.ymd, id));
+    }
+    if (set.size === 0) target.delete(key);
+  }
+}
+
+export function removeSearchSegment(index: SearchIndex, ymd: string): void {
+  const seg = index.segments.get(ymd);
+  if (!seg) return;
+
+  dropPostings(index.grams, seg, seg.grams);
+  dropPostings(index.tags, seg, seg.tags);
+  for (const id of seg.ids) index.texts.delete(docKey(ymd, id));
+  index.segments.delete(ymd);
+}
+
+export function putSearchSegment(index: SearchIndex, seg: SearchSegment): void {
+  removeSearchSegment(index, seg.ymd);
+
+  index.segments.set(seg.ymd, seg);
+  addPostings(index.grams, seg, seg.grams);
+  addPostings(index.tags, seg, seg.tags);
+  seg.ids.forEach((id, i) => index.texts.set(docKey(seg.ymd, id), seg.texts[i] ?? ""));
+}
+
+function toHits(keys: Iterable<string>): SearchHits {
+  const hits: SearchHits = new Map();
+  for (const key of keys) {
+    const { ymd, id } = splitDocKey(key);
+    let set = hits.get(ymd);
+    if (!set) {
+      set = new Set();
+      hits.set(ymd, set);
+    }
+    set.add(id);
+  }
+  return hits;
+}
+
+/**
+ * 本文の部分一致（query は trim 済みを想定）
+ * - 一番短い転置リストから始めて残りの gram で絞り、最後に本文で確かめる
+ */
+export function searchText(index: SearchIndex, query: string): SearchHits {
+  const q = query.toLowerCase();
+  if (!q) return new Map();
+
+  const lists: Set<string>[] = [];
+  for (const g of queryGrams(q)) {
+    const list = index.grams.get(g);
+    if (!list) return new Map();
+    lists.push(list);
+  }
+
+  const [first, ...rest] = lists.sort((a, b) => a.size - b.size);
+  if (!first) return new Map();
+
+  const keys: string[] = [];
+  for (const key of first) {
+    if (!rest.every((l) => l.has(key))) continue;
+    if (q.length > 2 && !(index.texts.get(key) ?? "").includes(q)) continue;
+    keys.push(key);
+  }
+  return toHits(keys);
+}
+
+/**
+ * 正規タグの部分一致（tagQuery は正規化・小文字化済み）
+ */
+export function searchTag(index: SearchIndex, tagQuery: string): SearchHits {
+  const keys = new Set<string>();
+  for (const [tag, set] of index.tags) {
+    if (!tag.includes(tagQuery)) continue;
+    for (const key of set) keys.add(key);
+  }
+  return toHits(keys);
+}
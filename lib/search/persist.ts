@@ -0,0 +1,99 @@
+/* lib/search/persist.ts
+ * 検索インデックスの保存先（日記本体とは別の IndexedDB: achieve-search）
+ * - segments：ymd → SearchSegment（保存のたびに1日分だけ書き換える）
+ * - meta：インデックスの版と、作ったときの表記ゆれ辞書の署名（違えば全体を作り直す）
+ */
+
+import { idbRequest, idbTransactionDone, isIndexedDbAvailable, openIdb } from "@/lib/idb";
+import { isSearchSegment, type SearchSegment } from "@/lib/search/index";
+
+const DB_NAME = "achieve-search";
+const DB_VERSION = 1;
+const SEGMENT_STORE = "segments";
+const META_STORE = "meta";
+const META_KEY = "meta";
+
+export type SearchIndexMeta = {
+  version: number;
+  aliasesSig: string;
+};
+
+function isSearchIndexMeta(v: unknown): v is SearchIndexMeta {
+  if (typeof v !== "object" || v === null) return false;
+  const r = v as Record<string, unknown>;
+  return typeof r.version === "number" && typeof r.aliasesSig === "string";
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openSearchDb(): Promise<IDBDatabase> {
+  dbPromise ??= openIdb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(SEGMENT_STORE)) db.createObjectStore(SEGMENT_STORE, { keyPath: "ymd" });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  }).catch((e: unknown) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+export function isSearchPersistAvailable(): boolean {
+  return isIndexedDbAvailable();
+}
+
+/**
+ * 全 segment と meta を読む（形の壊れた segment は数だけ返して捨てる）
+ */
+export async function loadSearchIndex(): Promise<{
+  meta: SearchIndexMeta | null;
+  segments: SearchSegment[];
+  dropped: number;
+}> {
+  const db = await openSearchDb();
+  const tx = db.transaction([SEGMENT_STORE, META_STORE], "readonly");
+  const [rawMeta, rawSegments] = await Promise.all([
+    idbRequest(tx.objectStore(META_STORE).get(META_KEY)) as Promise<unknown>,
+    idbRequest(tx.objectStore(SEGMENT_STORE).getAll() as IDBRequest<unknown[]>),
+  ]);
+
+  const segments = rawSegments.filter(isSearchSegment);
+  return {
+    meta: isSearchIndexMeta(rawMeta) ? rawMeta : null,
+    segments,
+    dropped: rawSegments.length - segments.length,
+  };
+}
+
+/**
+ * 変わった日の segment を書き、消えた日を消す（1トランザクション）
+ */
+export async function writeSearchSegments(put: SearchSegment[], remove: string[]): Promise<void> {
+  const db = await openSearchDb();
+  const tx = db.transaction(SEGMENT_STORE, "readwrite");
+  const store = tx.objectStore(SEGMENT_STORE);
+  for (const seg of put) store.put(seg);
+  for (const ymd of remove) store.delete(ymd);
+  await idbTransactionDone(tx);
+}
+
+/**
+ * 全 segment を消して meta を書き直す（版違い・辞書の変更・自己修復の作り直し）
+ */
+export async function resetSearchIndex(meta: SearchIndexMeta): Promise<void> {
+  const db = await openSearchDb();
+  const tx = db.transaction([SEGMENT_STORE, META_STORE], "readwrite");
+  tx.objectStore(SEGMENT_STORE).clear();
+  tx.objectStore(META_STORE).put(meta, META_KEY);
+  await idbTransactionDone(tx);
+}
+
+/**
+ * 暗号化モードでは本文を平文で残さないよう、保存済みのインデックスごと消す
+ */
+export async function clearSearchIndex(): Promise<void> {
+  const db = await openSearchDb();
+  const tx = db.transaction([SEGMENT_STORE, META_STORE], "readwrite");
+  tx.objectStore(SEGMENT_STORE).clear();
+  tx.objectStore(META_STORE).clear();
+  await idbTransactionDone(tx);
+}
@@ -0,0 +1,276 @@
+/* lib/search/store.ts
+ * History 検索インデックスの live store（useSyncExternalStore 向けに subscribe / snapshot を提供）
+ * - prepareClient() から startSearchIndex()：保存済みのインデックスを読み、saveDay（同一タブ）/ 他タブの変更で1日分ずつ更新
+ * - 画面側は syncSearchIndex(entries, aliases) で days-store の内容と突き合わせる（取りこぼし・壊れた segment の自己修復）
+ * - 表記ゆれ辞書が変わったら（署名が違えば）全体を作り直す。版（SEARCH_INDEX_VERSION）が違う保存済みインデックスも同じ
+ * - 暗号化モードでは本文を平文で残さないよう永続化しない（メモリ上だけ）
+ */
+
+import { subscribeTagAliasesMutations } from "@/lib/aliases-store";
+import { runIdle, type CancelFn } from "@/lib/client-scheduler";
+import { loadTagAliases, type TagAliases } from "@/lib/diary";
+import {
+  SEARCH_INDEX_VERSION,
+  buildSearchSegment,
+  createSearchIndex,
+  daySearchStamp,
+  putSearchSegment,
+  removeSearchSegment,
+  searchAliasesSig,
+  searchTag,
+  searchText,
+  type SearchHits,
+  type SearchSegment,
+} from "@/lib/search/index";
+import {
+  clearSearchIndex,
+  isSearchPersistAvailable,
+  loadSearchIndex,
+  resetSearchIndex,
+  writeSearchSegments,
+} from "@/lib/search/persist";
+import {
+  getDayBackend,
+  isDayEncryptionEnabled,
+  parseDayRecord,
+  subscribeExternalDayChanges,
+  subscribeStorageMutations,
+  type DayEntry,
+} from "@/lib/storage";
+
+export type SearchMode = "text" | "tag";
+
+/**
+ * useSyncExternalStore の snapshot（変わるたびに作り直すので、useMemo の依存にそのまま使える）
+ * - search：entries / aliases と突き合わせ済みでなければ null（呼び出し側は全件走査で代用）
+ * - text：本文の部分一致（query は trim 済み）/ tag：正規タグの部分一致（正規化・小文字化済み）
+ */
+export type SearchIndexReader = {
+  search: (entries: DayEntry[], aliases: TagAliases, query: string, mode: SearchMode) => SearchHits | null;
+};
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let phase: "idle" | "loading" | "ready" = "idle";
+let index = createSearchIndex();
+let aliasesSig = ""; // いまの index を作った辞書の署名（"" = まだ作っていない）
+
+// 最後に突き合わせた entries / aliases（同じ参照の間だけ検索結果を信用する）
+let syncedEntries: DayEntry[] | null = null;
+let syncedAliases: TagAliases | null = null;
+let checked = new WeakSet<DayEntry>();
+let pendingSync: { entries: DayEntry[]; aliases: TagAliases } | null = null;
+
+// 永続化待ち
+const dirtyPut = new Set<string>();
+const dirtyRemove = new Set<string>();
+let resetPending = false;
+let persistCancel: CancelFn | null = null;
+let persistChain: Promise<void> = Promise.resolve();
+
+function search(entries: DayEntry[], aliases: TagAliases, query: string, mode: SearchMode): SearchHits | null {
+  if (phase !== "ready") return null;
+  if (entries !== syncedEntries || aliases !== syncedAliases) return null;
+  return mode === "tag" ? searchTag(index, query) : searchText(index, query);
+}
+
+let reader: SearchIndexReader = { search };
+
+function emitChange(): void {
+  reader = { search };
+  for (const l of listeners) l();
+}
+
+function persistEnabled(): boolean {
+  return isSearchPersistAvailable() && !isDayEncryptionEnabled();
+}
+
+function markPut(ymd: string): void {
+  dirtyRemove.delete(ymd);
+  dirtyPut.add(ymd);
+}
+
+function markRemove(ymd: string): void {
+  dirtyPut.delete(ymd);
+  dirtyRemove.add(ymd);
+}
+
+function flushPersist(): void {
+  persistCancel = null;
+  if (!persistEnabled()) {
+    dirtyPut.clear();
+    dirtyRemove.clear();
+    resetPending = false;
+    return;
+  }
+
+  const reset = resetPending;
+  const meta = { version: SEARCH_INDEX_VERSION, aliasesSig };
+  const put = Array.from(dirtyPut)
+    .map((ymd) => index.segments.get(ymd))
+    .filter((seg): seg is SearchSegment => seg !== undefined);
+  const remove = Array.from(dirtyRemove);
+
+  resetPending = false;
+  dirtyPut.clear();
+  dirtyRemove.clear();
+
+  persistChain = persistChain
+    .then(async () => {
+      if (reset) await resetSearchIndex(meta);
+      await writeSearchSegments(put, remove);
+    })
+    .catch(() => {
+      // 書けなくてもメモリ上の index は使える（次回起動時に突き合わせで作り直す）
+    });
+}
+
+function schedulePersist(): void {
+  if (persistCancel) return;
+  if (!resetPending && dirtyPut.size === 0 && dirtyRemove.size === 0) return;
+  persistCancel = runIdle(flushPersist, 2000);
+}
+
+/**
+ * 1日分の変更を反映（saveDay / 他タブ）
+ * - 日を特定できない変更・辞書が変わっている場合は、次の突き合わせに任せる
+ */
+function onDayChanged(ymd: string | null): void {
+  syncedEntries = null;
+  if (phase !== "ready" || ymd === null) {
+    emitChange();
+    return;
+  }
+
+  const aliases = loadTagAliases(window.localStorage);
+  if (searchAliasesSig(aliases) !== aliasesSig) {
+    emitChange();
+    return;
+  }
+
+  const raw = getDayBackend()?.loadDay(ymd) ?? null;
+  if (raw) {
+    putSearchSegment(index, buildSearchSegment(parseDayRecord(ymd, raw), aliases));
+    markPut(ymd);
+  } else {
+    removeSearchSegment(index, ymd);
+    markRemove(ymd);
+  }
+
+  schedulePersist();
+  emitChange();
+}
+
+async function loadPersisted(): Promise<void> {
+  if (persistEnabled()) {
+    try {
+      const loaded = await loadSearchIndex();
+      // 版が違えば読まない（aliasesSig が "" のままなので、最初の突き合わせで作り直す）
+      if (loaded.meta && loaded.meta.version === SEARCH_INDEX_VERSION) {
+        aliasesSig = loaded.meta.aliasesSig;
+        for (const seg of loaded.segments) putSearchSegment(index, seg);
+      }
+    } catch {
+      // 読めなければメモリ上で作り直す
+    }
+  } else if (isSearchPersistAvailable()) {
+    await discardPersistedSearchIndex();
+  }
+
+  phase = "ready";
+  const pending = pendingSync;
+  pendingSync = null;
+  if (pending) syncSearchIndex(pending.entries, pending.aliases);
+  else emitChange();
+}
+
+/**
+ * 画面の初回描画前に呼ぶ（prepareClient）。読み込みは待たない
+ */
+export function startSearchIndex(): void {
+  if (typeof window === "undefined" || phase !== "idle") return;
+  phase = "loading";
+
+  subscribeStorageMutations(onDayChanged);
+  subscribeExternalDayChanges(onDayChanged);
+  // 辞書を保存したら、次の突き合わせで署名違いとして作り直す
+  subscribeTagAliasesMutations(() => {
+    syncedEntries = null;
+    emitChange();
+  });
+
+  void loadPersisted();
+}
+
+/**
+ * days-store の entries と突き合わせる（History から。中身が変わった日だけ作り直す）
+ * - DayEntry は変わらない日の参照が保たれるので、一度見た entry は WeakSet で飛ばす
+ */
+export function syncSearchIndex(entries: DayEntry[], aliases: TagAliases): void {
+  if (typeof window === "undefined") return;
+  if (phase !== "ready") {
+    pendingSync = { entries, aliases };
+    return;
+  }
+  if (entries === syncedEntries && aliases === syncedAliases) return;
+
+  const sig = searchAliasesSig(aliases);
+  if (sig !== aliasesSig) {
+    index = createSearchIndex();
+    checked = new WeakSet();
+    aliasesSig = sig;
+    resetPending = true;
+    dirtyPut.clear();
+    dirtyRemove.clear();
+  }
+
+  const seen = new Set<string>();
+  for (const e of entries) {
+    seen.add(e.ymd);
+    if (checked.has(e)) continue;
+    checked.add(e);
+
+    const seg = index.segments.get(e.ymd);
+    if (seg && seg.stamp === daySearchStamp(e.day)) continue;
+    putSearchSegment(index, buildSearchSegment(e.day, aliases));
+    markPut(e.ymd);
+  }
+
+  for (const ymd of Array.from(index.segments.keys())) {
+    if (seen.has(ymd)) continue;
+    removeSearchSegment(index, ymd);
+    markRemove(ymd);
+  }
+
+  syncedEntries = entries;
+  syncedAliases = aliases;
+  schedulePersist();
+  emitChange();
+}
+
+export function subscribeSearchIndex(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSearchIndexSnapshot(): SearchIndexReader {
+  return reader;
+}
+
+/**
+ * 保存済みのインデックスを消す（暗号化を有効にしたとき。書き込み待ちの後に消す）
+ */
+export function discardPersistedSearchIndex(): Promise<void> {
+  if (persistCancel) persistCancel();
+  persistCancel = null;
+  dirtyPut.clear();
+  dirtyRemove.clear();
+  resetPending = false;
+
+  persistChain = persistChain.then(clearSearchIndex).catch(() => {
+    // 消せなくても次回起動時にもう一度消す
+  });
+  return persistChain;
+}
@@ -0,0 +1,147 @@
+/* lib/snapshots/auto.ts
+ * 自動スナップショット（全日 + タグ辞書）を撮る・読む
+ * - 1日1回（日付が変わってから最初の idle）と、saveDay などが続いた後（BURST_COUNT 回 → 静かになってから）
+ * - 暗号化モード中は解錠中のデータ鍵で包んで保存する（ロック中は撮らない）
+ * - 撮るたびに rotation.ts の方針で古いものを消す
+ */
+
+import { buildBackupEnvelope, parseBackup, type ParseBackupResult } from "@/lib/backup";
+import { runIdle } from "@/lib/client-scheduler";
+import { decryptString, encryptString, isCipherPayload } from "@/lib/encryption/cipher";
+import { getUnlockedDataKey } from "@/lib/encryption/session";
+import { formatYmd } from "@/lib/date";
+import { selectSnapshotsToDelete } from "@/lib/snapshots/rotation";
+import {
+  deleteSnapshots,
+  isSnapshotStoreAvailable,
+  listSnapshotMetas,
+  loadSnapshotPayload,
+  putSnapshot,
+  type SnapshotMeta,
+  type SnapshotReason,
+} from "@/lib/snapshots/store";
+import { createId, isDayBackendLocked, isDayEncryptionEnabled, subscribeStorageMutations } from "@/lib/storage";
+
+const BURST_COUNT = 20;
+const BURST_QUIET_MS = 5000;
+
+export type TakeSnapshotResult = { ok: true; meta: SnapshotMeta } | { ok: false; error: string };
+
+let lastSnapshotYmd: string | null = null;
+let scheduled = false;
+
+function todayYmd(): string {
+  return formatYmd(new Date());
+}
+
+async function pruneSnapshots(): Promise<void> {
+  const stale = selectSnapshotsToDelete(await listSnapshotMetas());
+  await deleteSnapshots(stale);
+}
+
+export async function takeSnapshot(reason: SnapshotReason): Promise<TakeSnapshotResult> {
+  if (!isSnapshotStoreAvailable()) return { ok: false, error: "このブラウザでは IndexedDB が使えません。" };
+  if (isDayBackendLocked()) return { ok: false, error: "日記がロックされています。" };
+
+  const encrypted = isDayEncryptionEnabled();
+  const key = encrypted ? getUnlockedDataKey() : null;
+  if (encrypted && !key) return { ok: false, error: "日記がロックされています。" };
+
+  const envelope = buildBackupEnvelope(window.localStorage);
+  const json = JSON.stringify(envelope);
+
+  const meta: SnapshotMeta = {
+    id: createId(),
+    takenAt: envelope.exportedAt,
+    reason,
+    dayCount: envelope.days.length,
+    itemCount: envelope.days.reduce((sum, d) => sum + d.items.length, 0),
+    encrypted,
+  };
+
+  try {
+    const payload = key ? JSON.stringify(await encryptString(key, json)) : json;
+    await putSnapshot(meta, payload);
+    lastSnapshotYmd = formatYmd(new Date(meta.takenAt));
+    await pruneSnapshots();
+  } catch {
+    return { ok: false, error: "スナップショットを保存できませんでした（容量不足の可能性があります）。" };
+  }
+
+  return { ok: true, meta };
+}
+
+/**
+ * スナップショットの中身を envelope に戻す（暗号化されていれば解錠中の鍵で復号）
+ */
+export async function readSnapshotEnvelope(meta: SnapshotMeta): Promise<ParseBackupResult> {
+  let payload: string | null;
+  try {
+    payload = await loadSnapshotPayload(meta.id);
+  } catch {
+    payload = null;
+  }
+  if (payload === null) return { ok: false, error: "スナップショットが見つかりません。" };
+  if (!meta.encrypted) return parseBackup(payload);
+
+  const key = getUnlockedDataKey();
+  if (!key) return { ok: false, error: "日記がロックされています。" };
+
+  try {
+    const parsed = JSON.parse(payload) as unknown;
+    if (!isCipherPayload(parsed)) return { ok: false, error: "スナップショットが壊れています。" };
+    return parseBackup(await decryptString(key, parsed));
+  } catch {
+    return { ok: false, error: "スナップショットを復号できませんでした。" };
+  }
+}
+
+async function takeDailyIfDue(): Promise<void> {
+  const today = todayYmd();
+  if (lastSnapshotYmd === today) return;
+
+  if (lastSnapshotYmd === null) {
+    try {
+      const newest = (await listSnapshotMetas())[0];
+      if (newest) lastSnapshotYmd = formatYmd(new Date(newest.takenAt));
+    } catch {
+      return;
+    }
+    if (lastSnapshotYmd === today) return;
+  }
+
+  await takeSnapshot("daily");
+}
+
+/**
+ * 1タブにつき1回（prepareClient から）。ロック中は解錠後の prepareClient で改めて呼ばれる
+ */
+export function scheduleAutoSnapshots(): void {
+  if (scheduled) return;
+  if (!isSnapshotStoreAvailable() || isDayBackendLocked()) return;
+  scheduled = true;
+
+  runIdle(() => {
+    void takeDailyIfDue();
+  });
+
+  let pending = 0;
+  let quietTimer: number | null = null;
+
+  subscribeStorageMutations(() => {
+    pending += 1;
+
+    if (quietTimer !== null) window.clearTimeout(quietTimer);
+    quietTimer = window.setTimeout(() => {
+      quietTimer = null;
+
+      if (pending >= BURST_COUNT) {
+        pending = 0;
+        void takeSnapshot("burst");
+        return;
+      }
+      // 開きっぱなしで日付をまたいだ場合も、最初の保存の後に撮る
+      void takeDailyIfDue();
+    }, BURST_QUIET_MS);
+  });
+}
@@ -0,0 +1,164 @@
+/* lib/snapshots/restore.ts
+ * スナップショットとの差分プレビューと、その時点への巻き戻し
+ * - 巻き戻す前に必ず「復元前」スナップショットを撮る（撮れなければ巻き戻さない）
+ * - 戻した項目は updatedAt を進め、消える項目には墓標を付ける（開いている他タブのマージ・同期で復活しないように）
+ * - スナップショットに無い日も記録は消さず、全項目に墓標を付けた空の日として保存する
+ * - 書き込んだ日は notifyExternalDayChange() で開いている編集画面へ知らせる
+ */
+
+import { saveTagAliasesAndNotify } from "@/lib/aliases-store";
+import type { BackupEnvelope } from "@/lib/backup";
+import { takeSnapshot } from "@/lib/snapshots/auto";
+import {
+  loadDay,
+  notifyExternalDayChange,
+  saveDay,
+  scanDays,
+  type AchieveDay,
+  type AchieveItem,
+} from "@/lib/storage";
+
+export type SnapshotDayStatus = "added" | "removed" | "changed" | "same";
+
+/**
+ * 「今」から見て、スナップショットに戻すと何が起きるか
+ * - added: スナップショットにだけある日（戻すと復活）
+ * - removed: 今にだけある日（戻すと消える）
+ */
+export type SnapshotDayDiff = {
+  ymd: string;
+  status: SnapshotDayStatus;
+  itemsAdded: number; // 戻すと増える
+  itemsRemoved: number; // 戻すと消える
+  itemsChanged: number; // 同じ id で本文/完了が異なる
+  moodChanged: boolean;
+  memoChanged: boolean;
+};
+
+export type RollbackResult = { ok: true; savedDays: number; failedDays: string[] } | { ok: false; error: string };
+
+function sameItem(a: AchieveItem, b: AchieveItem): boolean {
+  return a.text === b.text && a.done === b.done;
+}
+
+// 項目も気分もひとことも無い日（スナップショットに無い日を戻した後の、墓標だけの日など）
+function isBlankDay(day: AchieveDay): boolean {
+  return day.items.length === 0 && day.mood === null && day.memo === "";
+}
+
+function diffDay(ymd: string, current: AchieveDay | null, snap: AchieveDay | null): SnapshotDayDiff {
+  const curItems = current?.items ?? [];
+  const snapItems = snap?.items ?? [];
+  const curById = new Map(curItems.map((it) => [it.id, it]));
+  const snapIds = new Set(snapItems.map((it) => it.id));
+
+  let itemsAdded = 0;
+  let itemsChanged = 0;
+  for (const it of snapItems) {
+    const cur = curById.get(it.id);
+    if (!cur) itemsAdded += 1;
+    else if (!sameItem(cur, it)) itemsChanged += 1;
+  }
+  const itemsRemoved = curItems.filter((it) => !snapIds.has(it.id)).length;
+
+  const moodChanged = (current?.mood ?? null) !== (snap?.mood ?? null);
+  const memoChanged = (current?.memo ?? "") !== (snap?.memo ?? "");
+  // 並びとベストは件数に出ないが、巻き戻せば変わる
+  const commonCur = curItems.filter((it) => snapIds.has(it.id)).map((it) => it.id);
+  const commonSnap = snapItems.filter((it) => curById.has(it.id)).map((it) => it.id);
+  const orderChanged =
+    commonCur.some((id, i) => commonSnap[i] !== id) || (current?.pinnedId ?? null) !== (snap?.pinnedId ?? null);
+
+  let status: SnapshotDayStatus;
+  if (!current) status = "added";
+  else if (!snap) status = "removed";
+  else if (itemsAdded || itemsRemoved || itemsChanged || moodChanged || memoChanged || orderChanged) status = "changed";
+  else status = "same";
+
+  return { ymd, status, itemsAdded, itemsRemoved, itemsChanged, moodChanged, memoChanged };
+}
+
+/**
+ * 日付の新しい順
+ */
+export function diffSnapshot(envelope: BackupEnvelope): SnapshotDayDiff[] {
+  const current = new Map<string, AchieveDay>();
+  for (const e of scanDays()) {
+    if (!isBlankDay(e.day)) current.set(e.ymd, e.day);
+  }
+
+  const snap = new Map<string, AchieveDay>();
+  for (const d of envelope.days) snap.set(d.ymd, d);
+
+  const ymds = new Set([...current.keys(), ...snap.keys()]);
+  return [...ymds]
+    .sort((a, b) => b.localeCompare(a))
+    .map((ymd) => diffDay(ymd, current.get(ymd) ?? null, snap.get(ymd) ?? null));
+}
+
+function buildRollbackDay(current: AchieveDay, snap: AchieveDay): AchieveDay {
+  const now = new Date().toISOString();
+  const curById = new Map(current.items.map((it) => [it.id, it]));
+  const snapIds = new Set(snap.items.map((it) => it.id));
+
+  const items = snap.items.map((it) => {
+    const cur = curById.get(it.id);
+    return cur && sameItem(cur, it) ? cur : { ...it, updatedAt: now };
+  });
+
+  const deleted = current.deleted.filter((t) => !snapIds.has(t.id));
+  for (const it of current.items) {
+    if (!snapIds.has(it.id)) deleted.push({ id: it.id, deletedAt: now });
+  }
+
+  return { ...current, items, mood: snap.mood, memo: snap.memo, pinnedId: snap.pinnedId, deleted };
+}
+
+function rollbackOne(ymd: string, snap: AchieveDay | null): boolean {
+  const current = loadDay(ymd);
+  // スナップショットに無い日 = 空の日に戻す（レコードを消すと墓標が残らず、他タブや同期で項目が戻ってくる）
+  const target = snap ?? { ...current, items: [], mood: null, memo: "", pinnedId: null };
+
+  if (!saveDay(buildRollbackDay(current, target)).ok) return false;
+  notifyExternalDayChange(ymd);
+  return true;
+}
+
+async function takePreRestoreSnapshot(): Promise<string | null> {
+  const res = await takeSnapshot("pre-restore");
+  return res.ok ? null : `復元前のスナップショットを保存できなかったため中止しました（${res.error}）`;
+}
+
+/**
+ * 1日だけ戻す（スナップショットに無い日なら、今の項目をすべて墓標付きで消す）
+ */
+export async function rollbackDay(envelope: BackupEnvelope, ymd: string): Promise<RollbackResult> {
+  const error = await takePreRestoreSnapshot();
+  if (error) return { ok: false, error };
+
+  const snap = envelope.days.find((d) => d.ymd === ymd) ?? null;
+  const saved = rollbackOne(ymd, snap);
+  return { ok: true, savedDays: saved ? 1 : 0, failedDays: saved ? [] : [ymd] };
+}
+
+/**
+ * 全体を戻す（差分のある日だけ書き込み、タグ辞書も置き換える）
+ */
+export async function rollbackAll(envelope: BackupEnvelope, storage: Storage): Promise<RollbackResult> {
+  const error = await takePreRestoreSnapshot();
+  if (error) return { ok: false, error };
+
+  const snap = new Map<string, AchieveDay>();
+  for (const d of envelope.days) snap.set(d.ymd, d);
+
+  let savedDays = 0;
+  const failedDays: string[] = [];
+  for (const diff of diffSnapshot(envelope)) {
+    if (diff.status === "same") continue;
+    if (rollbackOne(diff.ymd, snap.get(diff.ymd) ?? null)) savedDays += 1;
+    else failedDays.push(diff.ymd);
+  }
+
+  saveTagAliasesAndNotify(storage, envelope.aliases);
+  return { ok: true, savedDays, failedDays };
+}
@@ -0,0 +1,58 @@
+/* lib/snapshots/rotation.ts
+ * スナップショットの世代管理（純関数）
+ * - 日ごと（設定のタイムゾーン・日付の区切り）に最新の1つを直近 KEEP_DAILY 日分、週ごと（月曜始まり）に最新の1つを直近 KEEP_WEEKLY 週分
+ * - 最新の「復元前」スナップショットは常に残す（戻した操作を取り消せるように）
+ */
+
+import { formatYmd } from "@/lib/date";
+import type { SnapshotMeta } from "@/lib/snapshots/store";
+
+export const KEEP_DAILY = 7;
+export const KEEP_WEEKLY = 4;
+
+function ymdOf(iso: string): string {
+  return formatYmd(new Date(iso));
+}
+
+/**
+ * ymd の週の月曜（YYYY-MM-DD）
+ */
+export function weekKeyOf(ymd: string): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const date = new Date(Date.UTC(y ?? 1970, (m ?? 1) - 1, d ?? 1));
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().slice(0, 10);
+}
+
+function keepNewestPerGroup(
+  sorted: SnapshotMeta[],
+  groupOf: (m: SnapshotMeta) => string,
+  limit: number,
+  keep: Set<string>,
+): void {
+  const seen = new Set<string>();
+  for (const m of sorted) {
+    const g = groupOf(m);
+    if (seen.has(g)) continue;
+    if (seen.size >= limit) break;
+    seen.add(g);
+    keep.add(m.id);
+  }
+}
+
+/**
+ * 消してよいスナップショットの id
+ */
+export function selectSnapshotsToDelete(metas: SnapshotMeta[]): string[] {
+  const sorted = [...metas].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const keep = new Set<string>();
+
+  keepNewestPerGroup(sorted, (m) => ymdOf(m.takenAt), KEEP_DAILY, keep);
+  keepNewestPerGroup(sorted, (m) => weekKeyOf(ymdOf(m.takenAt)), KEEP_WEEKLY, keep);
+
+  const lastPreRestore = sorted.find((m) => m.reason === "pre-restore");
+  if (lastPreRestore) keep.add(lastPreRestore.id);
+
+  return sorted.filter((m) => !keep.has(m.id)).map((m) => m.id);
+}
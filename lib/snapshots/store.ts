@@ -0,0 +1,103 @@
+/* lib/snapshots/store.ts
+ * 自動スナップショットの保存先（日記本体とは別の IndexedDB: achieve-snapshots）
+ * - 一覧用の meta と本体（payload）を別 store に分け、一覧では本体を読まない
+ * - payload は BackupEnvelope の JSON（暗号化モード中は AES-GCM で包んだ JSON）
+ */
+
+import { idbRequest, idbTransactionDone, isIndexedDbAvailable, openIdb } from "@/lib/idb";
+
+const DB_NAME = "achieve-snapshots";
+const DB_VERSION = 1;
+const META_STORE = "meta";
+const PAYLOAD_STORE = "payloads";
+
+export type SnapshotReason = "daily" | "burst" | "manual" | "pre-restore";
+
+export type SnapshotMeta = {
+  id: string;
+  takenAt: string; // ISO
+  reason: SnapshotReason;
+  dayCount: number;
+  itemCount: number;
+  encrypted: boolean;
+};
+
+function isSnapshotMeta(v: unknown): v is SnapshotMeta {
+  if (typeof v !== "object" || v === null) return false;
+  const r = v as Record<string, unknown>;
+  return (
+    typeof r.id === "string" &&
+    typeof r.takenAt === "string" &&
+    typeof r.reason === "string" &&
+    typeof r.dayCount === "number" &&
+    typeof r.itemCount === "number" &&
+    typeof r.encrypted === "boolean"
+  );
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openSnapshotsDb(): Promise<IDBDatabase> {
+  dbPromise ??= openIdb(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+    if (!db.objectStoreNames.contains(PAYLOAD_STORE)) db.createObjectStore(PAYLOAD_STORE);
+  }).catch((e: unknown) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+export function isSnapshotStoreAvailable(): boolean {
+  return isIndexedDbAvailable();
+}
+
+/**
+ * 新しい順
+ */
+export async function listSnapshotMetas(): Promise<SnapshotMeta[]> {
+  const db = await openSnapshotsDb();
+  const tx = db.transaction(META_STORE, "readonly");
+  const all = (await idbRequest(tx.objectStore(META_STORE).getAll() as IDBRequest<unknown[]>)).filter(isSnapshotMeta);
+  return all.sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+}
+
+export async function putSnapshot(meta: SnapshotMeta, payload: string): Promise<void> {
+  const db = await openSnapshotsDb();
+  const tx = db.transaction([META_STORE, PAYLOAD_STORE], "readwrite");
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(PAYLOAD_STORE).put(payload, meta.id);
+  await idbTransactionDone(tx);
+}
+
+export async function loadSnapshotPayload(id: string): Promise<string | null> {
+  const db = await openSnapshotsDb();
+  const tx = db.transaction(PAYLOAD_STORE, "readonly");
+  const v = (await idbRequest(tx.objectStore(PAYLOAD_STORE).get(id))) as unknown;
+  return typeof v === "string" ? v : null;
+}
+
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await openSnapshotsDb();
+  const tx = db.transaction([META_STORE, PAYLOAD_STORE], "readwrite");
+  for (const id of ids) {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(PAYLOAD_STORE).delete(id);
+  }
+  await idbTransactionDone(tx);
+}
+
+/**
+ * 全削除（暗号化の有効化・解除時：平文 / 読めなくなった暗号文を残さない）
+ */
+export async function clearSnapshotStore(): Promise<void> {
+  if (!isSnapshotStoreAvailable()) return;
+
+  const db = await openSnapshotsDb();
+  const tx = db.transaction([META_STORE, PAYLOAD_STORE], "readwrite");
+  tx.objectStore(META_STORE).clear();
+  tx.objectStore(PAYLOAD_STORE).clear();
+  await idbTransactionDone(tx);
+}
@@ -0,0 +1,99 @@
+/* lib/storage-usage.ts
+ * 保存容量の見積もり（日別キーごと / 合計 / 上限）
+ * - localStorage は UTF-16 で保持されるため「(key + value) の文字数 × 2」を bytes とみなす
+ * - IndexedDB は navigator.storage.estimate() の値を優先する
+ */
+
+import { dayKey, getDayBackend, listDayYmds } from "@/lib/storage";
+import type { DayBackendKind } from "@/lib/backends/types";
+
+// 多くのブラウザで localStorage はオリジンあたり約5MB
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+export type DayUsage = {
+  ymd: string;
+  bytes: number;
+};
+
+export type StorageUsage = {
+  backend: DayBackendKind;
+  days: DayUsage[]; // bytes の降順
+  dayBytes: number;
+  otherBytes: number; // 辞書・設定など日別以外の localStorage
+  totalBytes: number;
+  quotaBytes: number | null; // 不明なら null
+};
+
+function utf16Bytes(s: string): number {
+  return s.length * 2;
+}
+
+function measureOtherLocalKeys(storage: Storage, dayKeys: Set<string>): number {
+  let bytes = 0;
+  for (let i = 0; i < storage.length; i++) {
+    const k = storage.key(i);
+    if (!k || dayKeys.has(k)) continue;
+    bytes += utf16Bytes(k) + utf16Bytes(storage.getItem(k) ?? "");
+  }
+  return bytes;
+}
+
+async function estimateQuota(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  try {
+    const est = await navigator.storage.estimate();
+    if (typeof est.quota !== "number") return null;
+    return { usage: est.usage ?? 0, quota: est.quota };
+  } catch {
+    return null;
+  }
+}
+
+export async function measureStorageUsage(): Promise<StorageUsage | null> {
+  const backend = getDayBackend();
+  if (!backend) return null;
+
+  const days: DayUsage[] = [];
+  const dayKeys = new Set<string>();
+  let dayBytes = 0;
+
+  for (const ymd of listDayYmds()) {
+    const k = dayKey(ymd);
+    const bytes = utf16Bytes(k) + utf16Bytes(backend.loadDay(ymd) ?? "");
+    days.push({ ymd, bytes });
+    dayKeys.add(k);
+    dayBytes += bytes;
+  }
+
+  days.sort((a, b) => b.bytes - a.bytes || b.ymd.localeCompare(a.ymd));
+
+  const otherBytes = measureOtherLocalKeys(window.localStorage, backend.kind === "local" ? dayKeys : new Set());
+
+  if (backend.kind === "local") {
+    return {
+      backend: backend.kind,
+      days,
+      dayBytes,
+      otherBytes,
+      totalBytes: dayBytes + otherBytes,
+      quotaBytes: LOCAL_STORAGE_QUOTA_BYTES,
+    };
+  }
+
+  // IndexedDB：日別データは estimate() の上限に対して見る（localStorage 分は別枠）
+  const est = await estimateQuota();
+  return {
+    backend: backend.kind,
+    days,
+    dayBytes,
+    otherBytes,
+    totalBytes: dayBytes + otherBytes,
+    quotaBytes: est ? est.quota : null,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
@@ -1,4 +1,11 @@
 /* lib/storage.ts */
+import { createLocalDayBackend } from "@/lib/backends/local";
+import { openIndexedDbDayBackend } from "@/lib/backends/indexeddb";
+import type { DayBackend, DayBackendKind, DayChangeListener } from "@/lib/backends/types";
+import { CRYPTO_META_KEY } from "@/lib/encryption/meta";
+import { isIndexedDbAvailable } from "@/lib/idb";
+import { DAY_SCHEMA_VERSION, migrateDayRecord, readDaySchemaVersion } from "@/lib/schema/day";
+
 export type AchieveMood = "good" | "neutral" | "tough" | null;
 
 export type AchieveItem = {
@@ -6,14 +13,27 @@ export type AchieveItem = {
   text: string;
   done: boolean; // 互換のため残す（できたことリストでは常に true でOK）
   createdAt: string; // ISO
+  updatedAt: string; // ISO（本文などを変えた時刻。タブ間のマージで新しい方を採る）
+  habitId?: string; // 習慣のチェックで追加した項目（lib/habits.ts の Habit.id）
+};
+
+/**
+ * 削除の墓標（他タブ・同期先に「消した」ことを伝える）
+ */
+export type DayTombstone = {
+  id: string; // 消した AchieveItem.id
+  deletedAt: string; // ISO
 };
 
 export type AchieveDay = {
-  ymd: string; // YYYY-MM-DD (JST)
-  items: AchieveItem[];
+  ymd: string; // YYYY-MM-DD（lib/date.ts の formatYmd）
+  items: AchieveItem[]; // 並びは画面の並び（上ほど大事。並べ替えで変わる）
   mood: AchieveMood; // null = 未設定
   memo: string; // "" = 未設定
-  updatedAt: string; // ISO
+  pinnedId: string | null; // 今日のベスト（items の id。null = 未設定）
+  deleted: DayTombstone[];
+  updatedAt: string; // ISO（保存のたびに更新。saveDay の楽観的排他に使う）
+  schemaVersion: number; // 保存形式（lib/schema/day.ts）。DAY_SCHEMA_VERSION より大きければ読み取り専用
 };
 
 export type DayEntry = {
@@ -24,26 +44,239 @@ export type DayEntry = {
 export const DAY_KEY_PREFIX = "achieve:day:";
 
 /**
- * キャッシュ鮮度のキー（saveDay 経由で更新される）
+ * 最終保存時刻のキー（saveDay 経由で更新される。days-store は変更通知の ymd で追うので参照しない）
  */
 export const META_UPDATED_AT_KEY = "achieve:meta:lastUpdatedAt";
 
-type StorageMutationListener = () => void;
+/**
+ * 日別データの保存先（未設定 = localStorage）
+ * - 値は "local" | "indexeddb"。切り替えは lib/backends/migrate.ts 経由で行う
+ */
+export const STORAGE_BACKEND_KEY = "achieve:storage-backend:v1";
+
+/**
+ * newer-version：新しい版のアプリで保存された日（この版では読めないフィールドを消さないよう上書きしない）
+ */
+export type SaveDayFailureReason = "quota-exceeded" | "unavailable" | "invalid-ymd" | "newer-version";
+
+/**
+ * expectedUpdatedAt を渡した保存で、読み込んだ後に別タブ等が保存していた
+ * - current（保存済みの最新）とマージしてから保存し直す（lib/day-merge.ts）
+ */
+export type SaveDayConflict = { ok: false; reason: "conflict"; current: AchieveDay };
+
+export type SaveDayResult = { ok: true } | { ok: false; reason: SaveDayFailureReason };
+
+export type SaveDayOptions = {
+  // 読み込んだ時点の updatedAt（保存済みがこれと違えば conflict を返して書かない）
+  expectedUpdatedAt?: string;
+};
+
+// これより古い墓標は保存時に捨てる
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+type SaveFailureListener = (ymd: string, reason: SaveDayFailureReason) => void;
+
+const saveFailureListeners = new Set<SaveFailureListener>();
+
+/**
+ * 保存の “後から分かる” 失敗（IndexedDB の非同期書き込みなど）を購読
+ * - 同期で分かる失敗は saveDay() の戻り値で返す
+ */
+export function subscribeSaveFailures(listener: SaveFailureListener): () => void {
+  saveFailureListeners.add(listener);
+  return () => saveFailureListeners.delete(listener);
+}
+
+function isQuotaError(e: unknown): boolean {
+  if (typeof DOMException === "undefined" || !(e instanceof DOMException)) return false;
+  return (
+    e.name === "QuotaExceededError" ||
+    e.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    e.code === 22 ||
+    e.code === 1014
+  );
+}
+
+/**
+ * 書き込みで throw されたエラーを失敗理由にする（容量不足 / それ以外）
+ */
+export function toFailureReason(e: unknown): SaveDayFailureReason {
+  return isQuotaError(e) ? "quota-exceeded" : "unavailable";
+}
+
+/**
+ * ymd = 書き換えた日（backend の差し替えなど、日を特定できない変更は null）
+ */
+type StorageMutationListener = (ymd: string | null) => void;
 
 const mutationListeners = new Set<StorageMutationListener>();
 
-function emitStorageMutation(): void {
-  for (const l of mutationListeners) l();
+function emitStorageMutation(ymd: string | null): void {
+  for (const l of mutationListeners) l(ymd);
 }
 
 /**
- * saveDay() など “このタブ内での永続化” をフックしたい側（days-store等）のため
+ * saveDay() など “このタブ内での永続化” をフックしたい側（days-store・同期など）のため
  */
 export function subscribeStorageMutations(listener: StorageMutationListener): () => void {
   mutationListeners.add(listener);
   return () => mutationListeners.delete(listener);
 }
 
+// ===== 保存先（backend）=====
+
+let activeBackend: DayBackend | null = null;
+let baseBackend: DayBackend | null = null; // 暗号化の下（local / indexeddb）
+let detachActiveBackend: (() => void) | null = null;
+let detachWriteErrors: (() => void) | null = null;
+let readyPromise: Promise<DayBackend | null> | null = null;
+
+const lockListeners = new Set<() => void>();
+
+function emitLockChange(): void {
+  for (const l of lockListeners) l();
+}
+
+const externalDayListeners = new Set<DayChangeListener>();
+
+function forwardExternalDayChange(ymd: string | null): void {
+  for (const l of externalDayListeners) l(ymd);
+}
+
+function setActiveBackend(next: DayBackend): void {
+  if (detachActiveBackend) detachActiveBackend();
+  activeBackend = next;
+  if (!next.encrypted) {
+    // 差し替えた下の backend は購読を外す（古いキャッシュへ読み直し続けないように）
+    if (baseBackend && baseBackend !== next) baseBackend.close?.();
+    baseBackend = next;
+  }
+  detachActiveBackend = next.subscribe(forwardExternalDayChange);
+
+  if (detachWriteErrors) detachWriteErrors();
+  detachWriteErrors = next.subscribeWriteErrors((ymd, error) => {
+    const reason = toFailureReason(error);
+    for (const l of saveFailureListeners) l(ymd, reason);
+  });
+}
+
+/**
+ * 暗号化モード（lib/encryption/meta.ts の鍵情報がある）か
+ */
+export function isDayEncryptionEnabled(): boolean {
+  return isBrowser() && window.localStorage.getItem(CRYPTO_META_KEY) !== null;
+}
+
+/**
+ * 暗号化モードで、まだ解錠していない（この間 getDayBackend は null）
+ */
+export function isDayBackendLocked(): boolean {
+  return isDayEncryptionEnabled() && !activeBackend?.encrypted;
+}
+
+/**
+ * 解錠 / 暗号化の切り替えを購読（UnlockGate 用）
+ */
+export function subscribeDayBackendLock(listener: () => void): () => void {
+  lockListeners.add(listener);
+  return () => lockListeners.delete(listener);
+}
+
+/**
+ * 現在の backend（ensureDayBackendReady 前は localStorage）
+ * - 暗号化モードで未解錠なら null（平文の読み書きをさせない）
+ */
+export function getDayBackend(): DayBackend | null {
+  if (isDayBackendLocked()) return null;
+  if (activeBackend) return activeBackend;
+  if (!isBrowser()) return null;
+
+  setActiveBackend(createLocalDayBackend(window.localStorage, DAY_KEY_PREFIX));
+  return activeBackend;
+}
+
+/**
+ * 暗号化の下にある backend（解錠・暗号化の切り替え用。通常の読み書きには使わない）
+ */
+export async function getBaseDayBackend(): Promise<DayBackend | null> {
+  await ensureDayBackendReady();
+  if (baseBackend) return baseBackend;
+  if (!isBrowser()) return null;
+
+  baseBackend = createLocalDayBackend(window.localStorage, DAY_KEY_PREFIX);
+  return baseBackend;
+}
+
+export function getDayBackendKind(): DayBackendKind {
+  return getDayBackend()?.kind ?? "local";
+}
+
+function readBackendPref(): DayBackendKind {
+  if (!isBrowser()) return "local";
+  return window.localStorage.getItem(STORAGE_BACKEND_KEY) === "indexeddb" ? "indexeddb" : "local";
+}
+
+/**
+ * 移行などで backend を差し替える（購読者には変更として通知）
+ */
+export function installDayBackend(next: DayBackend): void {
+  setActiveBackend(next);
+  emitStorageMutation(null);
+  emitLockChange();
+}
+
+/**
+ * 画面の初回描画前に呼ぶ（ClientOnly の dynamic import 内で await）
+ * - 設定が indexeddb なら全件をメモリへ読み込んでから backend を有効化
+ * - 開けなかった場合は localStorage のまま
+ */
+export function ensureDayBackendReady(): Promise<DayBackend | null> {
+  if (!isBrowser()) return Promise.resolve(null);
+  if (readyPromise) return readyPromise;
+
+  // 他タブで保存先・暗号化が切り替わったら、古い保存先に書き続けないよう読み直す
+  window.addEventListener("storage", (e) => {
+    if (e.key === STORAGE_BACKEND_KEY || e.key === CRYPTO_META_KEY) window.location.reload();
+  });
+
+  readyPromise = (async () => {
+    let base: DayBackend | null = null;
+    if (readBackendPref() === "indexeddb" && isIndexedDbAvailable()) {
+      try {
+        base = await openIndexedDbDayBackend();
+      } catch {
+        // 開けない環境（プライベートモード等）は localStorage で続行
+      }
+    }
+    base ??= baseBackend ?? createLocalDayBackend(window.localStorage, DAY_KEY_PREFIX);
+
+    // 暗号化モードは解錠（lib/encryption/session.ts）まで有効化しない
+    if (isDayEncryptionEnabled()) baseBackend = base;
+    else setActiveBackend(base);
+
+    return getDayBackend();
+  })();
+
+  return readyPromise;
+}
+
+/**
+ * 他タブなど “このタブ以外” での日別データ変更を購読（backend に依らない）
+ */
+export function subscribeExternalDayChanges(listener: DayChangeListener): () => void {
+  getDayBackend();
+  externalDayListeners.add(listener);
+  return () => externalDayListeners.delete(listener);
+}
+
+/**
+ * タブの外（同期サーバーなど）から取り込んだ日を、開いている画面へ他タブの変更と同じ経路で知らせる
+ */
+export function notifyExternalDayChange(ymd: string): void {
+  forwardExternalDayChange(ymd);
+}
+
 function nowIso(): string {
   return new Date().toISOString();
 }
@@ -83,6 +316,12 @@ function asMood(value: unknown): AchieveMood {
   return null;
 }
 
+// ベストは今ある item だけ（消した・無い id は外す）
+function asPinnedId(value: unknown, items: AchieveItem[]): string | null {
+  const id = asStringTrim(value);
+  return id && items.some((it) => it.id === id) ? id : null;
+}
+
 export function createId(): string {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
     return crypto.randomUUID();
@@ -94,7 +333,11 @@ export function dayKey(ymd: string): string {
   return `${DAY_KEY_PREFIX}${ymd}`;
 }
 
-function normalizeItem(v: unknown): AchieveItem | null {
+/**
+ * 不正な item は null（id/text が空のものは捨てる）
+ * - import など外部データの検証にも同じガードを使う
+ */
+export function normalizeItem(v: unknown): AchieveItem | null {
   if (!isRecord(v)) return null;
 
   const id = asStringTrim(v.id) ?? "";
@@ -103,19 +346,48 @@ function normalizeItem(v: unknown): AchieveItem | null {
 
   const done = typeof v.done === "boolean" ? v.done : true;
   const createdAt = asStringTrim(v.createdAt) ?? nowIso();
+  const updatedAt = asStringTrim(v.updatedAt) ?? createdAt;
 
-  return { id, text, done, createdAt };
+  const habitId = asStringTrim(v.habitId);
+
+  return habitId ? { id, text, done, createdAt, updatedAt, habitId } : { id, text, done, createdAt, updatedAt };
 }
 
-function normalizeDay(ymd: string, parsed: unknown): AchieveDay {
+function normalizeTombstone(v: unknown): DayTombstone | null {
+  if (!isRecord(v)) return null;
+
+  const id = asStringTrim(v.id);
+  const deletedAt = asStringTrim(v.deletedAt);
+  if (!id || !deletedAt) return null;
+
+  return { id, deletedAt };
+}
+
+function pruneTombstones(list: DayTombstone[], now: Date): DayTombstone[] {
+  const threshold = new Date(now.getTime() - TOMBSTONE_TTL_MS).toISOString();
+  return list.filter((t) => t.deletedAt >= threshold);
+}
+
+/**
+ * 保存データ（JSON.parse 済み）を AchieveDay に整える
+ * - 先に lib/schema/day.ts の移行ステップを通してから既定値を埋める
+ * - 新しい版で保存された日は読める所だけ読み、schemaVersion はその版のまま返す（saveDay は書かない）
+ */
+export function normalizeDay(ymd: string, raw: unknown): AchieveDay {
   const empty: AchieveDay = {
     ymd,
     items: [],
     mood: null,
     memo: "",
+    pinnedId: null,
+    deleted: [],
     updatedAt: nowIso(),
+    schemaVersion: DAY_SCHEMA_VERSION,
   };
 
+  const migrated = migrateDayRecord(raw);
+  const parsed = migrated.ok ? migrated.record : raw;
+
   if (!isRecord(parsed)) return empty;
 
   const itemsRaw = Array.isArray(parsed.items) ? parsed.items : [];
@@ -123,68 +395,175 @@ function normalizeDay(ymd: string, parsed: unknown): AchieveDay {
     .map((x) => normalizeItem(x))
     .filter((x): x is AchieveItem => x !== null);
 
+  const deletedRaw = Array.isArray(parsed.deleted) ? parsed.deleted : [];
+  const deleted = deletedRaw
+    .map((x) => normalizeTombstone(x))
+    .filter((x): x is DayTombstone => x !== null);
+
   return {
     ymd,
     items,
     mood: asMood(parsed.mood),
     memo: asString(parsed.memo, ""),
+    pinnedId: asPinnedId(parsed.pinnedId, items),
+    deleted,
     updatedAt: asString(parsed.updatedAt, nowIso()),
+    schemaVersion: !migrated.ok && migrated.reason === "newer-version" ? migrated.fromVersion : DAY_SCHEMA_VERSION,
   };
 }
 
+/**
+ * 保存済みの生 JSON を AchieveDay に（壊れた JSON も normalizeDay の既定値で読む）
+ */
+export function parseDayRecord(ymd: string, raw: string): AchieveDay {
+  return normalizeDay(ymd, safeJsonParse(raw));
+}
+
 export function loadDay(ymd: string): AchieveDay {
   const empty: AchieveDay = {
     ymd,
     items: [],
     mood: null,
     memo: "",
+    pinnedId: null,
+    deleted: [],
     updatedAt: nowIso(),
+    schemaVersion: DAY_SCHEMA_VERSION,
   };
 
-  if (!isBrowser()) return empty;
+  const backend = getDayBackend();
+  if (!backend) return empty;
 
-  const raw = window.localStorage.getItem(dayKey(ymd));
+  const raw = backend.loadDay(ymd);
   if (!raw) return empty;
 
-  return normalizeDay(ymd, safeJsonParse(raw));
+  return parseDayRecord(ymd, raw);
 }
 
-export function saveDay(day: AchieveDay): void {
-  if (!isBrowser()) return;
+type StoredDayHeader = {
+  raw: string;
+  updatedAt: string | null; // 欠落は null
+  schemaVersion: number;
+};
+
+/**
+ * 保存済みレコードの updatedAt / schemaVersion（未保存は null）
+ */
+function readStoredHeader(backend: DayBackend, ymd: string): StoredDayHeader | null {
+  const raw = backend.loadDay(ymd);
+  if (!raw) return null;
+
+  const parsed = safeJsonParse(raw);
+  if (!isRecord(parsed)) return { raw, updatedAt: null, schemaVersion: 0 };
+  return {
+    raw,
+    updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : null,
+    schemaVersion: readDaySchemaVersion(parsed),
+  };
+}
+
+/**
+ * 1日分を保存する
+ * - 失敗は throw せず理由付きで返す（容量超過 / 保存先が使えない / ymd 不正）
+ * - IndexedDB は書き込みが非同期なので、後から分かった失敗は subscribeSaveFailures() へ
+ * - expectedUpdatedAt を渡すと、保存済みの方が新しい場合は書かずに conflict を返す
+ * - 新しい版のアプリで保存された日（保存済み・渡された day のどちらか）は書かずに newer-version を返す
+ */
+export function saveDay(day: AchieveDay): SaveDayResult;
+export function saveDay(day: AchieveDay, options: SaveDayOptions): SaveDayResult | SaveDayConflict;
+export function saveDay(day: AchieveDay, options: SaveDayOptions = {}): SaveDayResult | SaveDayConflict {
+  const backend = getDayBackend();
+  if (!backend) return { ok: false, reason: "unavailable" };
 
   const ymd = day.ymd;
-  if (!isYmdString(ymd)) return;
+  if (!isYmdString(ymd)) return { ok: false, reason: "invalid-ymd" };
 
+  const stored = readStoredHeader(backend, ymd);
+  if (day.schemaVersion > DAY_SCHEMA_VERSION || (stored && stored.schemaVersion > DAY_SCHEMA_VERSION)) {
+    return { ok: false, reason: "newer-version" };
+  }
+
+  if (options.expectedUpdatedAt !== undefined) {
+    if (stored && stored.updatedAt !== null && stored.updatedAt !== options.expectedUpdatedAt) {
+      return { ok: false, reason: "conflict", current: normalizeDay(ymd, safeJsonParse(stored.raw)) };
+    }
+  }
+
+  const now = new Date();
   const payload: AchieveDay = {
     ymd,
     items: Array.isArray(day.items) ? day.items : [],
     mood: day.mood ?? null,
     memo: typeof day.memo === "string" ? day.memo : "",
-    updatedAt: nowIso(),
+    pinnedId: asPinnedId(day.pinnedId, Array.isArray(day.items) ? day.items : []),
+    deleted: pruneTombstones(Array.isArray(day.deleted) ? day.deleted : [], now),
+    updatedAt: now.toISOString(),
+    schemaVersion: DAY_SCHEMA_VERSION,
   };
 
-  window.localStorage.setItem(dayKey(ymd), JSON.stringify(payload));
-  window.localStorage.setItem(META_UPDATED_AT_KEY, nowIso());
+  try {
+    backend.saveDay(ymd, JSON.stringify(payload));
+  } catch (e: unknown) {
+    return { ok: false, reason: toFailureReason(e) };
+  }
+
+  try {
+    window.localStorage.setItem(META_UPDATED_AT_KEY, nowIso());
+  } catch {
+    // 最終保存時刻は取りこぼしても困らない（本体は保存済み）
+  }
 
   // 同一タブ内の購読者（days-store）が即反応できるように通知
-  emitStorageMutation();
+  emitStorageMutation(ymd);
+  return { ok: true };
 }
 
-export function scanDaysFromStorage(storage: Storage): DayEntry[] {
-  const out: DayEntry[] = [];
+/**
+ * 保存データを “そのまま” 書き換える（修復・復元用）
+ * - 正規化も updatedAt の更新もしない。通常の保存は saveDay() を使う
+ */
+export function replaceDayRecord(ymd: string, raw: string): SaveDayResult {
+  const backend = getDayBackend();
+  if (!backend) return { ok: false, reason: "unavailable" };
+
+  try {
+    backend.saveDay(ymd, raw);
+  } catch (e: unknown) {
+    return { ok: false, reason: toFailureReason(e) };
+  }
+
+  emitStorageMutation(ymd);
+  return { ok: true };
+}
+
+export function removeDayRecord(ymd: string): void {
+  const backend = getDayBackend();
+  if (!backend) return;
 
-  for (let i = 0; i < storage.length; i++) {
-    const k = storage.key(i);
-    if (!k || !k.startsWith(DAY_KEY_PREFIX)) continue;
+  backend.removeDay(ymd);
+  emitStorageMutation(ymd);
+}
 
-    const ymd = k.slice(DAY_KEY_PREFIX.length);
-    if (!isYmdString(ymd)) continue;
+/**
+ * 保存されている ymd 一覧（形式不正なキーは除外・並びは不定）
+ */
+export function listDayYmds(): string[] {
+  const backend = getDayBackend();
+  if (!backend) return [];
+  return backend.listDays().filter(isYmdString);
+}
+
+export function scanDays(): DayEntry[] {
+  const backend = getDayBackend();
+  if (!backend) return [];
+
+  const out: DayEntry[] = [];
 
-    const raw = storage.getItem(k);
+  for (const ymd of listDayYmds()) {
+    const raw = backend.loadDay(ymd);
     if (!raw) continue;
 
-    const day = normalizeDay(ymd, safeJsonParse(raw));
-    out.push({ ymd, day });
+    out.push({ ymd, day: parseDayRecord(ymd, raw) });
   }
 
   out.sort((a, b) => b.ymd.localeCompare(a.ymd));
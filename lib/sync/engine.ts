@@ -0,0 +1,438 @@
+/* lib/sync/engine.ts
+ * 端末側の同期エンジン（app/api/sync と通信）
+ * - saveDay などの保存（subscribeStorageMutations）と辞書の保存を送信待ちに積み、少し待ってから送る
+ * - 取得 → 送信の順。取得した日が送信待ちなら mergeDays でマージ（気分 / ひとことは手元を優先）
+ * - 失敗したら間隔を伸ばして再試行。オンライン復帰・画面に戻ったとき・定期的にも取得する
+ * - 暗号化モード中は同期しない（サーバーに平文を送らないため）
+ */
+
+import { loadTagAliases, type TagAliases } from "@/lib/diary";
+import { saveTagAliasesAndNotify, subscribeTagAliasesMutations } from "@/lib/aliases-store";
+import { mergeDays } from "@/lib/day-merge";
+import {
+  getDayBackend,
+  isDayEncryptionEnabled,
+  isYmdString,
+  listDayYmds,
+  loadDay,
+  notifyExternalDayChange,
+  replaceDayRecord,
+  saveDay,
+  subscribeStorageMutations,
+  type AchieveDay,
+} from "@/lib/storage";
+import { DAY_SCHEMA_VERSION } from "@/lib/schema/day";
+import {
+  SYNC_API_PATH,
+  SYNC_PUSH_BATCH,
+  parseSyncPullResponse,
+  parseSyncPushResponse,
+  type SyncPushRequest,
+} from "@/lib/sync/protocol";
+import {
+  SYNC_STATE_KEY,
+  clearSyncState,
+  countPending,
+  defaultSyncState,
+  loadSyncState,
+  saveSyncState,
+  updateSyncState,
+  type SyncState,
+} from "@/lib/sync/state";
+
+export type SyncPhase = "off" | "idle" | "syncing" | "offline" | "error" | "unavailable";
+
+export type SyncStatus = {
+  phase: SyncPhase;
+  pending: number;
+  lastSyncedAt: string | null; // ISO
+  message: string;
+};
+
+export type EnableSyncResult = { ok: true } | { ok: false; reason: "encrypted" | "empty-token" };
+
+export const SYNC_STATUS_OFF: SyncStatus = { phase: "off", pending: 0, lastSyncedAt: null, message: "" };
+
+const DEBOUNCE_MS = 2000;
+const POLL_MS = 60_000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60_000;
+const MAX_PUSH_ROUNDS = 5;
+const LOCK_NAME = "achieve:sync";
+
+type StepResult = { ok: true } | { ok: false; offline: boolean; message: string };
+type ApiResult = { ok: true; json: unknown } | { ok: false; offline: boolean; message: string };
+
+let status: SyncStatus = SYNC_STATUS_OFF;
+const statusListeners = new Set<() => void>();
+
+let started = false;
+let applyingRemote = false;
+let running = false;
+let rerun = false;
+let failures = 0;
+let timer: number | null = null;
+
+// ===== 状態表示（useSyncExternalStore 向け）=====
+
+function publish(phase: SyncPhase, message = ""): void {
+  const state = loadSyncState(window.localStorage);
+  status = {
+    phase: state.enabled ? phase : "off",
+    pending: countPending(state),
+    lastSyncedAt: state.lastSyncedAt,
+    message,
+  };
+  for (const l of statusListeners) l();
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+// ===== 送信待ち =====
+
+function markPending(mark: (state: SyncState) => void): void {
+  if (applyingRemote) return;
+
+  const storage = window.localStorage;
+  if (!loadSyncState(storage).enabled) return;
+
+  updateSyncState(storage, (s) => {
+    s.seq += 1;
+    mark(s);
+  });
+  publish(status.phase === "off" ? "idle" : status.phase, status.message);
+  scheduleSync(DEBOUNCE_MS);
+}
+
+function onDayMutation(ymd: string | null): void {
+  if (ymd === null || !isYmdString(ymd)) return;
+  markPending((s) => {
+    s.pending[ymd] = s.seq;
+  });
+}
+
+function onAliasesMutation(): void {
+  markPending((s) => {
+    s.aliasesPending = s.seq;
+  });
+}
+
+// ===== 取り込み =====
+
+function withRemote(fn: () => void): void {
+  applyingRemote = true;
+  try {
+    fn();
+  } finally {
+    applyingRemote = false;
+  }
+}
+
+/**
+ * サーバーの日を手元に書く（送信待ちの日はマージして、送信待ちのまま残す）
+ */
+function applyRemoteDay(ymd: string, remote: AchieveDay, merge: boolean): boolean {
+  let ok = false;
+  withRemote(() => {
+    if (!merge) {
+      // 新しい版のアプリで保存された手元の日は上書きしない（saveDay の newer-version と同じ）
+      if (loadDay(ymd).schemaVersion > DAY_SCHEMA_VERSION) return;
+      ok = replaceDayRecord(ymd, JSON.stringify(remote)).ok;
+      return;
+    }
+
+    const local = loadDay(ymd);
+    const merged = mergeDays(null, local, remote);
+    // 共通の base が無いので、気分 / ひとこと / ベストは入力済みの手元を優先（取り込みと同じ基準）
+    ok = saveDay({
+      ...merged,
+      mood: local.mood ?? remote.mood,
+      memo: local.memo || remote.memo,
+      pinnedId: local.pinnedId ?? remote.pinnedId,
+    }).ok;
+  });
+
+  if (ok) notifyExternalDayChange(ymd);
+  return ok;
+}
+
+function applyRemoteAliases(remote: TagAliases, merge: boolean): boolean {
+  const storage = window.localStorage;
+  const next = merge ? { ...remote, ...loadTagAliases(storage) } : remote;
+
+  try {
+    withRemote(() => saveTagAliasesAndNotify(storage, next));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ===== 通信 =====
+
+function httpMessage(status: number): string {
+  if (status === 401) return "同期トークンが違います。";
+  if (status === 404) return "サーバーで同期が有効になっていません（ACHIEVE_SYNC_TOKEN）。";
+  return `サーバーエラー（${status}）`;
+}
+
+async function callSyncApi(token: string, url: string, init: RequestInit): Promise<ApiResult> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      ...init,
+      cache: "no-store",
+      headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+    });
+  } catch {
+    return { ok: false, offline: true, message: "サーバーに接続できません。" };
+  }
+
+  if (!res.ok) return { ok: false, offline: false, message: httpMessage(res.status) };
+
+  try {
+    return { ok: true, json: (await res.json()) as unknown };
+  } catch {
+    return { ok: false, offline: false, message: "サーバーの応答を読み込めませんでした。" };
+  }
+}
+
+const MALFORMED: StepResult = { ok: false, offline: false, message: "サーバーの応答の形式が違います。" };
+const WRITE_FAILED: StepResult = { ok: false, offline: false, message: "受け取った日を保存できませんでした。" };
+
+async function pull(token: string): Promise<StepResult> {
+  const storage = window.localStorage;
+
+  const res = await callSyncApi(token, `${SYNC_API_PATH}?since=${loadSyncState(storage).cursor}`, { method: "GET" });
+  if (!res.ok) return res;
+
+  const body = parseSyncPullResponse(res.json);
+  if (!body) return MALFORMED;
+
+  // ここから保存までは同期的に進む（送信待ちの追加と混ざらない）
+  const state = loadSyncState(storage);
+  for (const rec of body.days) {
+    // 自分が送った版はそのまま
+    if (state.revisions[rec.ymd] === rec.revision) continue;
+    if (!applyRemoteDay(rec.ymd, rec.day, rec.ymd in state.pending)) return WRITE_FAILED;
+    state.revisions[rec.ymd] = rec.revision;
+  }
+
+  if (body.aliases && body.aliases.revision !== state.aliasesRevision) {
+    if (!applyRemoteAliases(body.aliases.value, state.aliasesPending > 0)) return WRITE_FAILED;
+    state.aliasesRevision = body.aliases.revision;
+  }
+
+  state.cursor = body.cursor;
+  saveSyncState(storage, state);
+  return { ok: true };
+}
+
+/**
+ * 送信待ちを1回分（SYNC_PUSH_BATCH 日まで）送る。done = 送信待ちが空になった
+ */
+async function push(token: string): Promise<StepResult & { done?: boolean }> {
+  const storage = window.localStorage;
+  const state = loadSyncState(storage);
+
+  const ymds = Object.keys(state.pending).slice(0, SYNC_PUSH_BATCH);
+  if (ymds.length === 0 && !state.aliasesPending) return { ok: true, done: true };
+
+  const sent = new Map(ymds.map((ymd) => [ymd, state.pending[ymd]]));
+  const aliasesSeq = state.aliasesPending;
+
+  const req: SyncPushRequest = {
+    days: ymds.map((ymd) => ({ ymd, day: loadDay(ymd), baseRevision: state.revisions[ymd] ?? 0 })),
+    aliases: aliasesSeq ? { value: loadTagAliases(storage), baseRevision: state.aliasesRevision } : null,
+  };
+
+  const res = await callSyncApi(token, SYNC_API_PATH, { method: "POST", body: JSON.stringify(req) });
+  if (!res.ok) return res;
+
+  const body = parseSyncPushResponse(res.json);
+  if (!body) return MALFORMED;
+
+  // 送信中に積まれた分を消さないよう読み直す（同じ通し番号のものだけ送信済みにする）
+  const next = loadSyncState(storage);
+  let failed = false;
+
+  for (const a of body.accepted) {
+    next.revisions[a.ymd] = a.revision;
+    if (next.pending[a.ymd] === sent.get(a.ymd)) delete next.pending[a.ymd];
+  }
+
+  // 他端末が先に書いていた日：マージして送信待ちのまま、次の回で新しい revision を base に送り直す
+  for (const c of body.conflicts) {
+    if (!applyRemoteDay(c.ymd, c.day, true)) {
+      failed = true;
+      continue;
+    }
+    next.revisions[c.ymd] = c.revision;
+  }
+
+  if (body.aliases?.ok) {
+    next.aliasesRevision = body.aliases.revision;
+    if (next.aliasesPending === aliasesSeq) next.aliasesPending = 0;
+  } else if (body.aliases) {
+    if (applyRemoteAliases(body.aliases.current.value, true)) next.aliasesRevision = body.aliases.current.revision;
+    else failed = true;
+  }
+
+  saveSyncState(storage, next);
+  if (failed) return WRITE_FAILED;
+  return { ok: true, done: countPending(next) === 0 };
+}
+
+async function syncOnce(): Promise<void> {
+  const storage = window.localStorage;
+  const state = loadSyncState(storage);
+
+  if (!state.enabled) {
+    publish("off");
+    return;
+  }
+  if (isDayEncryptionEnabled()) {
+    publish("unavailable", "暗号化中は同期できません。");
+    return;
+  }
+  // ロック中は何もしない（解錠後の prepareClient から改めて始まる）
+  if (!getDayBackend()) return;
+  if (!navigator.onLine) {
+    publish("offline");
+    return;
+  }
+
+  publish("syncing");
+
+  let res: StepResult & { done?: boolean } = await pull(state.token);
+  for (let round = 0; res.ok && round < MAX_PUSH_ROUNDS; round++) {
+    res = await push(state.token);
+    if (res.ok && res.done) break;
+  }
+
+  if (!res.ok) {
+    failures += 1;
+    publish(res.offline ? "offline" : "error", res.message);
+    scheduleSync(Math.min(RETRY_BASE_MS * 2 ** (failures - 1), RETRY_MAX_MS));
+    return;
+  }
+
+  failures = 0;
+  updateSyncState(storage, (s) => {
+    s.lastSyncedAt = new Date().toISOString();
+  });
+  publish("idle");
+
+  if (!res.done) scheduleSync(DEBOUNCE_MS);
+}
+
+function withSyncLock(task: () => Promise<void>): Promise<void> {
+  // 複数タブで同時に送らない（送信待ちは localStorage で共有している）
+  if ("locks" in navigator) return navigator.locks.request<void>(LOCK_NAME, task);
+  return task();
+}
+
+function scheduleSync(delayMs: number): void {
+  if (timer !== null) window.clearTimeout(timer);
+  timer = window.setTimeout(() => {
+    timer = null;
+    void syncNow();
+  }, delayMs);
+}
+
+export async function syncNow(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+
+  running = true;
+  try {
+    await withSyncLock(syncOnce);
+  } catch {
+    publish("error", "同期に失敗しました。");
+  } finally {
+    running = false;
+  }
+
+  if (rerun) {
+    rerun = false;
+    scheduleSync(0);
+  }
+}
+
+// ===== 開始 / 設定 =====
+
+function onStorageEvent(e: StorageEvent): void {
+  if (e.key !== SYNC_STATE_KEY) return;
+  // 他タブの同期結果（送信待ちの件数など）を反映
+  publish(status.phase === "off" ? "idle" : status.phase, status.message);
+}
+
+/**
+ * 1タブにつき1回（prepareClient から）
+ */
+export function startSync(): void {
+  if (started) {
+    // 解錠後の prepareClient など
+    if (loadSyncState(window.localStorage).enabled) scheduleSync(0);
+    return;
+  }
+  started = true;
+
+  subscribeStorageMutations(onDayMutation);
+  subscribeTagAliasesMutations(onAliasesMutation);
+
+  window.addEventListener("storage", onStorageEvent);
+  window.addEventListener("online", () => scheduleSync(0));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible" && status.phase !== "syncing") scheduleSync(0);
+  });
+  window.setInterval(() => {
+    if (document.visibilityState === "visible" && status.phase === "idle") scheduleSync(0);
+  }, POLL_MS);
+
+  publish("idle");
+  if (loadSyncState(window.localStorage).enabled) scheduleSync(0);
+}
+
+/**
+ * 同期を始める（手元の全日と辞書を送信待ちにしてから、取得 → マージ → 送信）
+ */
+export function enableSync(token: string): EnableSyncResult {
+  const trimmed = token.trim();
+  if (!trimmed) return { ok: false, reason: "empty-token" };
+  if (isDayEncryptionEnabled()) return { ok: false, reason: "encrypted" };
+
+  const state: SyncState = { ...defaultSyncState(), enabled: true, token: trimmed };
+  for (const ymd of listDayYmds()) {
+    state.seq += 1;
+    state.pending[ymd] = state.seq;
+  }
+  state.seq += 1;
+  state.aliasesPending = state.seq;
+
+  saveSyncState(window.localStorage, state);
+  failures = 0;
+  startSync();
+  publish("idle");
+  scheduleSync(0);
+  return { ok: true };
+}
+
+/**
+ * 同期をやめる（手元のデータはそのまま。サーバー側も消さない）
+ */
+export function disableSync(): void {
+  if (timer !== null) window.clearTimeout(timer);
+  timer = null;
+  clearSyncState(window.localStorage);
+  publish("off");
+}
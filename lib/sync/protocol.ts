@@ -0,0 +1,139 @@
+/* lib/sync/protocol.ts
+ * 同期 API（app/api/sync）の送受信の形と検証（サーバー / クライアント共通）
+ * - revision はサーバー全体で単調増加する番号。各レコードは最後に書かれた時点の revision を持つ
+ * - 取得は「cursor より後に書かれたレコード」、送信は「手元が知っている revision（baseRevision）」付き
+ * - baseRevision が古ければサーバーは書かずに現在の内容を返す（マージは端末側）
+ */
+
+import { normalizeAliasKey, normalizeAliasValue, type TagAliases } from "@/lib/diary";
+import { isYmdString, normalizeDay, type AchieveDay } from "@/lib/storage";
+
+export const SYNC_API_PATH = "/api/sync";
+
+// 1回の送信で送る日数の上限
+export const SYNC_PUSH_BATCH = 200;
+
+export type SyncDayRecord = { ymd: string; day: AchieveDay; revision: number };
+export type SyncAliasesRecord = { value: TagAliases; revision: number };
+
+export type SyncPullResponse = {
+  cursor: number;
+  days: SyncDayRecord[];
+  aliases: SyncAliasesRecord | null; // cursor より後に書かれていなければ null
+};
+
+export type SyncPushDay = { ymd: string; day: AchieveDay; baseRevision: number };
+
+export type SyncPushRequest = {
+  days: SyncPushDay[];
+  aliases: { value: TagAliases; baseRevision: number } | null;
+};
+
+// 送信の結果（cursor は返さない：他端末の変更は取得で受け取る）
+export type SyncPushResponse = {
+  accepted: { ymd: string; revision: number }[];
+  conflicts: SyncDayRecord[]; // サーバー側の現在の内容
+  aliases: { ok: true; revision: number } | { ok: false; current: SyncAliasesRecord } | null;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isRevision(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0;
+}
+
+export function parseSyncAliases(value: unknown): TagAliases | null {
+  if (!isRecord(value)) return null;
+
+  const out: TagAliases = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (typeof v !== "string") continue;
+    const nk = normalizeAliasKey(k);
+    const nv = normalizeAliasValue(v);
+    if (!nk || !nv) continue;
+    out[nk] = nv;
+  }
+  return out;
+}
+
+function parseDay(ymd: unknown, raw: unknown): AchieveDay | null {
+  if (typeof ymd !== "string" || !isYmdString(ymd) || !isRecord(raw)) return null;
+  return normalizeDay(ymd, raw);
+}
+
+function parseDayRecord(v: unknown): SyncDayRecord | null {
+  if (!isRecord(v) || !isRevision(v.revision)) return null;
+  const day = parseDay(v.ymd, v.day);
+  return day ? { ymd: day.ymd, day, revision: v.revision } : null;
+}
+
+function parseAliasesRecord(v: unknown): SyncAliasesRecord | null {
+  if (!isRecord(v) || !isRevision(v.revision)) return null;
+  const value = parseSyncAliases(v.value);
+  return value ? { value, revision: v.revision } : null;
+}
+
+export function parseSyncPullResponse(v: unknown): SyncPullResponse | null {
+  if (!isRecord(v) || !isRevision(v.cursor) || !Array.isArray(v.days)) return null;
+
+  const days: SyncDayRecord[] = [];
+  for (const raw of v.days) {
+    const rec = parseDayRecord(raw);
+    if (rec) days.push(rec);
+  }
+  return { cursor: v.cursor, days, aliases: parseAliasesRecord(v.aliases) };
+}
+
+export function parseSyncPushRequest(v: unknown): SyncPushRequest | null {
+  if (!isRecord(v) || !Array.isArray(v.days)) return null;
+  if (v.days.length > SYNC_PUSH_BATCH) return null;
+
+  const days: SyncPushDay[] = [];
+  for (const raw of v.days) {
+    if (!isRecord(raw) || !isRevision(raw.baseRevision)) return null;
+    const day = parseDay(raw.ymd, raw.day);
+    if (!day) return null;
+    days.push({ ymd: day.ymd, day, baseRevision: raw.baseRevision });
+  }
+
+  let aliases: SyncPushRequest["aliases"] = null;
+  if (v.aliases !== null && v.aliases !== undefined) {
+    if (!isRecord(v.aliases) || !isRevision(v.aliases.baseRevision)) return null;
+    const value = parseSyncAliases(v.aliases.value);
+    if (!value) return null;
+    aliases = { value, baseRevision: v.aliases.baseRevision };
+  }
+
+  return { days, aliases };
+}
+
+export function parseSyncPushResponse(v: unknown): SyncPushResponse | null {
+  if (!isRecord(v) || !Array.isArray(v.accepted) || !Array.isArray(v.conflicts)) return null;
+
+  const accepted: SyncPushResponse["accepted"] = [];
+  for (const raw of v.accepted) {
+    if (isRecord(raw) && typeof raw.ymd === "string" && isRevision(raw.revision)) {
+      accepted.push({ ymd: raw.ymd, revision: raw.revision });
+    }
+  }
+
+  const conflicts: SyncDayRecord[] = [];
+  for (const raw of v.conflicts) {
+    const rec = parseDayRecord(raw);
+    if (rec) conflicts.push(rec);
+  }
+
+  let aliases: SyncPushResponse["aliases"] = null;
+  if (isRecord(v.aliases)) {
+    if (v.aliases.ok === true && isRevision(v.aliases.revision)) {
+      aliases = { ok: true, revision: v.aliases.revision };
+    } else {
+      const current = parseAliasesRecord(v.aliases.current);
+      if (current) aliases = { ok: false, current };
+    }
+  }
+
+  return { accepted, conflicts, aliases };
+}
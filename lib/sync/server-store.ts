@@ -0,0 +1,167 @@
+/* lib/sync/server-store.ts
+ * 同期サーバー側の保存先（route handler からだけ使う / 1つの JSON ファイル）
+ * - 置き場所は ACHIEVE_SYNC_FILE（既定は <cwd>/.data/sync.json）
+ * - 読み書きは1本の Promise 列で直列化し、書き込みは一時ファイル → rename で置き換える
+ * - 同期は ACHIEVE_SYNC_TOKEN が設定されているときだけ有効（Bearer トークンで照合）
+ */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { normalizeDay, type AchieveDay } from "@/lib/storage";
+import type {
+  SyncAliasesRecord,
+  SyncDayRecord,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+} from "@/lib/sync/protocol";
+import { parseSyncAliases } from "@/lib/sync/protocol";
+
+type StoredDay = { day: AchieveDay; revision: number };
+
+type SyncStoreData = {
+  version: 1;
+  revision: number;
+  days: Record<string, StoredDay>;
+  aliases: SyncAliasesRecord | null;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function storeFile(): string {
+  return process.env.ACHIEVE_SYNC_FILE ?? path.join(process.cwd(), ".data", "sync.json");
+}
+
+function emptyData(): SyncStoreData {
+  return { version: 1, revision: 0, days: {}, aliases: null };
+}
+
+function parseStoreData(raw: string): SyncStoreData {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isRecord(parsed) || typeof parsed.revision !== "number" || !isRecord(parsed.days)) {
+    throw new Error(`sync store is corrupted: ${storeFile()}`);
+  }
+
+  const days: Record<string, StoredDay> = {};
+  for (const [ymd, v] of Object.entries(parsed.days)) {
+    if (!isRecord(v) || typeof v.revision !== "number") continue;
+    days[ymd] = { day: normalizeDay(ymd, v.day), revision: v.revision };
+  }
+
+  let aliases: SyncAliasesRecord | null = null;
+  if (isRecord(parsed.aliases) && typeof parsed.aliases.revision === "number") {
+    const value = parseSyncAliases(parsed.aliases.value);
+    if (value) aliases = { value, revision: parsed.aliases.revision };
+  }
+
+  return { version: 1, revision: parsed.revision, days, aliases };
+}
+
+let cache: SyncStoreData | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+async function loadData(): Promise<SyncStoreData> {
+  if (cache) return cache;
+
+  try {
+    cache = parseStoreData(await readFile(storeFile(), "utf8"));
+  } catch (e: unknown) {
+    // 初回（ファイルが無い）だけ空で始める。壊れている場合は上書きしないよう投げ直す
+    if (!isRecord(e) || e.code !== "ENOENT") throw e;
+    cache = emptyData();
+  }
+  return cache;
+}
+
+async function writeData(data: SyncStoreData): Promise<void> {
+  const file = storeFile();
+  await mkdir(path.dirname(file), { recursive: true });
+
+  const tmp = `${file}.${randomBytes(4).toString("hex")}.tmp`;
+  await writeFile(tmp, JSON.stringify(data), "utf8");
+  await rename(tmp, file);
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+export function isSyncServerEnabled(): boolean {
+  return Boolean(process.env.ACHIEVE_SYNC_TOKEN);
+}
+
+export function isAuthorizedSyncRequest(request: Request): boolean {
+  const expected = process.env.ACHIEVE_SYNC_TOKEN;
+  if (!expected) return false;
+
+  const header = request.headers.get("authorization") ?? "";
+  const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function pullSyncChanges(since: number): Promise<SyncPullResponse> {
+  return serialize(async () => {
+    const data = await loadData();
+
+    const days: SyncDayRecord[] = [];
+    for (const [ymd, stored] of Object.entries(data.days)) {
+      if (stored.revision > since) days.push({ ymd, day: stored.day, revision: stored.revision });
+    }
+    days.sort((a, b) => a.revision - b.revision);
+
+    const aliases = data.aliases && data.aliases.revision > since ? data.aliases : null;
+    return { cursor: data.revision, days, aliases };
+  });
+}
+
+/**
+ * baseRevision が現在と一致するレコードだけ書く（一致しなければ conflict として現在の内容を返す）
+ */
+export function pushSyncChanges(req: SyncPushRequest): Promise<SyncPushResponse> {
+  return serialize(async () => {
+    const data = await loadData();
+    const next: SyncStoreData = { ...data, days: { ...data.days } };
+
+    const accepted: SyncPushResponse["accepted"] = [];
+    const conflicts: SyncDayRecord[] = [];
+
+    for (const p of req.days) {
+      const current = next.days[p.ymd];
+      if (current && current.revision !== p.baseRevision) {
+        conflicts.push({ ymd: p.ymd, day: current.day, revision: current.revision });
+        continue;
+      }
+
+      next.revision += 1;
+      next.days[p.ymd] = { day: p.day, revision: next.revision };
+      accepted.push({ ymd: p.ymd, revision: next.revision });
+    }
+
+    let aliases: SyncPushResponse["aliases"] = null;
+    if (req.aliases) {
+      const current = next.aliases;
+      if (current && current.revision !== req.aliases.baseRevision) {
+        aliases = { ok: false, current };
+      } else {
+        next.revision += 1;
+        next.aliases = { value: req.aliases.value, revision: next.revision };
+        aliases = { ok: true, revision: next.revision };
+      }
+    }
+
+    if (next.revision !== data.revision) {
+      await writeData(next);
+      cache = next;
+    }
+
+    return { accepted, conflicts, aliases };
+  });
+}
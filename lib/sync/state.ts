@@ -0,0 +1,98 @@
+/* lib/sync/state.ts
+ * 同期の設定と進み具合（localStorage: achieve:sync:v1 / タブ間で共有）
+ * - revisions：日ごとに「最後にサーバーと揃えた revision」（送信時の baseRevision）
+ * - pending：送信待ちの日 → 変更の通し番号（送信中に再び変わった日を取りこぼさないため）
+ * - 読み書きは毎回 storage から（他タブの更新を上書きしないよう、同期処理の間に保持しない）
+ */
+
+export const SYNC_STATE_KEY = "achieve:sync:v1";
+
+export type SyncState = {
+  enabled: boolean;
+  token: string;
+  cursor: number;
+  revisions: Record<string, number>;
+  aliasesRevision: number;
+  pending: Record<string, number>;
+  aliasesPending: number; // 0 = 送信待ちなし
+  seq: number;
+  lastSyncedAt: string | null; // ISO
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function numberMap(v: unknown): Record<string, number> {
+  if (!isRecord(v)) return {};
+
+  const out: Record<string, number> = {};
+  for (const [k, n] of Object.entries(v)) {
+    if (typeof n === "number" && Number.isFinite(n)) out[k] = n;
+  }
+  return out;
+}
+
+function num(v: unknown): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : 0;
+}
+
+export function defaultSyncState(): SyncState {
+  return {
+    enabled: false,
+    token: "",
+    cursor: 0,
+    revisions: {},
+    aliasesRevision: 0,
+    pending: {},
+    aliasesPending: 0,
+    seq: 0,
+    lastSyncedAt: null,
+  };
+}
+
+export function loadSyncState(storage: Storage): SyncState {
+  const raw = storage.getItem(SYNC_STATE_KEY);
+  if (!raw) return defaultSyncState();
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!isRecord(parsed)) return defaultSyncState();
+
+    return {
+      enabled: parsed.enabled === true,
+      token: typeof parsed.token === "string" ? parsed.token : "",
+      cursor: num(parsed.cursor),
+      revisions: numberMap(parsed.revisions),
+      aliasesRevision: num(parsed.aliasesRevision),
+      pending: numberMap(parsed.pending),
+      aliasesPending: num(parsed.aliasesPending),
+      seq: num(parsed.seq),
+      lastSyncedAt: typeof parsed.lastSyncedAt === "string" ? parsed.lastSyncedAt : null,
+    };
+  } catch {
+    return defaultSyncState();
+  }
+}
+
+export function saveSyncState(storage: Storage, state: SyncState): void {
+  storage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}
+
+/**
+ * 読み直し → 変更 → 保存を1回で（同期的に終わるので、タブ内で他の更新と混ざらない）
+ */
+export function updateSyncState(storage: Storage, fn: (state: SyncState) => void): SyncState {
+  const state = loadSyncState(storage);
+  fn(state);
+  saveSyncState(storage, state);
+  return state;
+}
+
+export function clearSyncState(storage: Storage): void {
+  storage.removeItem(SYNC_STATE_KEY);
+}
+
+export function countPending(state: SyncState): number {
+  return Object.keys(state.pending).length + (state.aliasesPending ? 1 : 0);
+}
@@ -1,5 +1,7 @@
 /* lib/tags/suggest.ts */
+import { lastNYmds } from "@/lib/date";
 import { extractTags, type TagAliases } from "@/lib/diary";
+import { getDateSettings, type DateSettings } from "@/lib/prefs/date-settings";
 import type { DayEntry } from "@/lib/storage";
 
 export type TagSuggestion = {
@@ -10,27 +12,6 @@ export type TagSuggestion = {
   matchKeys: string[]; // canonical + alias keys (normalized lower)
 };
 
-function jstYmdFromDate(d: Date): string {
-  const fmt = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "Asia/Tokyo",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-  return fmt.format(d);
-}
-
-function lastNYmds(n: number): string[] {
-  const out: string[] = [];
-  const d = new Date();
-  for (let i = n - 1; i >= 0; i--) {
-    const x = new Date(d);
-    x.setDate(d.getDate() - i);
-    out.push(jstYmdFromDate(x));
-  }
-  return out;
-}
-
 function invertAliases(aliases: TagAliases): Map<string, string[]> {
   const inv = new Map<string, string[]>();
   for (const [k, v] of Object.entries(aliases)) {
@@ -43,9 +24,16 @@ function invertAliases(aliases: TagAliases): Map<string, string[]> {
   return inv;
 }
 
-export function buildTagSuggestions(entries: DayEntry[], aliases: TagAliases): TagSuggestion[] {
+/**
+ * dateSettings：直近7日の数え方（worker には localStorage が無いので呼び出し側から渡す）
+ */
+export function buildTagSuggestions(
+  entries: DayEntry[],
+  aliases: TagAliases,
+  dateSettings: DateSettings = getDateSettings(),
+): TagSuggestion[] {
   const inv = invertAliases(aliases);
-  const recentSet = new Set<string>(lastNYmds(7));
+  const recentSet = new Set<string>(lastNYmds(7, new Date(), dateSettings));
 
   const stat = new Map<string, { total: number; recent7: number; lastSeen: string }>();
 
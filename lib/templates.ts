@@ -0,0 +1,254 @@
+/* lib/templates.ts
+ * 項目のテンプレート（よく書く「できたこと」を保存して、Today からワンタップで追加）
+ * - 定義は localStorage（achieve:templates:v1）。本文にタグも書ける（例：{分}分歩いた #健康）
+ * - {分} のような差し込み欄は、追加する前に数を聞いて埋める
+ * - 読み込んだ定義はタブ内でキャッシュし、保存・他タブの変更で読み直して subscribeTemplates() に知らせる
+ */
+
+import { notifyPrefChanged, subscribePrefChanges } from "@/lib/prefs/notify";
+import { createId } from "@/lib/storage";
+
+export type ItemTemplate = {
+  id: string;
+  text: string; // 追加する項目の本文（差し込み欄 {名前} を含んでよい）
+  createdAt: string; // ISO
+};
+
+export type SaveTemplateResult = { ok: true; template: ItemTemplate } | { ok: false; error: string };
+
+export type FillTemplateResult = { ok: true; text: string } | { ok: false; error: string };
+
+export const TEMPLATES_KEY = "achieve:templates:v1";
+
+const MAX_TEMPLATES = 50;
+const MAX_TEMPLATE_LENGTH = 200;
+const EMPTY_TEMPLATES: ItemTemplate[] = [];
+
+// {分} / {回数}（中括弧の入れ子と改行は含めない）
+const PLACEHOLDER_RE = /\{([^{}\n]+)\}/g;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let cache: ItemTemplate[] | null = null;
+let watching = false;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+/**
+ * 同じテンプレートか比べる key（全角/半角・大文字小文字・空白の違いは同じとみなす）
+ */
+function templateKey(text: string): string {
+  return text.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function toTemplate(v: unknown): ItemTemplate | null {
+  if (!isRecord(v)) return null;
+  if (typeof v.id !== "string" || !v.id || typeof v.text !== "string") return null;
+
+  const text = v.text.trim();
+  if (!text || text.length > MAX_TEMPLATE_LENGTH) return null;
+
+  return {
+    id: v.id,
+    text,
+    createdAt: typeof v.createdAt === "string" ? v.createdAt : new Date().toISOString(),
+  };
+}
+
+/**
+ * 壊れた要素・同じ id / 同じ本文の2つ目以降は捨てる（並びは保存順。バックアップの取り込みも同じ基準）
+ */
+export function normalizeTemplates(v: unknown): ItemTemplate[] {
+  if (!Array.isArray(v)) return EMPTY_TEMPLATES;
+
+  const ids = new Set<string>();
+  const keys = new Set<string>();
+  const out: ItemTemplate[] = [];
+
+  for (const raw of v) {
+    const t = toTemplate(raw);
+    if (!t) continue;
+
+    const key = templateKey(t.text);
+    if (ids.has(t.id) || keys.has(key)) continue;
+    ids.add(t.id);
+    keys.add(key);
+    out.push(t);
+  }
+  return out;
+}
+
+export function loadTemplates(storage: Storage): ItemTemplate[] {
+  const raw = storage.getItem(TEMPLATES_KEY);
+  if (!raw) return EMPTY_TEMPLATES;
+
+  try {
+    return normalizeTemplates(JSON.parse(raw) as unknown);
+  } catch {
+    return EMPTY_TEMPLATES;
+  }
+}
+
+function emitChange(): void {
+  for (const l of listeners) l();
+}
+
+function saveTemplates(storage: Storage, templates: ItemTemplate[]): void {
+  if (templates.length === 0) storage.removeItem(TEMPLATES_KEY);
+  else storage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+
+  cache = templates;
+  notifyPrefChanged(TEMPLATES_KEY);
+  emitChange();
+}
+
+function validateText(
+  templates: ItemTemplate[],
+  raw: string,
+  exceptId: string | null,
+): { ok: true; text: string } | { ok: false; error: string } {
+  const text = raw.trim();
+  if (!text) return { ok: false, error: "本文を入力してください。" };
+  if (text.length > MAX_TEMPLATE_LENGTH) return { ok: false, error: `本文は${MAX_TEMPLATE_LENGTH}文字までです。` };
+
+  const key = templateKey(text);
+  if (templates.some((t) => t.id !== exceptId && templateKey(t.text) === key)) {
+    return { ok: false, error: "同じテンプレートがあります。" };
+  }
+  return { ok: true, text };
+}
+
+export function addTemplate(storage: Storage, rawText: string): SaveTemplateResult {
+  const templates = loadTemplates(storage);
+  if (templates.length >= MAX_TEMPLATES) return { ok: false, error: `テンプレートは${MAX_TEMPLATES}個までです。` };
+
+  const v = validateText(templates, rawText, null);
+  if (!v.ok) return v;
+
+  const template: ItemTemplate = { id: createId(), text: v.text, createdAt: new Date().toISOString() };
+  try {
+    saveTemplates(storage, [...templates, template]);
+  } catch {
+    return { ok: false, error: "保存できませんでした（容量不足の可能性があります）。" };
+  }
+  return { ok: true, template };
+}
+
+export function updateTemplate(storage: Storage, id: string, rawText: string): SaveTemplateResult {
+  const templates = loadTemplates(storage);
+  const prev = templates.find((t) => t.id === id);
+  if (!prev) return { ok: false, error: "このテンプレートは削除されています。" };
+
+  const v = validateText(templates, rawText, id);
+  if (!v.ok) return v;
+
+  const template: ItemTemplate = { ...prev, text: v.text };
+  try {
+    saveTemplates(storage, templates.map((t) => (t.id === id ? template : t)));
+  } catch {
+    return { ok: false, error: "保存できませんでした（容量不足の可能性があります）。" };
+  }
+  return { ok: true, template };
+}
+
+export function removeTemplate(storage: Storage, id: string): void {
+  const templates = loadTemplates(storage);
+  saveTemplates(storage, templates.filter((t) => t.id !== id));
+}
+
+/**
+ * 取り込み用：current に無い本文（id も重ならないもの）だけ、上限まで
+ */
+export function missingTemplates(current: ItemTemplate[], incoming: ItemTemplate[]): ItemTemplate[] {
+  const ids = new Set(current.map((t) => t.id));
+  const keys = new Set(current.map((t) => templateKey(t.text)));
+  const room = Math.max(0, MAX_TEMPLATES - current.length);
+
+  const out: ItemTemplate[] = [];
+  for (const t of incoming) {
+    if (out.length >= room) break;
+
+    const key = templateKey(t.text);
+    if (ids.has(t.id) || keys.has(key)) continue;
+    ids.add(t.id);
+    keys.add(key);
+    out.push(t);
+  }
+  return out;
+}
+
+/**
+ * バックアップの取り込み：書き込む直前の最新に無いものだけ後ろに足す（追加した数を返す）
+ */
+export function importTemplates(storage: Storage, incoming: ItemTemplate[]): number {
+  const latest = loadTemplates(storage);
+  const added = missingTemplates(latest, incoming);
+  if (added.length > 0) saveTemplates(storage, [...latest, ...added]);
+  return added.length;
+}
+
+// ===== 差し込み欄 =====
+
+/**
+ * 本文の差し込み欄の名前（出てきた順・重複なし）
+ */
+export function templatePlaceholders(text: string): string[] {
+  const names: string[] = [];
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    const name = (m[1] ?? "").trim();
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * 差し込み欄を数で埋める（全角数字も可。"1,500" の桁区切りは外す）
+ * - 欄が無いテンプレートは本文のまま
+ */
+export function fillTemplate(text: string, values: Record<string, string>): FillTemplateResult {
+  const numbers = new Map<string, string>();
+
+  for (const name of templatePlaceholders(text)) {
+    const v = (values[name] ?? "").normalize("NFKC").trim().replace(/,/g, "");
+    if (!v) return { ok: false, error: `「${name}」を入力してください。` };
+    if (!/^\d+(\.\d+)?$/.test(v)) return { ok: false, error: `「${name}」は数字で入力してください。` };
+    numbers.set(name, v);
+  }
+
+  const filled = text.replace(PLACEHOLDER_RE, (all: string, name: string) => numbers.get(name.trim()) ?? all);
+  return { ok: true, text: filled };
+}
+
+// ===== store（useSyncExternalStore 用）=====
+
+function reload(): void {
+  cache = loadTemplates(window.localStorage);
+  emitChange();
+}
+
+export function getTemplates(): ItemTemplate[] {
+  if (typeof window === "undefined" || typeof window.localStorage === "undefined") return EMPTY_TEMPLATES;
+
+  if (!watching) {
+    watching = true;
+    // 他タブで変えたら読み直す
+    subscribePrefChanges(TEMPLATES_KEY, reload);
+  }
+
+  cache ??= loadTemplates(window.localStorage);
+  return cache;
+}
+
+export function getServerTemplates(): ItemTemplate[] {
+  return EMPTY_TEMPLATES;
+}
+
+export function subscribeTemplates(listener: Listener): () => void {
+  getTemplates();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
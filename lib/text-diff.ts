@@ -0,0 +1,90 @@
+/* lib/text-diff.ts
+ * 2つの文字列の差分（LCS）
+ * - 短い文章は文字単位、長い文章は行単位（DP 表が大きくなりすぎないように）
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export type DiffPart = {
+  op: DiffOp;
+  text: string;
+};
+
+// 文字単位で比較する上限（n × m のセル数）
+const MAX_CHAR_CELLS = 1_000_000;
+const MAX_LINE_CELLS = 4_000_000;
+
+function splitLines(s: string): string[] {
+  // 改行は各行の末尾に残す（join で元に戻せるように）
+  return s.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function pushPart(out: DiffPart[], op: DiffOp, text: string): void {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+    return;
+  }
+  out.push({ op, text });
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  const n = a.length;
+  const m = b.length;
+
+  // dp[i][j] = a[i..], b[j..] の LCS 長（1次元配列に詰める）
+  const w = m + 1;
+  const dp = new Uint32Array((n + 1) * w);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i * w + j] =
+        a[i] === b[j] ? dp[(i + 1) * w + j + 1] + 1 : Math.max(dp[(i + 1) * w + j], dp[i * w + j + 1]);
+    }
+  }
+
+  const out: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pushPart(out, "equal", a[i] ?? "");
+      i++;
+      j++;
+    } else if (dp[(i + 1) * w + j] >= dp[i * w + j + 1]) {
+      pushPart(out, "delete", a[i] ?? "");
+      i++;
+    } else {
+      pushPart(out, "insert", b[j] ?? "");
+      j++;
+    }
+  }
+
+  while (i < n) pushPart(out, "delete", a[i++] ?? "");
+  while (j < m) pushPart(out, "insert", b[j++] ?? "");
+
+  return out;
+}
+
+/**
+ * before → after の差分
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ op: "equal", text: before }] : [];
+
+  const ca = Array.from(before);
+  const cb = Array.from(after);
+  if (ca.length * cb.length <= MAX_CHAR_CELLS) return diffTokens(ca, cb);
+
+  const la = splitLines(before);
+  const lb = splitLines(after);
+  if (la.length * lb.length <= MAX_LINE_CELLS) return diffTokens(la, lb);
+
+  // それでも大きすぎる場合は全置換として扱う
+  const out: DiffPart[] = [];
+  pushPart(out, "delete", before);
+  pushPart(out, "insert", after);
+  return out;
+}
@@ -0,0 +1,154 @@
+/* lib/trash.ts
+ * 削除した AchieveItem のゴミ箱（localStorage）
+ * - 元の ymd と位置・削除日時を残し、元の日へ戻せるようにする
+ * - 保持日数を過ぎたものは purgeExpiredTrash() で自動的に消す
+ */
+
+import { sensitiveStorage } from "@/lib/encryption/sensitive-storage";
+import { notifyPrefChanged } from "@/lib/prefs/notify";
+import { createId, loadDay, saveDay, type AchieveDay, type AchieveItem, type SaveDayResult } from "@/lib/storage";
+
+export const TRASH_KEY = "achieve:trash:v1";
+export const TRASH_RETENTION_KEY = "achieve:trash:retention-days:v1";
+
+// 0 = 自動で消さない
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_CHOICES = [7, 30, 90, 0] as const;
+
+export type TrashEntry = {
+  trashId: string;
+  ymd: string; // 元の日
+  index: number; // 元の並び位置（復元時の目安）
+  item: AchieveItem;
+  deletedAt: string; // ISO
+};
+
+export type RestoreTrashResult =
+  | { ok: true; day: AchieveDay }
+  | { ok: false; reason: "not-found" }
+  | Extract<SaveDayResult, { ok: false }>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isTrashEntry(v: unknown): v is TrashEntry {
+  if (!isRecord(v) || !isRecord(v.item)) return false;
+  return (
+    typeof v.trashId === "string" &&
+    typeof v.ymd === "string" &&
+    typeof v.index === "number" &&
+    typeof v.deletedAt === "string" &&
+    typeof v.item.id === "string" &&
+    typeof v.item.text === "string"
+  );
+}
+
+export function loadTrash(storage: Storage): TrashEntry[] {
+  const raw = sensitiveStorage(storage).getItem(TRASH_KEY);
+  if (!raw) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isTrashEntry).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  } catch {
+    return [];
+  }
+}
+
+function saveTrash(storage: Storage, entries: TrashEntry[]): void {
+  const target = sensitiveStorage(storage);
+  if (entries.length === 0) {
+    target.removeItem(TRASH_KEY);
+    return;
+  }
+  target.setItem(TRASH_KEY, JSON.stringify(entries));
+}
+
+export function moveItemToTrash(storage: Storage, ymd: string, item: AchieveItem, index: number): TrashEntry {
+  const entry: TrashEntry = {
+    trashId: createId(),
+    ymd,
+    index,
+    item,
+    deletedAt: new Date().toISOString(),
+  };
+
+  saveTrash(storage, [entry, ...loadTrash(storage)]);
+  return entry;
+}
+
+/**
+ * 元の日へ戻す（最新の保存内容を読み直してから差し込む）
+ * - 同じ id が既に戻っていれば何もしない（ゴミ箱からは消す）
+ * - 日の deleted（墓標）からも外す
+ */
+export function restoreFromTrash(storage: Storage, trashId: string): RestoreTrashResult {
+  const entries = loadTrash(storage);
+  const entry = entries.find((e) => e.trashId === trashId);
+  if (!entry) return { ok: false, reason: "not-found" };
+
+  const day = loadDay(entry.ymd);
+  let next = day;
+
+  if (!day.items.some((it) => it.id === entry.item.id)) {
+    // 削除の墓標より新しい updatedAt にして、他タブとのマージでも戻した状態を優先させる
+    const restored: AchieveItem = { ...entry.item, updatedAt: new Date().toISOString() };
+    const items = [...day.items];
+    items.splice(Math.min(Math.max(entry.index, 0), items.length), 0, restored);
+    next = {
+      ...day,
+      items,
+      deleted: day.deleted.filter((t) => t.id !== entry.item.id),
+    };
+
+    const res = saveDay(next);
+    if (!res.ok) return res;
+  }
+
+  saveTrash(
+    storage,
+    entries.filter((e) => e.trashId !== trashId),
+  );
+  return { ok: true, day: next };
+}
+
+export function purgeTrashEntry(storage: Storage, trashId: string): void {
+  saveTrash(
+    storage,
+    loadTrash(storage).filter((e) => e.trashId !== trashId),
+  );
+}
+
+export function purgeAllTrash(storage: Storage): void {
+  saveTrash(storage, []);
+}
+
+export function loadTrashRetentionDays(storage: Storage): number {
+  const raw = storage.getItem(TRASH_RETENTION_KEY);
+  if (raw === null) return DEFAULT_TRASH_RETENTION_DAYS;
+
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function saveTrashRetentionDays(storage: Storage, days: number): void {
+  storage.setItem(TRASH_RETENTION_KEY, String(Math.max(0, Math.floor(days))));
+  notifyPrefChanged(TRASH_RETENTION_KEY);
+}
+
+/**
+ * 保持日数を過ぎたものを消す（戻り値：消した件数）
+ */
+export function purgeExpiredTrash(storage: Storage, now: Date = new Date()): number {
+  const days = loadTrashRetentionDays(storage);
+  if (days === 0) return 0;
+
+  const threshold = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  const entries = loadTrash(storage);
+  const kept = entries.filter((e) => e.deletedAt >= threshold);
+
+  if (kept.length !== entries.length) saveTrash(storage, kept);
+  return entries.length - kept.length;
+}
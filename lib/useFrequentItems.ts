@@ -0,0 +1,45 @@
+/* lib/useFrequentItems.ts */
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { CancelFn } from "@/lib/client-scheduler";
+import type { FrequentItem } from "@/lib/frequent-items";
+import { useDaysData } from "@/lib/useDaysData";
+import { requestFrequentItems } from "@/lib/workers/client";
+
+const EMPTY_FREQUENT_ITEMS: FrequentItem[] = [];
+
+/**
+ * よく書く項目（Today のワンタップ追加用）
+ * - 全日の走査は worker で（使えなければ idle でメインスレッド）。追加・他タブの保存で days-store が変われば集計し直す
+ */
+export function useFrequentItems(): FrequentItem[] {
+  const { entries } = useDaysData({
+    enabled: true,
+    refreshOnMount: true,
+    refreshOnFocus: true,
+    refreshOnVisible: true,
+    throttleMs: 500,
+  });
+
+  // 集計し直している間は前回の結果を出したままにする（チップがちらつかないように）
+  const [items, setItems] = useState<FrequentItem[]>(EMPTY_FREQUENT_ITEMS);
+  const jobCancelRef = useRef<CancelFn | null>(null);
+
+  useEffect(() => {
+    if (!entries) return;
+
+    if (jobCancelRef.current) jobCancelRef.current();
+    jobCancelRef.current = requestFrequentItems(entries, (next) => {
+      jobCancelRef.current = null;
+      setItems(next);
+    });
+
+    return () => {
+      if (jobCancelRef.current) jobCancelRef.current();
+      jobCancelRef.current = null;
+    };
+  }, [entries]);
+
+  return items;
+}
@@ -3,11 +3,14 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { normalizeAliasKey } from "@/lib/diary";
-import { runIdle, type CancelFn } from "@/lib/client-scheduler";
+import type { CancelFn } from "@/lib/client-scheduler";
 import { useDaysData } from "@/lib/useDaysData";
 import { useTagAliases } from "@/lib/useTagAliases";
+import { loadBool, saveBool } from "@/lib/prefs/bool";
+import { subscribePrefChanges } from "@/lib/prefs/notify";
 import { getActiveTagToken, type ActiveTagToken } from "@/lib/tags/active-token";
-import { buildTagSuggestions, type TagSuggestion } from "@/lib/tags/suggest";
+import type { TagSuggestion } from "@/lib/tags/suggest";
+import { requestTagSuggestions } from "@/lib/workers/client";
 
 type UseTagSuggestArgs = {
   text: string;
@@ -35,6 +38,8 @@ type UseTagSuggestResult = {
   refresh: () => void;
 };
 
+const TAG_SUGGEST_SPACE_KEY = "achieve:tag-suggest:space:v1";
+
 function getAliasesSig(aliases: Record<string, string>): string {
   const keys = Object.keys(aliases);
   const len = keys.length;
@@ -79,24 +84,25 @@ export function useTagSuggest(args: UseTagSuggestArgs): UseTagSuggestResult {
   const aliases = useMemo(() => aliasesRaw ?? {}, [aliasesRaw]);
 
   // autoSpace は useTagSuggest 内で保持（既存挙動維持）
-  const TAG_SUGGEST_SPACE_KEY = "achieve:tag-suggest:space:v1";
-
   const [autoSpace, setAutoSpace] = useState<boolean>(() => {
     if (typeof window === "undefined") return true;
-    const raw = window.localStorage.getItem(TAG_SUGGEST_SPACE_KEY);
-    if (!raw) return true;
-    if (raw === "1") return true;
-    if (raw === "0") return false;
-    return true;
+    return loadBool(window.localStorage, TAG_SUGGEST_SPACE_KEY, true);
   });
 
   const toggleAutoSpace = useCallback((next: boolean) => {
     setAutoSpace(next);
     if (typeof window === "undefined") return;
-    window.localStorage.setItem(TAG_SUGGEST_SPACE_KEY, next ? "1" : "0");
+    saveBool(window.localStorage, TAG_SUGGEST_SPACE_KEY, next);
+  }, []);
+
+  // 他タブで切り替えたら合わせる
+  useEffect(() => {
+    return subscribePrefChanges(TAG_SUGGEST_SPACE_KEY, () => {
+      setAutoSpace(loadBool(window.localStorage, TAG_SUGGEST_SPACE_KEY, true));
+    });
   }, []);
 
-  // heavy compute in idle
+  // heavy compute in worker (idle fallback)
   const [allSuggestions, setAllSuggestions] = useState<TagSuggestion[]>([]);
   const [computedKey, setComputedKey] = useState<string>("");
   const suggestJobCancelRef = useRef<CancelFn | null>(null);
@@ -117,9 +123,8 @@ export function useTagSuggest(args: UseTagSuggestArgs): UseTagSuggestResult {
 
     if (suggestJobCancelRef.current) suggestJobCancelRef.current();
 
-    suggestJobCancelRef.current = runIdle(() => {
+    suggestJobCancelRef.current = requestTagSuggestions(entries, aliases, (built) => {
       suggestJobCancelRef.current = null;
-      const built = buildTagSuggestions(entries, aliases);
       setAllSuggestions(built);
       setComputedKey(wantKey);
     });
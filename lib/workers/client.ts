@@ -0,0 +1,177 @@
+/* lib/workers/client.ts
+ * 集計 worker（compute.worker.ts）のメインスレッド側の窓口
+ * - days は前回送った DayEntry と参照を比べて差分だけ送る（days-store が変わらない日の参照を保つ前提）
+ * - 依頼ごとに CancelFn を返す（runIdle と同じ形。古い依頼は呼び出し側が cancel する）
+ * - Worker が使えない / 読み込めない / 集計に失敗した場合は従来どおり runIdle でメインスレッドで集計する
+ */
+
+import { runIdle, type CancelFn } from "@/lib/client-scheduler";
+import type { TagAliases } from "@/lib/diary";
+import { buildFrequentItems, type FrequentItem } from "@/lib/frequent-items";
+import { computeInsights, type Insights } from "@/lib/insights";
+import { getDateSettings } from "@/lib/prefs/date-settings";
+import type { DayEntry } from "@/lib/storage";
+import { buildTagSuggestions, type TagSuggestion } from "@/lib/tags/suggest";
+import { isComputeResponse, type ComputeRequest } from "@/lib/workers/protocol";
+
+type Job =
+  | { type: "insights"; entries: DayEntry[]; onResult: (result: Insights) => void }
+  | { type: "tag-suggestions"; entries: DayEntry[]; aliases: TagAliases; onResult: (result: TagSuggestion[]) => void }
+  | { type: "frequent-items"; entries: DayEntry[]; onResult: (result: FrequentItem[]) => void };
+
+type PendingJob = {
+  job: Job;
+  cancelFallback: CancelFn | null; // worker を諦めて idle 実行に回したとき
+};
+
+let worker: Worker | null = null;
+let unavailable = false;
+let nextJobId = 1;
+
+const pending = new Map<number, PendingJob>();
+// worker に送った DayEntry（参照の比較で差分を作る）
+const sent = new Map<string, DayEntry>();
+
+function computeOnMainThread(job: Job): void {
+  if (job.type === "insights") job.onResult(computeInsights(job.entries));
+  else if (job.type === "tag-suggestions") job.onResult(buildTagSuggestions(job.entries, job.aliases));
+  else job.onResult(buildFrequentItems(job.entries));
+}
+
+function runOnMainThread(job: Job): CancelFn {
+  return runIdle(() => computeOnMainThread(job));
+}
+
+function fallBack(jobId: number): void {
+  const p = pending.get(jobId);
+  if (!p || p.cancelFallback) return;
+
+  p.cancelFallback = runIdle(() => {
+    pending.delete(jobId);
+    computeOnMainThread(p.job);
+  });
+}
+
+function post(w: Worker, req: ComputeRequest): void {
+  w.postMessage(req);
+}
+
+function onWorkerMessage(e: MessageEvent<unknown>): void {
+  const res = e.data;
+  if (!isComputeResponse(res)) return;
+
+  const p = pending.get(res.jobId);
+  if (!p) return;
+
+  if (res.type === "error") {
+    fallBack(res.jobId);
+    return;
+  }
+
+  pending.delete(res.jobId);
+  if (res.type === "insights" && p.job.type === "insights") p.job.onResult(res.result);
+  else if (res.type === "tag-suggestions" && p.job.type === "tag-suggestions") p.job.onResult(res.result);
+  else if (res.type === "frequent-items" && p.job.type === "frequent-items") p.job.onResult(res.result);
+}
+
+/**
+ * 読み込みに失敗した worker は捨て、以後はすべてメインスレッドで集計する
+ */
+function onWorkerError(): void {
+  unavailable = true;
+  if (worker) worker.terminate();
+  worker = null;
+  sent.clear();
+
+  for (const jobId of Array.from(pending.keys())) fallBack(jobId);
+}
+
+function getWorker(): Worker | null {
+  if (unavailable) return null;
+  if (worker) return worker;
+
+  if (typeof window === "undefined" || typeof Worker === "undefined") {
+    unavailable = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL("./compute.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    unavailable = true;
+    return null;
+  }
+
+  worker.onmessage = onWorkerMessage;
+  worker.onerror = onWorkerError;
+  return worker;
+}
+
+/**
+ * 前回送った内容との差分（変わった日 / 消えた日）だけ worker に送る
+ */
+function syncDays(w: Worker, entries: DayEntry[]): void {
+  const upsert: DayEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const e of entries) {
+    seen.add(e.ymd);
+    if (sent.get(e.ymd) === e) continue;
+    sent.set(e.ymd, e);
+    upsert.push(e);
+  }
+
+  const remove: string[] = [];
+  for (const ymd of sent.keys()) {
+    if (!seen.has(ymd)) remove.push(ymd);
+  }
+  for (const ymd of remove) sent.delete(ymd);
+
+  if (upsert.length || remove.length) post(w, { type: "days", upsert, remove });
+}
+
+function request(job: Job): CancelFn {
+  const w = getWorker();
+  if (!w) return runOnMainThread(job);
+
+  const jobId = nextJobId++;
+  pending.set(jobId, { job, cancelFallback: null });
+
+  syncDays(w, job.entries);
+  switch (job.type) {
+    case "insights":
+      post(w, { type: "insights", jobId });
+      break;
+    case "tag-suggestions":
+      post(w, { type: "tag-suggestions", jobId, aliases: job.aliases, dateSettings: getDateSettings() });
+      break;
+    case "frequent-items":
+      post(w, { type: "frequent-items", jobId, dateSettings: getDateSettings() });
+      break;
+  }
+
+  return () => {
+    const p = pending.get(jobId);
+    if (!p) return;
+    pending.delete(jobId);
+
+    if (p.cancelFallback) p.cancelFallback();
+    else if (worker) post(worker, { type: "cancel", jobId });
+  };
+}
+
+export function requestInsights(entries: DayEntry[], onResult: (result: Insights) => void): CancelFn {
+  return request({ type: "insights", entries, onResult });
+}
+
+export function requestTagSuggestions(
+  entries: DayEntry[],
+  aliases: TagAliases,
+  onResult: (result: TagSuggestion[]) => void,
+): CancelFn {
+  return request({ type: "tag-suggestions", entries, aliases, onResult });
+}
+
+export function requestFrequentItems(entries: DayEntry[], onResult: (result: FrequentItem[]) => void): CancelFn {
+  return request({ type: "frequent-items", entries, onResult });
+}
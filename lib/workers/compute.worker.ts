@@ -0,0 +1,68 @@
+/* lib/workers/compute.worker.ts
+ * 全日を走査する集計（Insights / タグ候補 / よく書く項目）をメインスレッドの外で行う worker
+ * - days は差分で受け取り ymd → DayEntry で保持（毎回全件を送らない）
+ * - 依頼はすぐには実行せず setTimeout(0) で後回しにし、その間に届いた cancel を反映してから走らせる
+ */
+
+import { buildFrequentItems } from "@/lib/frequent-items";
+import { computeInsights } from "@/lib/insights";
+import { buildTagSuggestions } from "@/lib/tags/suggest";
+import type { DayEntry } from "@/lib/storage";
+import { isComputeRequest, type ComputeRequest, type ComputeResponse } from "@/lib/workers/protocol";
+
+type WorkerScope = {
+  onmessage: ((e: MessageEvent<unknown>) => void) | null;
+  postMessage: (message: ComputeResponse) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+const days = new Map<string, DayEntry>();
+const queued = new Set<number>(); // 実行待ちの jobId（cancel されたら外す）
+
+// ymd の新しい順（メインスレッドの days-store と同じ並び）
+function sortedEntries(): DayEntry[] {
+  return Array.from(days.values()).sort((a, b) => b.ymd.localeCompare(a.ymd));
+}
+
+function runJob(req: Exclude<ComputeRequest, { type: "days" } | { type: "cancel" }>): void {
+  if (!queued.delete(req.jobId)) return;
+
+  try {
+    if (req.type === "insights") {
+      scope.postMessage({ type: "insights", jobId: req.jobId, result: computeInsights(sortedEntries()) });
+    } else if (req.type === "tag-suggestions") {
+      scope.postMessage({
+        type: "tag-suggestions",
+        jobId: req.jobId,
+        result: buildTagSuggestions(sortedEntries(), req.aliases, req.dateSettings),
+      });
+    } else {
+      scope.postMessage({
+        type: "frequent-items",
+        jobId: req.jobId,
+        result: buildFrequentItems(sortedEntries(), req.dateSettings),
+      });
+    }
+  } catch (e: unknown) {
+    scope.postMessage({ type: "error", jobId: req.jobId, message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+scope.onmessage = (e) => {
+  const req = e.data;
+  if (!isComputeRequest(req)) return;
+
+  switch (req.type) {
+    case "days":
+      for (const ymd of req.remove) days.delete(ymd);
+      for (const entry of req.upsert) days.set(entry.ymd, entry);
+      return;
+    case "cancel":
+      queued.delete(req.jobId);
+      return;
+    default:
+      queued.add(req.jobId);
+      setTimeout(() => runJob(req), 0);
+  }
+};
@@ -0,0 +1,48 @@
+/* lib/workers/protocol.ts
+ * 集計 worker（compute.worker.ts）とのメッセージ定義
+ * - days は差分で送る（upsert / remove）。worker 側は ymd → DayEntry を持ち続ける
+ * - 集計は jobId 付きで依頼し、結果も同じ jobId で返る。cancel された job は結果を返さない
+ */
+
+import type { TagAliases } from "@/lib/diary";
+import type { FrequentItem } from "@/lib/frequent-items";
+import type { Insights } from "@/lib/insights";
+import type { DateSettings } from "@/lib/prefs/date-settings";
+import type { DayEntry } from "@/lib/storage";
+import type { TagSuggestion } from "@/lib/tags/suggest";
+
+export type ComputeRequest =
+  | { type: "days"; upsert: DayEntry[]; remove: string[] }
+  | { type: "insights"; jobId: number }
+  | { type: "tag-suggestions"; jobId: number; aliases: TagAliases; dateSettings: DateSettings }
+  | { type: "frequent-items"; jobId: number; dateSettings: DateSettings }
+  | { type: "cancel"; jobId: number };
+
+export type ComputeResponse =
+  | { type: "insights"; jobId: number; result: Insights }
+  | { type: "tag-suggestions"; jobId: number; result: TagSuggestion[] }
+  | { type: "frequent-items"; jobId: number; result: FrequentItem[] }
+  | { type: "error"; jobId: number; message: string };
+
+export type ComputeJobKind = Exclude<ComputeRequest["type"], "days" | "cancel">;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * 同じアプリのコードどうしなので形の確認は最小限（type と jobId だけ）
+ */
+export function isComputeRequest(v: unknown): v is ComputeRequest {
+  if (!isRecord(v)) return false;
+  if (v.type === "days") return Array.isArray(v.upsert) && Array.isArray(v.remove);
+  return (
+    (v.type === "insights" || v.type === "tag-suggestions" || v.type === "frequent-items" || v.type === "cancel") &&
+    typeof v.jobId === "number"
+  );
+}
+
+export function isComputeResponse(v: unknown): v is ComputeResponse {
+  if (!isRecord(v) || typeof v.jobId !== "number") return false;
+  return v.type === "insights" || v.type === "tag-suggestions" || v.type === "frequent-items" || v.type === "error";
+}